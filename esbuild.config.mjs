@@ -1,5 +1,6 @@
 import esbuild from "esbuild";
 import process from "process";
+import path from "path";
 import builtInModules from "builtin-modules";
 
 const banner =
@@ -10,6 +11,35 @@ if you want to view the source, please visit the github repository of this plugi
 `;
 
 const prod = (process.argv[2] === 'production');
+
+// Bundles `*.worker.ts` modules separately and inlines them as source text,
+// so they can be started from a Blob URL without shipping extra files
+const inlineWorkerPlugin = {
+  name: 'inline-worker',
+  setup(build) {
+    build.onLoad({ filter: /\.worker\.ts$/ }, async (args) => {
+      const result = await esbuild.build({
+        entryPoints: [args.path],
+        bundle: true,
+        write: false,
+        metafile: true,
+        format: 'iife',
+        target: 'ES2020',
+        minify: prod,
+        sourcemap: prod ? false : 'inline',
+        logLevel: 'silent',
+        // The worker receives the WebAssembly binary from the plugin
+        external: ['fs', 'path', 'crypto'],
+      });
+
+      return {
+        contents: result.outputFiles[0].text,
+        loader: 'text',
+        watchFiles: Object.keys(result.metafile.inputs).map(file => path.resolve(file)),
+      };
+    });
+  }
+};
 const context = await esbuild.context({
   banner: {
     js: banner,
@@ -40,7 +70,8 @@ const context = await esbuild.context({
   loader: {
     '.wasm': 'file'
   },
-  assetNames: '[name]'
+  assetNames: '[name]',
+  plugins: [inlineWorkerPlugin]
 });
 
 if (prod) {
@@ -1,26 +1,55 @@
-import { Plugin, Notice, Menu, TFile } from 'obsidian';
+import { Plugin, Notice, Menu, TFile, TFolder, type Events, type TAbstractFile } from 'obsidian';
 import { QMDSettingsTab, DEFAULT_SETTINGS, type QMDSettings } from './src/ui/settings-tab';
-import { initDatabase, loadDatabase, serializeDatabase, type Database } from './src/database';
+import { initDatabase, loadDatabase, DatabaseInitError, IndexStorage, IndexAutosaver, SnapshotManager, readWasmBinary, DocumentContentLoader, IndexGarbageCollector, DEFAULT_NORMALIZER_RULES, DEFAULT_TRANSCLUSION_OPTIONS, createDefaultExtractorRegistry, type Database, type LinkResolver, type NormalizerRules, type RemoteIndexRepository } from './src/database';
 import { CollectionManager } from './src/collections/manager';
-import { DocumentIndexer } from './src/database/indexer';
+import { VaultExclusions, IGNORE_FILE_NAME, getObsidianExcludedFiles } from './src/collections/ignore';
+import { DocumentIndexer, formatReconcileDiff, formatReconcileSummary, type FileRename, type RenameResult } from './src/database/indexer';
 import { OllamaEmbedder } from './src/embeddings/embedder';
+import { JobQueue, JOB_PRIORITY } from './src/jobs/job-queue';
+import { registerIndexingJobs } from './src/jobs/indexing-jobs';
 import { QMDStatusView, STATUS_VIEW_TYPE } from './src/ui/status-view';
 import { QMDSearchModal } from './src/ui/search-modal';
 import { HybridSearcher } from './src/search/hybrid-search';
+import { NearDuplicateFinder } from './src/search/near-duplicates';
 import { registerIndexCommands } from './src/commands/index-commands';
 import { registerCollectionCommands } from './src/commands/collection-commands';
 import { registerMaintenanceCommands } from './src/commands/maintenance-commands';
 import { registerRetrievalCommands } from './src/commands/retrieval-commands';
+import { registerBundleCommands } from './src/commands/bundle-commands';
+import { registerDuplicateCommands } from './src/commands/duplicate-commands';
+
+/** Delay before renamed files are applied, so a folder's files form one batch */
+const RENAME_BATCH_MS = 200;
 
 export default class QMDPlugin extends Plugin {
 	settings: QMDSettings = DEFAULT_SETTINGS;
 	db: Database | null = null;
+	repository: RemoteIndexRepository | null = null;
+	indexStorage: IndexStorage | null = null;
+	autosaver: IndexAutosaver | null = null;
+	snapshotManager: SnapshotManager | null = null;
+	legacyDbData: number[] | null = null;
+	/**
+	 * Set when the stored index could not be upgraded and was opened at its old
+	 * schema version: it is searched as it is, and nothing is indexed or saved
+	 * so the next start can retry the upgrade
+	 */
+	indexUpgradeFailed = false;
 	collectionManager: CollectionManager | null = null;
+	extractors = createDefaultExtractorRegistry();
 	indexer: DocumentIndexer | null = null;
+	/** Reads note text back for search results, embedding and health checks */
+	contentLoader: DocumentContentLoader | null = null;
 	embedder: OllamaEmbedder | null = null;
+	jobQueue: JobQueue | null = null;
 	hybridSearcher: HybridSearcher | null = null;
+	duplicateFinder: NearDuplicateFinder | null = null;
 	statusView: QMDStatusView | null = null;
 	fileWatcherTimeout: NodeJS.Timeout | null = null;
+	/** Renames waiting to be applied together, by new path */
+	pendingRenames: Map<string, string> = new Map();
+	renameTimeout: NodeJS.Timeout | null = null;
+	exclusionsTimeout: NodeJS.Timeout | null = null;
 
 	async onload() {
 		console.log('Loading QMD Search plugin');
@@ -28,13 +57,24 @@ export default class QMDPlugin extends Plugin {
 		await this.loadSettings();
 		await this.initializeDatabase();
 		await this.initializeServices();
+		await this.applyContentStorage();
+		await this.applyFtsTokenizer();
+		await this.applyNormalizerRules();
+		await this.applyTransclusions();
+		await this.applyRevisionHistory();
 		
 		this.registerView(
 			STATUS_VIEW_TYPE,
 			(leaf) => {
 				this.statusView = new QMDStatusView(leaf);
-				if (this.db) {
-					this.statusView.setDatabase(this.db);
+				if (this.repository) {
+					this.statusView.setRepository(this.repository);
+				}
+				if (this.autosaver) {
+					this.statusView.setAutosaver(this.autosaver);
+				}
+				if (this.jobQueue) {
+					this.statusView.setJobQueue(this.jobQueue);
 				}
 				return this.statusView;
 			}
@@ -45,33 +85,94 @@ export default class QMDPlugin extends Plugin {
 			name: 'Open Search',
 			hotkeys: [{ modifiers: ['Mod', 'Shift'], key: 'f' }],
 			callback: () => {
-				if (!this.db || !this.embedder) {
+				if (!this.repository || !this.embedder || !this.contentLoader) {
+					new Notice('QMD Search not initialized');
+					return;
+				}
+				new QMDSearchModal(this.app, this.repository, this.embedder, this.contentLoader).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'search-tasks',
+			name: 'Search Tasks',
+			callback: () => {
+				if (!this.repository || !this.embedder || !this.contentLoader) {
 					new Notice('QMD Search not initialized');
 					return;
 				}
-				new QMDSearchModal(this.app, this.db, this.embedder).open();
+				new QMDSearchModal(this.app, this.repository, this.embedder, this.contentLoader, 'tasks').open();
 			}
 		});
 
-		if (this.indexer) {
-			registerIndexCommands(this.app, this.indexer, this.addCommand.bind(this));
+		if (this.db && this.indexer && this.jobQueue && this.collectionManager && this.snapshotManager) {
+			registerIndexCommands(
+				this.app,
+				this.indexer,
+				this.jobQueue,
+				this.collectionManager,
+				this.db,
+				this.snapshotManager,
+				this.addCommand.bind(this)
+			);
+		}
+
+		if (this.db && this.collectionManager && this.snapshotManager) {
+			registerCollectionCommands(this.app, this.collectionManager, this.db, this.snapshotManager, this.addCommand.bind(this));
 		}
 
-		if (this.collectionManager) {
-			registerCollectionCommands(this.app, this.collectionManager, this.addCommand.bind(this));
+		if (this.db && this.indexer && this.jobQueue && this.contentLoader && this.snapshotManager) {
+			registerMaintenanceCommands(
+				this.app,
+				this.indexer,
+				this.jobQueue,
+				this.contentLoader,
+				this.db,
+				this.snapshotManager,
+				this.addCommand.bind(this)
+			);
 		}
 
-		if (this.db && this.indexer) {
-			registerMaintenanceCommands(this.indexer, this.db, this.addCommand.bind(this));
+		if (this.db && this.collectionManager && this.snapshotManager) {
+			registerBundleCommands(
+				this.app,
+				this.collectionManager,
+				this.db,
+				this.snapshotManager,
+				() => ({ model: this.settings.embeddingModel, dimensions: this.settings.embeddingDimensions }),
+				this.addCommand.bind(this)
+			);
 		}
 
 		if (this.indexer && this.hybridSearcher) {
 			registerRetrievalCommands(this.app, this.indexer, this.hybridSearcher, this.addCommand.bind(this));
 		}
 
-		if (this.settings.autoIndex && this.indexer) {
+		if (this.duplicateFinder) {
+			registerDuplicateCommands(
+				this.app,
+				this.duplicateFinder,
+				() => this.settings.duplicateThreshold / 100,
+				this.addCommand.bind(this)
+			);
+		}
+
+		if (this.settings.autoIndex && this.indexer && !this.indexUpgradeFailed) {
 			this.registerFileWatcher();
 		}
+		if (this.collectionManager && !this.indexUpgradeFailed) {
+			this.registerIgnoreFileWatcher();
+		}
+
+		// The vault's file list is complete once the layout is ready
+		this.app.workspace.onLayoutReady(async () => {
+			if (this.indexUpgradeFailed) return;
+			await this.collectionManager?.reloadExclusions();
+			if (this.settings.indexOnStartup) {
+				await this.reconcileIndex();
+			}
+			await this.startJobQueue();
+		});
 
 		this.registerContextMenus();
 
@@ -81,28 +182,83 @@ export default class QMDPlugin extends Plugin {
 	async onunload() {
 		console.log('Unloading QMD Search plugin');
 		
+		if (this.exclusionsTimeout) {
+			clearTimeout(this.exclusionsTimeout);
+		}
+		if (this.renameTimeout) {
+			clearTimeout(this.renameTimeout);
+			await this.applyPendingRenames();
+		}
+		await this.jobQueue?.stop();
+		this.autosaver?.stop();
 		if (this.db) {
 			await this.saveDatabase();
-			this.db.close();
+			await this.db.close();
 		}
 	}
 
 	async initializeDatabase() {
 		try {
-			const savedData = await this.loadData();
+			this.indexStorage = new IndexStorage(this.app.vault.adapter, this.getPluginDir());
+			this.snapshotManager = new SnapshotManager(
+				this.app.vault.adapter,
+				this.getPluginDir(),
+				this.settings.maxAutoSnapshots
+			);
+
+			if (this.legacyDbData) {
+				await this.indexStorage.migrateLegacyData(this.legacyDbData);
+				this.legacyDbData = null;
+				// Rewrite data.json so it only contains settings
+				await this.saveSettings();
+			}
+
+			const storedData = await this.indexStorage.load();
+			const wasmBinary = await readWasmBinary(this.app.vault.adapter, this.getPluginDir());
 			
-			if (savedData?.dbData) {
-				const uint8Array = new Uint8Array(savedData.dbData);
-				this.db = await loadDatabase(uint8Array, {
-					enableVectorSearch: false
-				});
-				console.log('Database loaded from storage');
+			if (storedData) {
+				const snapshotManager = this.snapshotManager;
+				try {
+					this.db = await loadDatabase(storedData, {
+						wasmBinary,
+						enableVectorSearch: false,
+						onBeforeMigrate: async (data, fromVersion) => {
+							await snapshotManager.createSnapshot(data, `before-migration-v${fromVersion}`, 'auto');
+						}
+					});
+					console.log('Database loaded from storage');
+				} catch (error) {
+					if (!(error instanceof DatabaseInitError && error.code === 'MIGRATION_FAILED')) {
+						throw error;
+					}
+					console.error('Index upgrade failed:', error);
+					this.db = await loadDatabase(error.snapshot ?? storedData, {
+						wasmBinary,
+						enableVectorSearch: false,
+						skipMigrations: true
+					});
+					this.indexUpgradeFailed = true;
+					new Notice(
+						`Failed to upgrade search index: ${error.message} ` +
+						'Searching the index as it was; indexing is paused until the upgrade succeeds.',
+						10000
+					);
+				}
 			} else {
 				this.db = await initDatabase({
+					wasmBinary,
 					enableVectorSearch: false
 				});
 				console.log('New database initialized');
 			}
+
+			this.repository = this.db.repository;
+			if (this.indexUpgradeFailed) return;
+
+			this.autosaver = new IndexAutosaver(this.db, this.indexStorage, {
+				intervalMs: this.settings.autosaveIntervalSeconds * 1000
+			});
+			this.autosaver.start();
 		} catch (error) {
 			console.error('Database initialization failed:', error);
 			new Notice('Failed to initialize database');
@@ -110,19 +266,48 @@ export default class QMDPlugin extends Plugin {
 		}
 	}
 
+	getPluginDir(): string {
+		return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+	}
+
 	async initializeServices() {
-		if (!this.db) {
+		if (!this.repository) {
 			throw new Error('Database not initialized');
 		}
 
-		this.collectionManager = new CollectionManager(this.db, this.app.vault);
-		this.indexer = new DocumentIndexer(this.db, this.app.vault, this.collectionManager);
+		const exclusions = new VaultExclusions(this.app.vault, () => getObsidianExcludedFiles(this.app.vault));
+		this.collectionManager = new CollectionManager(this.repository, this.app.vault, this.extractors, exclusions);
+		const resolveLink: LinkResolver = (target, sourcePath) =>
+			this.app.metadataCache.getFirstLinkpathDest(target, sourcePath)?.path ?? null;
+		this.indexer = new DocumentIndexer(
+			this.repository,
+			this.app.vault,
+			this.collectionManager,
+			resolveLink,
+			this.extractors
+		);
+		this.indexer.onBatchCommit(() => this.autosaver?.requestSave());
 		this.embedder = new OllamaEmbedder({
 			baseUrl: this.settings.ollamaBaseUrl,
 			model: this.settings.embeddingModel,
 			expectedDimensions: this.settings.embeddingDimensions
 		});
-		this.hybridSearcher = new HybridSearcher(this.db, this.embedder);
+		const contentLoader = new DocumentContentLoader(this.repository, this.app.vault, this.extractors, resolveLink);
+		this.contentLoader = contentLoader;
+		this.hybridSearcher = new HybridSearcher(this.repository, this.embedder, contentLoader);
+		this.duplicateFinder = new NearDuplicateFinder(this.repository, contentLoader);
+
+		this.jobQueue = new JobQueue(this.repository);
+		registerIndexingJobs(this.jobQueue, {
+			repository: this.repository,
+			vault: this.app.vault,
+			indexer: this.indexer,
+			collectionManager: this.collectionManager,
+			embedder: this.embedder,
+			contentLoader,
+			garbageCollector: new IndexGarbageCollector(this.repository, () => this.settings.purgeRetentionDays),
+		});
+		this.jobQueue.onCheckpoint(() => this.autosaver?.requestSave());
 
 		const ollamaStatus = await this.embedder.testConnection();
 		if (this.statusView) {
@@ -130,21 +315,284 @@ export default class QMDPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Bring the index's content storage mode in line with the settings
+	 *
+	 * Switching to full storage queues a reindex to read the note bodies back
+	 * from the vault; like the other reindexes queued below, it runs once the
+	 * job queue starts after the layout is ready.
+	 */
+	async applyContentStorage() {
+		if (!this.db || !this.repository || !this.indexer || !this.jobQueue || this.indexUpgradeFailed) return;
+
+		const repository = this.repository;
+		const jobQueue = this.jobQueue;
+		const mode = this.settings.contentStorage;
+		if (await repository.getContentStorage() === mode) return;
+
+		const notice = new Notice(`Switching index storage to ${mode}...`, 0);
+		try {
+			await this.snapshotManager?.snapshotDatabase(this.db, 'before-storage-change', 'auto');
+			await repository.transaction(async () => {
+				await repository.setContentStorage(mode);
+				if (mode === 'full') {
+					// Index the empty bodies, so the reindex replaces them like any update
+					await repository.rebuildFts();
+				}
+			});
+			if (mode === 'full') {
+				// Bodies were not stored, so read them back from the vault
+				await jobQueue.enqueue('reindex-all');
+			}
+			await repository.vacuum();
+			this.autosaver?.requestSave();
+			notice.hide();
+			new Notice(mode === 'full'
+				? 'Index storage switched to full; notes are reindexed in the background'
+				: `Index storage switched to ${mode}`);
+		} catch (error) {
+			notice.hide();
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`Failed to switch index storage: ${message}`);
+			console.error('Switch index storage failed:', error);
+		}
+	}
+
+	/**
+	 * Rebuild the full-text indexes when the tokenizer in the settings differs
+	 * from the one the index was built with
+	 */
+	async applyFtsTokenizer() {
+		if (!this.db || !this.repository || !this.indexer || !this.jobQueue || this.indexUpgradeFailed) return;
+
+		const repository = this.repository;
+		const jobQueue = this.jobQueue;
+		const tokenizer = this.settings.ftsTokenizer;
+		if (await repository.getFtsTokenizer() === tokenizer) return;
+
+		const notice = new Notice('Rebuilding the search index for the new text matching...', 0);
+		try {
+			await this.snapshotManager?.snapshotDatabase(this.db, 'before-tokenizer-change', 'auto');
+			await repository.transaction(() => repository.setFtsTokenizer(tokenizer));
+			const contentless = await repository.getContentStorage() === 'contentless';
+			if (contentless) {
+				// Note text is not stored, so read it back from the vault
+				await jobQueue.enqueue('reindex-all');
+			}
+			await repository.vacuum();
+			this.autosaver?.requestSave();
+			notice.hide();
+			new Notice(contentless ? 'Search index rebuilt; notes are reindexed in the background' : 'Search index rebuilt');
+		} catch (error) {
+			notice.hide();
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`Failed to rebuild the search index: ${message}`);
+			console.error('Switch FTS tokenizer failed:', error);
+		}
+	}
+
+	/**
+	 * Normalize notes with the rules from the settings
+	 *
+	 * The rules the index was built with are stored in it. When they differ,
+	 * every note's embeddings are dropped, since they were computed from the
+	 * previous text, and a reindex of every note is queued.
+	 */
+	async applyNormalizerRules() {
+		if (!this.db || !this.repository || !this.indexer || !this.jobQueue || this.indexUpgradeFailed) return;
+
+		const repository = this.repository;
+		const jobQueue = this.jobQueue;
+		const rules = this.settings.normalizerRules;
+		this.indexer.setNormalizerRules(rules);
+
+		const stored = await repository.getNormalizerRules();
+		if (stored === null) {
+			// Notes indexed before the rules were recorded are re-read by the
+			// startup sync (see METADATA_VERSION)
+			await repository.setNormalizerRules(rules);
+			return;
+		}
+		const current = { ...DEFAULT_NORMALIZER_RULES, ...stored };
+		const changed = (Object.keys(rules) as Array<keyof NormalizerRules>).some(key => current[key] !== rules[key]);
+		if (!changed) return;
+
+		const notice = new Notice('Applying the new text rules...', 0);
+		try {
+			await this.snapshotManager?.snapshotDatabase(this.db, 'before-normalizer-change', 'auto');
+			await repository.transaction(async () => {
+				await repository.deleteAllChunks();
+				await repository.setNormalizerRules(rules);
+			});
+			await jobQueue.enqueue('reindex-all');
+			this.autosaver?.requestSave();
+			notice.hide();
+			new Notice('Notes are reindexed in the background; run embedding again once it finishes');
+		} catch (error) {
+			notice.hide();
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`Failed to apply text rules: ${message}`);
+			console.error('Apply normalizer rules failed:', error);
+		}
+	}
+
+	/**
+	 * Expand embeds when indexing as the settings say
+	 *
+	 * The expansion the index was built with is stored in it. When it
+	 * differs, a reindex of every note is queued. Notes whose expanded embeds
+	 * changed get a new hash and are embedded again; other notes keep their
+	 * vectors.
+	 */
+	async applyTransclusions() {
+		if (!this.db || !this.repository || !this.indexer || !this.jobQueue || this.indexUpgradeFailed) return;
+
+		const repository = this.repository;
+		const jobQueue = this.jobQueue;
+		const options = { enabled: this.settings.expandEmbeds, maxDepth: this.settings.embedDepth };
+		this.indexer.setTransclusionOptions(options);
+
+		const stored = await repository.getTransclusionOptions() ?? DEFAULT_TRANSCLUSION_OPTIONS;
+		const changed = stored.enabled !== options.enabled || (options.enabled && stored.maxDepth !== options.maxDepth);
+		if (!changed) return;
+
+		const notice = new Notice(options.enabled ? 'Expanding embedded notes...' : 'Removing embedded notes...', 0);
+		try {
+			await this.snapshotManager?.snapshotDatabase(this.db, 'before-embed-expansion-change', 'auto');
+			await repository.setTransclusionOptions(options);
+			await jobQueue.enqueue('reindex-all');
+			this.autosaver?.requestSave();
+			notice.hide();
+			new Notice('Notes are reindexed in the background; run embedding again once it finishes');
+		} catch (error) {
+			notice.hide();
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`Failed to update embedded notes: ${message}`);
+			console.error('Apply embed expansion failed:', error);
+		}
+	}
+
+	/**
+	 * Record revisions with the policy from the settings and prune old ones
+	 *
+	 * Turning history on starts a revision for every note from its stored
+	 * text; turning it off marks the current revisions as replaced, since
+	 * later edits are no longer recorded.
+	 */
+	async applyRevisionHistory() {
+		if (!this.repository || this.indexUpgradeFailed) return;
+
+		const repository = this.repository;
+		const policy = {
+			enabled: this.settings.revisionHistory,
+			maxRevisions: this.settings.maxRevisionsPerNote,
+			maxAgeDays: this.settings.revisionRetentionDays,
+		};
+
+		try {
+			const stored = await repository.getRevisionPolicy();
+			if (!policy.enabled && !stored) return;
+
+			const now = Date.now();
+			await repository.transaction(async () => {
+				if (policy.enabled && !stored?.enabled) {
+					const seeded = await repository.seedRevisions();
+					console.log(`[QMD] Revision history enabled, ${seeded} notes recorded`);
+				} else if (!policy.enabled && stored?.enabled) {
+					await repository.closeOpenRevisions(now);
+				}
+				await repository.setRevisionPolicy(policy);
+				await repository.pruneRevisions(now);
+			});
+			this.autosaver?.requestSave();
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`Failed to update revision history: ${message}`);
+			console.error('Apply revision history failed:', error);
+		}
+	}
+
+	/**
+	 * Catch up on changes made while Obsidian was closed, then purge
+	 * documents deleted longer ago than the retention period
+	 */
+	async reconcileIndex() {
+		if (!this.indexer) return;
+
+		try {
+			const result = await this.indexer.reconcile();
+			const summary = formatReconcileSummary(result);
+			console.log(`[QMD] Startup sync: ${summary}, ${result.unchanged} unchanged`);
+
+			const diff = formatReconcileDiff(result);
+			if (diff) {
+				console.log(`[QMD] Startup sync changes:\n${diff}`);
+				new Notice(`QMD index synced: ${summary}`);
+			}
+			if (result.errors.length > 0) {
+				console.warn('[QMD] Startup sync errors:', result.errors);
+			}
+			await this.reindexDependents([...result.added, ...result.updated, ...result.removed]);
+			await this.jobQueue?.enqueue('collect-garbage');
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`Failed to sync index: ${message}`);
+			console.error('Startup sync failed:', error);
+		}
+	}
+
+	/**
+	 * Queue updates of the notes whose expanded embeds show any of the paths
+	 * (edited files queue theirs when they are indexed)
+	 */
+	async reindexDependents(paths: string[]) {
+		if (!this.jobQueue || !this.repository || !this.indexer?.getTransclusionOptions().enabled) return;
+
+		for (const path of paths) {
+			if ((await this.repository.listDependentPaths(path)).length > 0) {
+				await this.jobQueue.enqueue('reindex-dependents', path);
+			}
+		}
+	}
+
+	/**
+	 * Run queued jobs, including those interrupted when Obsidian last closed
+	 */
+	async startJobQueue() {
+		if (!this.jobQueue) return;
+
+		try {
+			await this.jobQueue.start();
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`Failed to start indexing jobs: ${message}`);
+			console.error('Start job queue failed:', error);
+		}
+	}
+
 	async saveDatabase() {
-		if (!this.db) return;
+		if (!this.autosaver) return;
 
 		try {
-			const dbData = serializeDatabase(this.db);
-			const savedData = await this.loadData() || {};
-			savedData.dbData = Array.from(dbData);
-			await this.saveData(savedData);
+			await this.autosaver.flush();
 		} catch (error) {
 			console.error('Failed to save database:', error);
 		}
 	}
 
+	restartAutosave() {
+		this.autosaver?.setIntervalMs(this.settings.autosaveIntervalSeconds * 1000);
+	}
+
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const { dbData, ...savedSettings } = (await this.loadData()) ?? {};
+		// Older versions stored the whole index as a number array in data.json
+		if (Array.isArray(dbData)) {
+			this.legacyDbData = dbData;
+		}
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, savedSettings);
+		// Rules added in later versions fall back to their defaults
+		this.settings.normalizerRules = { ...DEFAULT_SETTINGS.normalizerRules, ...savedSettings.normalizerRules };
 	}
 
 	async saveSettings() {
@@ -156,7 +604,8 @@ export default class QMDPlugin extends Plugin {
 
 		this.registerEvent(
 			this.app.vault.on('create', (file) => {
-				if (file instanceof TFile && file.extension === 'md') {
+				if (file instanceof TFile && this.extractors.supports(file.extension)
+					&& !this.collectionManager?.isExcluded(file.path)) {
 					this.debouncedIndexFile(file.path);
 				}
 			})
@@ -164,7 +613,8 @@ export default class QMDPlugin extends Plugin {
 
 		this.registerEvent(
 			this.app.vault.on('modify', (file) => {
-				if (file instanceof TFile && file.extension === 'md') {
+				if (file instanceof TFile && this.extractors.supports(file.extension)
+					&& !this.collectionManager?.isExcluded(file.path)) {
 					this.debouncedIndexFile(file.path);
 				}
 			})
@@ -172,41 +622,145 @@ export default class QMDPlugin extends Plugin {
 
 		this.registerEvent(
 			this.app.vault.on('delete', (file) => {
-				if (file instanceof TFile && file.extension === 'md' && this.indexer) {
-					this.indexer.removeDocument(file.path).catch(error => {
-						console.error('Failed to remove document:', error);
-					});
+				if (file instanceof TFile && this.extractors.supports(file.extension) && this.indexer) {
+					this.indexer.removeDocument(file.path)
+						.then(() => this.reindexDependents([file.path]))
+						.catch(error => {
+							console.error('Failed to remove document:', error);
+						});
 				}
 			})
 		);
 
 		this.registerEvent(
 			this.app.vault.on('rename', (file, oldPath) => {
-				if (file instanceof TFile && file.extension === 'md' && this.indexer) {
-					this.indexer.renameDocument(oldPath, file.path).catch(error => {
-						console.error('Failed to rename document:', error);
-					});
+				this.queueRename(file, oldPath);
+			})
+		);
+	}
+
+	/**
+	 * Reload exclusions when a .qmdignore file is created, changed or deleted
+	 *
+	 * Obsidian leaves dotfiles out of the vault, so its create, modify and
+	 * delete events never fire for them; the raw event reports every change
+	 * on disk.
+	 */
+	registerIgnoreFileWatcher() {
+		const events: Events = this.app.vault;
+		this.registerEvent(
+			events.on('raw', (path: unknown) => {
+				if (typeof path !== 'string' || path.split('/').pop() !== IGNORE_FILE_NAME) return;
+
+				if (this.exclusionsTimeout) {
+					clearTimeout(this.exclusionsTimeout);
 				}
+				this.exclusionsTimeout = setTimeout(() => {
+					this.exclusionsTimeout = null;
+					this.collectionManager?.reloadExclusions().catch(error => {
+						console.error('Failed to reload exclusions:', error);
+					});
+				}, this.settings.indexDebounceMs);
 			})
 		);
 	}
 
+	/**
+	 * Collect renamed files, so the files of a renamed folder are moved in
+	 * one transaction
+	 */
+	queueRename(file: TAbstractFile, oldPath: string) {
+		const renames: FileRename[] = [];
+		if (file instanceof TFile && this.extractors.supports(file.extension)) {
+			renames.push({ oldPath, newPath: file.path });
+		} else if (file instanceof TFolder) {
+			const collect = (folder: TFolder) => {
+				for (const child of folder.children) {
+					if (child instanceof TFolder) {
+						collect(child);
+					} else if (child instanceof TFile && this.extractors.supports(child.extension)) {
+						renames.push({ oldPath: oldPath + child.path.slice(file.path.length), newPath: child.path });
+					}
+				}
+			};
+			collect(file);
+		}
+
+		for (const { oldPath: from, newPath } of renames) {
+			// A file renamed again before the batch ran keeps its first old path
+			const original = this.pendingRenames.get(from);
+			this.pendingRenames.delete(from);
+			this.pendingRenames.set(newPath, original ?? from);
+		}
+		if (renames.length === 0) return;
+
+		if (this.renameTimeout) {
+			clearTimeout(this.renameTimeout);
+		}
+		this.renameTimeout = setTimeout(() => {
+			this.renameTimeout = null;
+			void this.applyPendingRenames();
+		}, RENAME_BATCH_MS);
+	}
+
+	/**
+	 * Move the documents of the collected renames; the transaction waits for
+	 * one a running job has open
+	 */
+	async applyPendingRenames() {
+		if (!this.indexer) return;
+
+		const renames = Array.from(this.pendingRenames, ([newPath, oldPath]) => ({ oldPath, newPath }))
+			.filter(rename => rename.oldPath !== rename.newPath);
+		this.pendingRenames.clear();
+
+		let result: RenameResult;
+		try {
+			result = await this.indexer.renameDocuments(renames);
+		} catch (error) {
+			// Nothing was moved: index the files at their new paths instead
+			console.error('Failed to rename documents, indexing them again:', error);
+			for (const { oldPath, newPath } of renames) {
+				try {
+					await this.indexer.removeDocument(oldPath);
+					await this.jobQueue?.enqueue('index-file', newPath, JOB_PRIORITY.interactive);
+				} catch (fallbackError) {
+					console.error(`Failed to reindex renamed file ${newPath}:`, fallbackError);
+				}
+			}
+			return;
+		}
+
+		if (result.reassigned.length + result.added.length + result.removed.length > 0) {
+			console.log(
+				`[QMD] Renamed ${renames.length} file(s): ${result.reassigned.length} changed collection, ` +
+				`${result.added.length} added, ${result.removed.length} removed`
+			);
+		}
+		if (result.errors.length > 0) {
+			console.warn('[QMD] Rename errors:', result.errors);
+		}
+
+		try {
+			// Embeds of the old path no longer resolve; those of the new one may
+			await this.reindexDependents(renames.flatMap(rename => [rename.oldPath, rename.newPath]));
+		} catch (error) {
+			console.error('Failed to queue notes embedding renamed files:', error);
+		}
+	}
+
 	debouncedIndexFile(path: string) {
 		if (this.fileWatcherTimeout) {
 			clearTimeout(this.fileWatcherTimeout);
 		}
 
 		this.fileWatcherTimeout = setTimeout(async () => {
-			if (!this.indexer) return;
+			if (!this.jobQueue) return;
 
 			try {
-				const file = this.app.vault.getAbstractFileByPath(path);
-				if (file && file.hasOwnProperty('extension')) {
-					await this.indexer.updateDocument(file as any);
-					console.log(`Indexed: ${path}`);
-				}
+				await this.jobQueue.enqueue('index-file', path, JOB_PRIORITY.interactive);
 			} catch (error) {
-				console.error(`Failed to index ${path}:`, error);
+				console.error(`Failed to queue ${path}:`, error);
 			}
 		}, this.settings.indexDebounceMs);
 	}
@@ -214,21 +768,26 @@ export default class QMDPlugin extends Plugin {
 	registerContextMenus() {
 		this.registerEvent(
 			(this.app.workspace as any).on('file-menu', (menu: Menu, file: TFile) => {
-				if (!(file instanceof TFile) || file.extension !== 'md') return;
+				if (!(file instanceof TFile) || !this.extractors.supports(file.extension)) return;
 
 				menu.addItem((item) => {
 					item
 						.setTitle('Reindex this file')
 						.setIcon('refresh-cw')
 						.onClick(async () => {
-							if (!this.indexer) {
+							if (!this.jobQueue) {
 								new Notice('Indexer not initialized');
 								return;
 							}
 
 							try {
-								await this.indexer.updateDocument(file);
-								new Notice(`Reindexed: ${file.name}`);
+								const job = await this.jobQueue.enqueue('index-file', file.path, JOB_PRIORITY.interactive);
+								const finished = await this.jobQueue.whenFinished(job.id);
+								if (finished.status === 'completed') {
+									new Notice(`Reindexed: ${file.name}`);
+								} else if (finished.status === 'failed') {
+									new Notice(`Failed to reindex: ${finished.error ?? 'Unknown error'}`);
+								}
 							} catch (error) {
 								const message = error instanceof Error ? error.message : 'Unknown error';
 								new Notice(`Failed to reindex: ${message}`);
@@ -264,12 +823,12 @@ export default class QMDPlugin extends Plugin {
 								return;
 							}
 
-							if (!this.db || !this.embedder) {
+							if (!this.repository || !this.embedder || !this.contentLoader) {
 								new Notice('QMD Search not initialized');
 								return;
 							}
 
-							new QMDSearchModal(this.app, this.db, this.embedder).open();
+							new QMDSearchModal(this.app, this.repository, this.embedder, this.contentLoader).open();
 						});
 				});
 			})
@@ -0,0 +1,330 @@
+/**
+ * Vault Exclusions for QMD Search
+ * Files left out of every collection: paths matched by .qmdignore files
+ * (gitignore syntax, nested files apply to their folder) and by Obsidian's
+ * "Excluded files" setting.
+ */
+
+import { TFolder, type Vault } from 'obsidian';
+
+export const IGNORE_FILE_NAME = '.qmdignore';
+
+export const OBSIDIAN_EXCLUSIONS_SOURCE = 'Obsidian excluded files';
+
+/**
+ * Why a path is excluded
+ */
+export interface ExclusionReason {
+  /** Ignore file the rule is in (e.g. "Notes/.qmdignore") or OBSIDIAN_EXCLUSIONS_SOURCE */
+  source: string;
+  /** Line of the rule in its ignore file (1-indexed), null for Obsidian filters */
+  line: number | null;
+  /** The rule as written */
+  pattern: string;
+  /** Excluded folder containing the path, null if the rule matched the path itself */
+  folder: string | null;
+}
+
+export interface IgnoreFile {
+  /** Vault path of the ignore file */
+  path: string;
+  content: string;
+}
+
+/**
+ * A parsed .qmdignore line
+ */
+export interface IgnoreRule {
+  /** Folder of the ignore file ('' for the vault root); the rule only applies below it */
+  baseDir: string;
+  source: string;
+  line: number;
+  pattern: string;
+  /** "!pattern": re-include what an earlier rule excluded */
+  negated: boolean;
+  /** "pattern/": only matches folders */
+  directoryOnly: boolean;
+  /** Matches the path relative to baseDir */
+  regex: RegExp;
+}
+
+/**
+ * Parse an ignore file with gitignore semantics
+ *
+ * - Blank lines and lines starting with # are skipped (\# and \! escape)
+ * - A pattern with a slash at the start or in the middle is anchored to the
+ *   ignore file's folder; otherwise it matches a name at any depth
+ * - A trailing slash matches folders only; ! negates
+ * - * and ? do not match "/", ** matches any number of folders
+ */
+export function parseIgnoreFile(file: IgnoreFile): IgnoreRule[] {
+  const slash = file.path.lastIndexOf('/');
+  const baseDir = slash === -1 ? '' : file.path.slice(0, slash);
+  const rules: IgnoreRule[] = [];
+
+  file.content.split(/\r?\n/).forEach((text, index) => {
+    // Trailing spaces are ignored unless escaped
+    let pattern = text.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) return;
+
+    const negated = pattern.startsWith('!');
+    if (negated) {
+      pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith('/');
+    if (directoryOnly) {
+      pattern = pattern.replace(/\/+$/, '');
+    }
+    if (!pattern) return;
+
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+
+    rules.push({
+      baseDir,
+      source: file.path,
+      line: index + 1,
+      pattern: text.trim(),
+      negated,
+      directoryOnly,
+      regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${ignorePatternToRegex(pattern)}$`),
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * Translate a gitignore pattern (without anchoring slashes) into a regex body
+ */
+function ignorePatternToRegex(pattern: string): string {
+  let regex = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      regex += escapeRegex(pattern[i + 1]);
+      i += 2;
+    } else if (char === '*' && pattern[i + 1] === '*') {
+      const atStart = i === 0 || pattern[i - 1] === '/';
+      const atEnd = i + 2 === pattern.length;
+      if (atStart && pattern[i + 2] === '/') {
+        // "**/" matches zero or more folders
+        regex += '(?:.*/)?';
+        i += 3;
+      } else if (atStart && atEnd) {
+        // Trailing "/**" matches everything inside
+        regex += '.*';
+        i += 2;
+      } else {
+        // Other runs of asterisks act like a single one
+        regex += '[^/]*';
+        i += 2;
+        while (pattern[i] === '*') i++;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      regex += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close === -1) {
+        regex += '\\[';
+        i++;
+      } else {
+        const body = pattern.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        regex += `[${body}]`;
+        i = close + 1;
+      }
+    } else {
+      regex += escapeRegex(char);
+      i++;
+    }
+  }
+
+  return regex;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * An entry of Obsidian's "Excluded files": a path prefix, or a regular
+ * expression when written as /regex/
+ */
+function compileObsidianFilter(filter: string): ((path: string) => boolean) | null {
+  if (filter.length > 2 && filter.startsWith('/') && filter.endsWith('/')) {
+    try {
+      const regex = new RegExp(filter.slice(1, -1));
+      return path => regex.test(path);
+    } catch {
+      console.warn(`[QMD] Ignoring invalid excluded files pattern: ${filter}`);
+      return null;
+    }
+  }
+  return filter ? path => path.startsWith(filter) : null;
+}
+
+/**
+ * Vault config reader Obsidian has but does not include in its public API
+ */
+interface VaultConfigReader {
+  getConfig(key: string): unknown;
+}
+
+function hasConfigReader(vault: Vault): vault is Vault & VaultConfigReader {
+  return typeof (vault as Partial<VaultConfigReader>).getConfig === 'function';
+}
+
+/**
+ * Current value of Obsidian's "Excluded files" setting, empty if the vault
+ * cannot report it
+ */
+export function getObsidianExcludedFiles(vault: Vault): string[] {
+  const filters = hasConfigReader(vault) ? vault.getConfig('userIgnoreFilters') : null;
+  return Array.isArray(filters)
+    ? filters.filter((filter): filter is string => typeof filter === 'string')
+    : [];
+}
+
+/**
+ * Exclusion rules of a vault
+ *
+ * @example
+ * ```typescript
+ * const exclusions = new VaultExclusions(vault, () => getObsidianExcludedFiles(vault));
+ * await exclusions.reload();
+ * exclusions.explain('Archive/old.md'); // { source: '.qmdignore', line: 3, pattern: 'Archive/', ... }
+ * ```
+ */
+export class VaultExclusions {
+  private rules: IgnoreRule[] = [];
+  private ignoreFiles: string[] = [];
+  private obsidianFilterKey = '';
+  private obsidianFilters: Array<{ filter: string; matches: (path: string) => boolean }> = [];
+
+  /**
+   * @param vault - Vault to read .qmdignore files from (default: none)
+   * @param getObsidianFilters - Current value of Obsidian's excluded files setting
+   */
+  constructor(
+    private vault?: Vault,
+    private getObsidianFilters: () => string[] = () => []
+  ) {}
+
+  /**
+   * Re-read every .qmdignore file in the vault
+   * Ignore files are not vault files, so changes to them are only picked up here.
+   */
+  async reload(): Promise<void> {
+    if (!this.vault) return;
+
+    const files: IgnoreFile[] = [];
+    const folders = this.vault.getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder);
+    for (const folder of folders) {
+      const path = folder.isRoot() ? IGNORE_FILE_NAME : `${folder.path}/${IGNORE_FILE_NAME}`;
+      try {
+        if (await this.vault.adapter.exists(path)) {
+          files.push({ path, content: await this.vault.adapter.read(path) });
+        }
+      } catch (error) {
+        console.warn(`[QMD] Could not read ${path}:`, error);
+      }
+    }
+    this.setIgnoreFiles(files);
+  }
+
+  /**
+   * Use these ignore files; rules of deeper files take precedence
+   */
+  setIgnoreFiles(files: IgnoreFile[]): void {
+    const sorted = files.slice().sort((a, b) =>
+      a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+    this.ignoreFiles = sorted.map(file => file.path);
+    this.rules = sorted.flatMap(parseIgnoreFile);
+  }
+
+  /**
+   * Paths of the ignore files in use, outermost first
+   */
+  getIgnoreFiles(): string[] {
+    return [...this.ignoreFiles];
+  }
+
+  isExcluded(path: string): boolean {
+    return this.explain(path) !== null;
+  }
+
+  /**
+   * The rule that excludes a file, null if it is not excluded
+   *
+   * As in git, a file inside an excluded folder cannot be re-included.
+   */
+  explain(path: string): ExclusionReason | null {
+    for (const { filter, matches } of this.currentObsidianFilters()) {
+      if (matches(path)) {
+        return { source: OBSIDIAN_EXCLUSIONS_SOURCE, line: null, pattern: filter, folder: null };
+      }
+    }
+
+    const segments = path.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const candidate = segments.slice(0, i).join('/');
+      const isFolder = i < segments.length;
+      const rule = this.lastMatchingRule(candidate, isFolder);
+      if (rule && !rule.negated) {
+        return {
+          source: rule.source,
+          line: rule.line,
+          pattern: rule.pattern,
+          folder: isFolder ? candidate : null,
+        };
+      }
+    }
+    return null;
+  }
+
+  private lastMatchingRule(path: string, isFolder: boolean): IgnoreRule | null {
+    let match: IgnoreRule | null = null;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isFolder) continue;
+      if (rule.baseDir && !path.startsWith(`${rule.baseDir}/`)) continue;
+      const relative = rule.baseDir ? path.slice(rule.baseDir.length + 1) : path;
+      if (rule.regex.test(relative)) {
+        match = rule;
+      }
+    }
+    return match;
+  }
+
+  private currentObsidianFilters(): Array<{ filter: string; matches: (path: string) => boolean }> {
+    const filters = this.getObsidianFilters();
+    const key = filters.join('\n');
+    if (key !== this.obsidianFilterKey) {
+      this.obsidianFilterKey = key;
+      this.obsidianFilters = filters.flatMap(filter => {
+        const matches = compileObsidianFilter(filter);
+        return matches ? [{ filter, matches }] : [];
+      });
+    }
+    return this.obsidianFilters;
+  }
+}
+
+/**
+ * Format an exclusion reason for display, e.g. ".qmdignore:3 `Archive/`"
+ */
+export function formatExclusionReason(reason: ExclusionReason): string {
+  const source = reason.line !== null ? `${reason.source}:${reason.line}` : reason.source;
+  const folder = reason.folder ? ` (folder ${reason.folder})` : '';
+  return `${source} \`${reason.pattern}\`${folder}`;
+}
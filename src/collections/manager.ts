@@ -1,5 +1,8 @@
 import type { TFile, TFolder, Vault } from 'obsidian';
 import { isValidCollectionName, normalizePath } from './virtual-paths';
+import type { RemoteIndexRepository } from '../database/repository';
+import { createDefaultExtractorRegistry, type ExtractorRegistry } from '../database/extractors';
+import { VaultExclusions, type ExclusionReason } from './ignore';
 
 export interface Collection {
   id: number;
@@ -10,24 +13,12 @@ export interface Collection {
   updatedAt: number;
 }
 
-type SqlValue = number | string | Uint8Array | null;
-
-interface QueryExecResult {
-  columns: string[];
-  values: SqlValue[][];
-}
-
-interface Statement {
-  bind(params?: SqlValue[] | Record<string, SqlValue> | null): boolean;
-  step(): boolean;
-  get(): SqlValue[];
-  free(): boolean;
-}
-
-export interface Database {
-  run(sql: string, params?: unknown[]): void;
-  exec(sql: string): QueryExecResult[];
-  prepare(sql: string): Statement;
+/**
+ * A vault file left out of every collection, and the rule that excludes it
+ */
+export interface ExcludedFile {
+  path: string;
+  reason: ExclusionReason;
 }
 
 export class CollectionError extends Error {
@@ -41,9 +32,15 @@ export class CollectionError extends Error {
 }
 
 export class CollectionManager {
+  /**
+   * @param extractors - Only files with a registered extractor are collected
+   * @param exclusions - Files no collection includes (.qmdignore, Obsidian's excluded files)
+   */
   constructor(
-    private db: Database,
-    private vault: Vault
+    private repository: RemoteIndexRepository,
+    private vault: Vault,
+    private extractors: ExtractorRegistry = createDefaultExtractorRegistry(),
+    private exclusions: VaultExclusions = new VaultExclusions()
   ) {}
 
   async addCollection(
@@ -83,15 +80,7 @@ export class CollectionManager {
     }
 
     const now = Date.now();
-    
-    this.db.run(
-      `INSERT INTO collections (name, path, glob_pattern, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?)`,
-      [name, normalizedPath, globPattern, now, now]
-    );
-
-    const result = this.db.exec('SELECT last_insert_rowid() as id');
-    const id = result[0]?.values[0]?.[0] as number;
+    const id = await this.repository.insertCollection(name, normalizedPath, globPattern, now);
 
     return {
       id,
@@ -112,9 +101,7 @@ export class CollectionManager {
       );
     }
 
-    this.db.run('DELETE FROM content_vectors WHERE hash IN (SELECT hash FROM documents WHERE collection_id = ?)', [collection.id]);
-    this.db.run('DELETE FROM documents WHERE collection_id = ?', [collection.id]);
-    this.db.run('DELETE FROM collections WHERE id = ?', [collection.id]);
+    await this.repository.deleteCollection(collection.id);
   }
 
   async renameCollection(oldName: string, newName: string): Promise<void> {
@@ -141,57 +128,15 @@ export class CollectionManager {
       );
     }
 
-    const now = Date.now();
-    this.db.run(
-      'UPDATE collections SET name = ?, updated_at = ? WHERE id = ?',
-      [newName, now, collection.id]
-    );
+    await this.repository.renameCollection(collection.id, newName, Date.now());
   }
 
   async listCollections(): Promise<Collection[]> {
-    const result = this.db.exec(
-      'SELECT id, name, path, glob_pattern, created_at, updated_at FROM collections ORDER BY name'
-    );
-
-    if (!result[0]) {
-      return [];
-    }
-
-    return result[0].values.map((row: SqlValue[]) => ({
-      id: row[0] as number,
-      name: row[1] as string,
-      path: row[2] as string,
-      globPattern: row[3] as string,
-      createdAt: row[4] as number,
-      updatedAt: row[5] as number,
-    }));
+    return this.repository.listCollections();
   }
 
   async getCollection(name: string): Promise<Collection | null> {
-    const stmt = this.db.prepare(
-      'SELECT id, name, path, glob_pattern, created_at, updated_at FROM collections WHERE name = ?'
-    );
-    
-    try {
-      stmt.bind([name]);
-      
-      if (!stmt.step()) {
-        return null;
-      }
-      
-      const row = stmt.get() as [number, string, string, string, number, number];
-      
-      return {
-        id: row[0],
-        name: row[1],
-        path: row[2],
-        globPattern: row[3],
-        createdAt: row[4],
-        updatedAt: row[5],
-      };
-    } finally {
-      stmt.free();
-    }
+    return this.repository.getCollectionByName(name);
   }
 
   async updateCollection(
@@ -228,13 +173,8 @@ export class CollectionManager {
       collection.globPattern = updates.globPattern;
     }
 
-    const now = Date.now();
-    collection.updatedAt = now;
-
-    this.db.run(
-      'UPDATE collections SET path = ?, glob_pattern = ?, updated_at = ? WHERE id = ?',
-      [collection.path, collection.globPattern, now, collection.id]
-    );
+    collection.updatedAt = Date.now();
+    await this.repository.updateCollection(collection);
 
     return collection;
   }
@@ -248,23 +188,61 @@ export class CollectionManager {
       );
     }
 
-    const allFiles = this.vault.getMarkdownFiles();
-    const collectionPathNormalized = normalizePath(collection.path);
-    const matcher = createGlobMatcher(collection.globPattern);
+    const allFiles = this.vault.getFiles()
+      .filter(file => this.extractors.supports(file.extension) && !this.exclusions.isExcluded(file.path));
+    return allFiles.filter(createCollectionMatcher(collection));
+  }
 
-    return allFiles.filter(file => {
-      const filePath = normalizePath(file.path);
-      
-      if (filePath !== collectionPathNormalized && !filePath.startsWith(collectionPathNormalized + '/')) {
-        return false;
+  /**
+   * The collection a file belongs to: the first collection whose folder and
+   * glob match it (as when indexing), or null if none does or it is excluded
+   */
+  async resolveCollection(file: TFile): Promise<Collection | null> {
+    if (!this.extractors.supports(file.extension) || this.exclusions.isExcluded(file.path)) {
+      return null;
+    }
+
+    for (const collection of await this.listCollections()) {
+      if (createCollectionMatcher(collection)(file)) {
+        return collection;
       }
+    }
+    return null;
+  }
+
+  /**
+   * Re-read .qmdignore files, e.g. before a sync or reindex
+   */
+  async reloadExclusions(): Promise<void> {
+    await this.exclusions.reload();
+  }
+
+  /**
+   * Whether a file is left out of every collection by an exclusion rule
+   */
+  isExcluded(path: string): boolean {
+    return this.exclusions.isExcluded(path);
+  }
 
-      const relativePath = filePath === collectionPathNormalized 
-        ? '' 
-        : filePath.slice(collectionPathNormalized.length + 1);
+  /**
+   * Indexable vault files that exclusion rules leave out, with the rule
+   * responsible for each, sorted by path
+   */
+  listExcludedFiles(): ExcludedFile[] {
+    return this.vault.getFiles()
+      .filter(file => this.extractors.supports(file.extension))
+      .flatMap(file => {
+        const reason = this.exclusions.explain(file.path);
+        return reason ? [{ path: file.path, reason }] : [];
+      })
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
 
-      return matcher(relativePath || file.name);
-    });
+  /**
+   * Ignore files currently applied, outermost first
+   */
+  listIgnoreFiles(): string[] {
+    return this.exclusions.getIgnoreFiles();
   }
 
   async getCollectionFolder(collectionName: string): Promise<TFolder | null> {
@@ -312,6 +290,28 @@ function isValidGlobPattern(pattern: string): boolean {
   }
 }
 
+/**
+ * Whether a file is inside a collection's folder and matches its glob
+ */
+function createCollectionMatcher(collection: Collection): (file: TFile) => boolean {
+  const collectionPathNormalized = normalizePath(collection.path);
+  const matcher = createGlobMatcher(collection.globPattern);
+
+  return (file: TFile): boolean => {
+    const filePath = normalizePath(file.path);
+
+    if (filePath !== collectionPathNormalized && !filePath.startsWith(collectionPathNormalized + '/')) {
+      return false;
+    }
+
+    const relativePath = filePath === collectionPathNormalized
+      ? ''
+      : filePath.slice(collectionPathNormalized.length + 1);
+
+    return matcher(relativePath || file.name);
+  };
+}
+
 function createGlobMatcher(pattern: string): (path: string) => boolean {
   const patterns = pattern.split(',').map(p => p.trim()).filter(Boolean);
   
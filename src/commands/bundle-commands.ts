@@ -0,0 +1,152 @@
+import { Notice, Modal, Setting, SuggestModal, TFile } from 'obsidian';
+import type { App } from 'obsidian';
+import type { Database } from '../database';
+import type { CollectionManager } from '../collections/manager';
+import type { SnapshotManager } from '../database/snapshots';
+import {
+  BUNDLE_FILE_SUFFIX,
+  IndexBundler,
+  parseIndexBundle,
+  serializeIndexBundle,
+  type BundleEmbeddingInfo
+} from '../database/bundle';
+
+const DEFAULT_BUNDLE_PATH = `qmd-index${BUNDLE_FILE_SUFFIX}`;
+
+class BundlePathModal extends Modal {
+  onSubmit: (path: string) => void;
+
+  constructor(app: App, onSubmit: (path: string) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: 'Export Index Bundle' });
+
+    let path = DEFAULT_BUNDLE_PATH;
+
+    new Setting(contentEl)
+      .setName('Bundle path')
+      .setDesc(`Vault-relative path, must end with ${BUNDLE_FILE_SUFFIX}`)
+      .addText(text => text
+        .setValue(path)
+        .onChange(value => { path = value; }));
+
+    new Setting(contentEl)
+      .addButton(btn => btn
+        .setButtonText('Export')
+        .setCta()
+        .onClick(() => {
+          if (!path.trim().endsWith(BUNDLE_FILE_SUFFIX)) {
+            new Notice(`Bundle path must end with ${BUNDLE_FILE_SUFFIX}`);
+            return;
+          }
+          this.close();
+          this.onSubmit(path.trim());
+        }))
+      .addButton(btn => btn
+        .setButtonText('Cancel')
+        .onClick(() => { this.close(); }));
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+class BundlePickerModal extends SuggestModal<TFile> {
+  constructor(
+    app: App,
+    private files: TFile[],
+    private onChoose: (file: TFile) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Select an index bundle to import...');
+  }
+
+  getSuggestions(query: string): TFile[] {
+    const lowerQuery = query.toLowerCase();
+    return this.files.filter(f => f.path.toLowerCase().includes(lowerQuery));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.createDiv({ text: file.path });
+    el.createEl('small', { text: new Date(file.stat.mtime).toLocaleString() });
+  }
+
+  onChooseSuggestion(file: TFile): void {
+    this.onChoose(file);
+  }
+}
+
+export function registerBundleCommands(
+  app: App,
+  collectionManager: CollectionManager,
+  db: Database,
+  snapshots: SnapshotManager,
+  getEmbeddingInfo: () => BundleEmbeddingInfo,
+  addCommand: (config: any) => void
+): void {
+  const bundler = new IndexBundler(db.repository, collectionManager);
+
+  addCommand({
+    id: 'export-index-bundle',
+    name: 'Export index bundle',
+    callback: () => {
+      new BundlePathModal(app, async (path) => {
+        const notice = new Notice('Exporting index bundle...', 0);
+        try {
+          const bundle = await bundler.createBundle(getEmbeddingInfo());
+          await app.vault.adapter.write(path, serializeIndexBundle(bundle));
+          notice.hide();
+          new Notice(`Exported ${bundle.documents.length} documents and ${bundle.chunks.length} embedded chunks to ${path}`);
+        } catch (error) {
+          notice.hide();
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          new Notice(`Bundle export failed: ${message}`);
+          console.error('Export index bundle failed:', error);
+        }
+      }).open();
+    }
+  });
+
+  addCommand({
+    id: 'import-index-bundle',
+    name: 'Import index bundle',
+    callback: () => {
+      const files = app.vault.getFiles().filter(f => f.path.endsWith(BUNDLE_FILE_SUFFIX));
+      if (files.length === 0) {
+        new Notice(`No ${BUNDLE_FILE_SUFFIX} files found in vault`);
+        return;
+      }
+
+      new BundlePickerModal(app, files, async (file) => {
+        const notice = new Notice(`Importing ${file.name}...`, 0);
+        try {
+          const bundle = parseIndexBundle(await app.vault.read(file));
+          await snapshots.snapshotDatabase(db, 'before-bundle-import', 'auto');
+          const result = await bundler.importBundle(bundle, getEmbeddingInfo());
+          notice.hide();
+
+          let message = `Imported embeddings for ${result.documentsImported} documents (${result.chunksImported} chunks). ` +
+            `${result.documentsUpToDate} already embedded, ${result.documentsToEmbed} still need embedding.`;
+          if (result.collectionsCreated.length > 0) {
+            message += ` Created collections: ${result.collectionsCreated.join(', ')} (reindex to add their notes).`;
+          }
+          if (result.collectionsSkipped.length > 0) {
+            message += ` Skipped collections with missing folders: ${result.collectionsSkipped.join(', ')}.`;
+          }
+          new Notice(message, 10000);
+        } catch (error) {
+          notice.hide();
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          new Notice(`Bundle import failed: ${message}`);
+          console.error('Import index bundle failed:', error);
+        }
+      }).open();
+    }
+  });
+}
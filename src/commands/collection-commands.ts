@@ -1,6 +1,9 @@
-import { Notice, Modal, Setting } from 'obsidian';
+import { Notice, Modal, Setting, SuggestModal } from 'obsidian';
 import type { App } from 'obsidian';
-import type { CollectionManager } from '../collections/manager';
+import type { Collection, CollectionManager } from '../collections/manager';
+import type { Database } from '../database';
+import type { SnapshotManager } from '../database/snapshots';
+import { ExclusionPreviewModal } from '../ui/exclusions-modal';
 
 class CreateCollectionModal extends Modal {
   result: { name: string; path: string; glob: string } | null = null;
@@ -35,7 +38,7 @@ class CreateCollectionModal extends Modal {
 
     new Setting(contentEl)
       .setName('Glob pattern')
-      .setDesc('File pattern to match')
+      .setDesc('File pattern to match, e.g. **/*.{md,canvas} to include canvases')
       .addText(text => text
         .setValue('**/*.md')
         .onChange(value => { glob = value; }));
@@ -63,9 +66,37 @@ class CreateCollectionModal extends Modal {
   }
 }
 
+export class CollectionPickerModal extends SuggestModal<Collection> {
+  constructor(
+    app: App,
+    private collections: Collection[],
+    private onChoose: (collection: Collection) => void,
+    placeholder = 'Select a collection...'
+  ) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  getSuggestions(query: string): Collection[] {
+    const lowerQuery = query.toLowerCase();
+    return this.collections.filter(c => c.name.includes(lowerQuery));
+  }
+
+  renderSuggestion(collection: Collection, el: HTMLElement): void {
+    el.createDiv({ text: collection.name });
+    el.createEl('small', { text: `${collection.path} · ${collection.globPattern}` });
+  }
+
+  onChooseSuggestion(collection: Collection): void {
+    this.onChoose(collection);
+  }
+}
+
 export function registerCollectionCommands(
   app: App,
   collectionManager: CollectionManager,
+  db: Database,
+  snapshots: SnapshotManager,
   addCommand: (config: any) => void
 ): void {
 
@@ -111,7 +142,48 @@ export function registerCollectionCommands(
     id: 'delete-collection',
     name: 'Delete collection',
     callback: async () => {
-      new Notice('Collection deletion modal not yet implemented');
+      try {
+        const collections = await collectionManager.listCollections();
+        if (collections.length === 0) {
+          new Notice('No collections found');
+          return;
+        }
+
+        new CollectionPickerModal(app, collections, async (collection) => {
+          try {
+            await snapshots.snapshotDatabase(db, `before-delete-${collection.name}`, 'auto');
+            await collectionManager.removeCollection(collection.name);
+            new Notice(`Collection "${collection.name}" deleted`);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            new Notice(`Failed to delete collection: ${message}`);
+            console.error('Delete collection failed:', error);
+          }
+        }, 'Select a collection to delete...').open();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Failed to list collections: ${message}`);
+        console.error('List collections failed:', error);
+      }
+    }
+  });
+
+  addCommand({
+    id: 'preview-excluded-files',
+    name: 'Preview excluded files',
+    callback: async () => {
+      try {
+        await collectionManager.reloadExclusions();
+        new ExclusionPreviewModal(
+          app,
+          collectionManager.listExcludedFiles(),
+          collectionManager.listIgnoreFiles()
+        ).open();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Failed to preview excluded files: ${message}`);
+        console.error('Preview excluded files failed:', error);
+      }
     }
   });
 }
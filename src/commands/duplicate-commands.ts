@@ -0,0 +1,31 @@
+import { Notice } from 'obsidian';
+import type { App } from 'obsidian';
+import type { NearDuplicateFinder } from '../search/near-duplicates';
+import { DuplicateGroupsModal } from '../ui/duplicates-modal';
+
+export function registerDuplicateCommands(
+  app: App,
+  finder: NearDuplicateFinder,
+  getThreshold: () => number,
+  addCommand: (config: any) => void
+): void {
+
+  addCommand({
+    id: 'find-near-duplicates',
+    name: 'Find near-duplicate notes',
+    callback: async () => {
+      const notice = new Notice('Looking for duplicate notes...', 0);
+      try {
+        const threshold = getThreshold();
+        const groups = await finder.findGroups({ threshold });
+        notice.hide();
+        new DuplicateGroupsModal(app, groups, threshold).open();
+      } catch (error) {
+        notice.hide();
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Failed to find duplicates: ${message}`);
+        console.error('Find near-duplicates failed:', error);
+      }
+    }
+  });
+}
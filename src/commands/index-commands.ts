@@ -1,46 +1,88 @@
 import { Notice } from 'obsidian';
-import type { DocumentIndexer, IndexingProgress } from '../database/indexer';
+import type { Database } from '../database';
+import { formatReconcileDiff, formatReconcileSummary, type DocumentIndexer } from '../database/indexer';
+import type { SnapshotManager } from '../database/snapshots';
+import type { CollectionManager } from '../collections/manager';
+import type { Job, JobKind, JobQueue } from '../jobs/job-queue';
 import { ProgressModal } from '../ui/progress-modal';
+import { CollectionPickerModal } from './collection-commands';
 import type { App } from 'obsidian';
 
 export function registerIndexCommands(
   app: App,
   indexer: DocumentIndexer,
+  jobQueue: JobQueue,
+  collectionManager: CollectionManager,
+  db: Database,
+  snapshots: SnapshotManager,
   addCommand: (config: any) => void
 ): void {
-  
+
+  /**
+   * Queue a bulk job and follow it in a progress modal
+   */
+  const runJob = async (kind: JobKind, target: string | null, title: string, snapshotName: string | null) => {
+    if (snapshotName) {
+      try {
+        await snapshots.snapshotDatabase(db, snapshotName, 'auto');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`${title} cancelled, snapshot failed: ${message}`);
+        console.error('Pre-job snapshot failed:', error);
+        return;
+      }
+    }
+
+    let job: Job;
+    try {
+      job = await jobQueue.enqueue(kind, target);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`${title} failed: ${message}`);
+      console.error('Queue job failed:', error);
+      return;
+    }
+
+    const progressModal = new ProgressModal(app, `${title}...`, true);
+    progressModal.observeJob(jobQueue, job, (current, currentItem) => {
+      const counts = `(${current.completed}/${current.total})`;
+      return currentItem ? `${currentItem} ${counts}` : `${title}... ${counts}`;
+    });
+    progressModal.open();
+
+    const finished = await jobQueue.whenFinished(job.id);
+    if (finished.status === 'completed') {
+      new Notice(`${title}: done (${finished.total} processed)`);
+    } else if (finished.status === 'failed') {
+      new Notice(`${title} failed: ${finished.error ?? 'Unknown error'}`);
+    }
+  };
+
   addCommand({
     id: 'reindex-all',
     name: 'Reindex all documents',
-    callback: async () => {
-      const progressModal = new ProgressModal(app, 'Reindexing all documents...', true);
-      progressModal.open();
-
-      let cancelled = false;
-      progressModal.onCancelCallback(() => {
-        cancelled = true;
-      });
-
-      const onProgress = (progress: IndexingProgress) => {
-        if (cancelled) return;
-        progressModal.setProgress(
-          progress.current,
-          progress.total,
-          `Indexing ${progress.currentFile} (${progress.current}/${progress.total})`
-        );
-      };
+    callback: () => runJob('reindex-all', null, 'Reindexing all documents', 'before-reindex-all'),
+  });
 
+  addCommand({
+    id: 'sync-index-with-vault',
+    name: 'Sync index with vault changes',
+    callback: async () => {
+      const notice = new Notice('Checking vault for changes...', 0);
       try {
-        const count = await indexer.reindexAll(onProgress);
-        if (!cancelled) {
-          progressModal.complete(`Indexed ${count} documents!`);
-          new Notice(`Successfully indexed ${count} documents`);
+        await collectionManager.reloadExclusions();
+        const result = await indexer.reconcile();
+        notice.hide();
+        new Notice(`Index synced: ${formatReconcileSummary(result)}`);
+        const diff = formatReconcileDiff(result);
+        if (diff) {
+          console.log(`[QMD] Index sync changes:\n${diff}`);
         }
       } catch (error) {
-        progressModal.close();
+        notice.hide();
         const message = error instanceof Error ? error.message : 'Unknown error';
-        new Notice(`Indexing failed: ${message}`);
-        console.error('Reindex failed:', error);
+        new Notice(`Sync failed: ${message}`);
+        console.error('Index sync failed:', error);
       }
     }
   });
@@ -49,7 +91,27 @@ export function registerIndexCommands(
     id: 'reindex-collection',
     name: 'Reindex collection',
     callback: async () => {
-      new Notice('Collection selection not yet implemented');
+      try {
+        const collections = await collectionManager.listCollections();
+        if (collections.length === 0) {
+          new Notice('No collections found');
+          return;
+        }
+
+        new CollectionPickerModal(app, collections, (collection) => {
+          void runJob('reindex-collection', collection.name, `Reindexing "${collection.name}"`, null);
+        }, 'Select a collection to reindex...').open();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Failed to list collections: ${message}`);
+        console.error('List collections failed:', error);
+      }
     }
   });
+
+  addCommand({
+    id: 'embed-documents',
+    name: 'Embed documents without embeddings',
+    callback: () => runJob('embed-documents', null, 'Embedding documents', null),
+  });
 }
@@ -1,10 +1,91 @@
-import { Notice } from 'obsidian';
-import type { Database } from '../database';
+import { Notice, Modal, Setting, SuggestModal } from 'obsidian';
+import type { App } from 'obsidian';
+import { restoreDatabase, formatBytes, formatGarbageCollection, type Database } from '../database';
 import type { DocumentIndexer } from '../database/indexer';
+import type { DocumentContentLoader } from '../database/content-loader';
+import type { JobQueue } from '../jobs/job-queue';
+import { IntegrityChecker } from '../database/integrity';
+import type { SnapshotInfo, SnapshotManager } from '../database/snapshots';
+import { IntegrityReportModal } from '../ui/integrity-modal';
+
+class SnapshotNameModal extends Modal {
+  onSubmit: (name: string) => void;
+
+  constructor(app: App, onSubmit: (name: string) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: 'Create Index Snapshot' });
+
+    let name = '';
+
+    new Setting(contentEl)
+      .setName('Snapshot name')
+      .setDesc('Letters, numbers and hyphens (e.g., before-glob-change)')
+      .addText(text => text
+        .setPlaceholder('my-snapshot')
+        .onChange(value => { name = value; }));
+
+    new Setting(contentEl)
+      .addButton(btn => btn
+        .setButtonText('Create')
+        .setCta()
+        .onClick(() => {
+          if (!name.trim()) {
+            new Notice('Snapshot name is required');
+            return;
+          }
+          this.close();
+          this.onSubmit(name.trim());
+        }))
+      .addButton(btn => btn
+        .setButtonText('Cancel')
+        .onClick(() => { this.close(); }));
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+class SnapshotPickerModal extends SuggestModal<SnapshotInfo> {
+  constructor(
+    app: App,
+    private snapshots: SnapshotInfo[],
+    private onChoose: (snapshot: SnapshotInfo) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Select a snapshot to restore...');
+  }
+
+  getSuggestions(query: string): SnapshotInfo[] {
+    const lowerQuery = query.toLowerCase();
+    return this.snapshots.filter(s => s.label.includes(lowerQuery));
+  }
+
+  renderSuggestion(snapshot: SnapshotInfo, el: HTMLElement): void {
+    el.createDiv({ text: `${snapshot.label}${snapshot.kind === 'auto' ? ' (auto)' : ''}` });
+    el.createEl('small', {
+      text: `${new Date(snapshot.createdAt).toLocaleString()} · ${formatBytes(snapshot.size)}`
+    });
+  }
+
+  onChooseSuggestion(snapshot: SnapshotInfo): void {
+    this.onChoose(snapshot);
+  }
+}
 
 export function registerMaintenanceCommands(
+  app: App,
   indexer: DocumentIndexer,
+  jobQueue: JobQueue,
+  contentLoader: DocumentContentLoader,
   db: Database,
+  snapshots: SnapshotManager,
   addCommand: (config: any) => void
 ): void {
 
@@ -14,7 +95,7 @@ export function registerMaintenanceCommands(
     callback: async () => {
       const notice = new Notice('Optimizing database...', 0);
       try {
-        db.run('VACUUM');
+        await db.repository.vacuum();
         notice.hide();
         new Notice('Database optimized successfully');
       } catch (error) {
@@ -26,6 +107,30 @@ export function registerMaintenanceCommands(
     }
   });
 
+  addCommand({
+    id: 'purge-deleted-documents',
+    name: 'Purge deleted documents',
+    callback: async () => {
+      const notice = new Notice('Purging deleted documents...', 0);
+      try {
+        const job = await jobQueue.enqueue('collect-garbage');
+        const finished = await jobQueue.whenFinished(job.id);
+        notice.hide();
+        if (finished.status === 'completed') {
+          const report = await db.repository.getLastGarbageCollection();
+          new Notice(report ? `Purge complete: ${formatGarbageCollection(report)}` : 'Purge complete');
+        } else if (finished.status === 'failed') {
+          new Notice(`Purge failed: ${finished.error ?? 'Unknown error'}`);
+        }
+      } catch (error) {
+        notice.hide();
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Purge failed: ${message}`);
+        console.error('Purge deleted documents failed:', error);
+      }
+    }
+  });
+
   addCommand({
     id: 'show-stats',
     name: 'Show database statistics',
@@ -51,28 +156,77 @@ Database Statistics:
     id: 'health-check',
     name: 'Run health check',
     callback: async () => {
+      const notice = new Notice('Checking index integrity...', 0);
       try {
-        const stats = await indexer.getStats();
-        const issues: string[] = [];
+        const checker = new IntegrityChecker(db.repository, app.vault, indexer, jobQueue, contentLoader);
+        const report = await checker.check();
+        notice.hide();
+        new IntegrityReportModal(app, report).open();
+      } catch (error) {
+        notice.hide();
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Health check failed: ${message}`);
+        console.error('Health check failed:', error);
+      }
+    }
+  });
 
-        if (stats.totalDocuments === 0) {
-          issues.push('No documents indexed');
+  addCommand({
+    id: 'create-snapshot',
+    name: 'Create index snapshot',
+    callback: () => {
+      new SnapshotNameModal(app, async (name) => {
+        try {
+          const snapshot = await snapshots.snapshotDatabase(db, name, 'manual');
+          new Notice(`Snapshot "${snapshot.label}" created (${formatBytes(snapshot.size)})`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          new Notice(`Failed to create snapshot: ${message}`);
+          console.error('Create snapshot failed:', error);
         }
+      }).open();
+    }
+  });
 
-        if (stats.activeDocuments < stats.totalDocuments) {
-          const inactive = stats.totalDocuments - stats.activeDocuments;
-          issues.push(`${inactive} inactive documents`);
+  addCommand({
+    id: 'restore-snapshot',
+    name: 'Restore index snapshot',
+    callback: async () => {
+      try {
+        const available = await snapshots.listSnapshots();
+        if (available.length === 0) {
+          new Notice('No snapshots found');
+          return;
         }
 
-        if (issues.length === 0) {
-          new Notice('Health check passed: No issues found');
-        } else {
-          new Notice(`Health check found ${issues.length} issue(s):\n${issues.join('\n')}`, 8000);
-        }
+        new SnapshotPickerModal(app, available, async (snapshot) => {
+          const notice = new Notice(`Restoring snapshot "${snapshot.label}"...`, 0);
+          try {
+            const data = await snapshots.readSnapshot(snapshot);
+            // A running job would write to the index while it is swapped
+            const wasStarted = jobQueue.isStarted();
+            await jobQueue.stop();
+            try {
+              // Keep the current state around in case the restore was a mistake
+              await snapshots.snapshotDatabase(db, 'before-restore', 'auto');
+              await restoreDatabase(db, data);
+            } finally {
+              // Jobs queued in the restored index run from here
+              if (wasStarted) await jobQueue.start();
+            }
+            notice.hide();
+            new Notice(`Restored snapshot "${snapshot.label}"`);
+          } catch (error) {
+            notice.hide();
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            new Notice(`Restore failed: ${message}`);
+            console.error('Restore snapshot failed:', error);
+          }
+        }).open();
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        new Notice(`Health check failed: ${message}`);
-        console.error('Health check failed:', error);
+        new Notice(`Failed to list snapshots: ${message}`);
+        console.error('List snapshots failed:', error);
       }
     }
   });
@@ -2,6 +2,7 @@ import { Notice, Modal, Setting } from 'obsidian';
 import type { App } from 'obsidian';
 import type { DocumentIndexer } from '../database/indexer';
 import type { HybridSearcher } from '../search/hybrid-search';
+import { resolveSnippet } from '../search/snippets';
 
 class SearchQueryModal extends Modal {
   onSubmit: (query: string, format: 'json' | 'markdown' | 'snippet') => void;
@@ -104,7 +105,12 @@ export function registerRetrievalCommands(
     callback: () => {
       new SearchQueryModal(app, async (query, format) => {
         try {
-          const results = await hybridSearcher.search(query, { limit: 10 });
+          const hits = await hybridSearcher.search(query, { limit: 10 });
+          // Hits carry no content; build snippets for the ones being exported
+          const results = await Promise.all(hits.map(async hit => ({
+            ...hit,
+            snippet: await resolveSnippet(hit, query),
+          })));
           
           let output: string;
           switch (format) {
@@ -0,0 +1,186 @@
+/**
+ * Index Autosaver for QMD Search
+ * Persists the database in the background whenever it has unsaved changes,
+ * so a crash or force-quit loses at most a few seconds of indexing.
+ */
+
+import { DatabaseWorkerError, type Database } from './db';
+import type { IndexStorage } from './storage';
+
+export interface AutosaveStatus {
+  /** Timestamp of the last successful save (null = not saved this session) */
+  lastSavedAt: number | null;
+  /** Row changes made since the last successful save */
+  pendingChanges: number;
+  /** True while a save is being written */
+  saving: boolean;
+  /** Message of the last failed save, cleared on success */
+  lastError: string | null;
+}
+
+export interface AutosaveOptions {
+  /** Periodic save interval in milliseconds (default: 30000) */
+  intervalMs?: number;
+  /** Minimum time between two saves in milliseconds (default: 5000) */
+  minIntervalMs?: number;
+}
+
+const DEFAULT_INTERVAL_MS = 30000;
+const DEFAULT_MIN_INTERVAL_MS = 5000;
+const TRANSACTION_RETRY_MS = 1000;
+
+export class IndexAutosaver {
+  private intervalMs: number;
+  private readonly minIntervalMs: number;
+  private intervalTimer: ReturnType<typeof setInterval> | null = null;
+  private throttleTimer: ReturnType<typeof setTimeout> | null = null;
+  private savePromise: Promise<void> | null = null;
+  /** Change count at the last save; starts at 0 so schema creation/migration is persisted */
+  private savedChangeCount = 0;
+  private lastSavedAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private db: Database,
+    private storage: IndexStorage,
+    options?: AutosaveOptions
+  ) {
+    this.intervalMs = options?.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.minIntervalMs = options?.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+  }
+
+  /**
+   * Start periodic background saves
+   */
+  start(): void {
+    this.stop();
+    this.intervalTimer = setInterval(() => this.requestSave(), this.intervalMs);
+  }
+
+  /**
+   * Change the periodic save interval, restarting the timer if it is running
+   */
+  setIntervalMs(intervalMs: number): void {
+    this.intervalMs = intervalMs;
+    if (this.intervalTimer) {
+      this.start();
+    }
+  }
+
+  /**
+   * Stop background saves (pending changes are kept until flush())
+   */
+  stop(): void {
+    if (this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+    if (this.throttleTimer) {
+      clearTimeout(this.throttleTimer);
+      this.throttleTimer = null;
+    }
+  }
+
+  /**
+   * Ask for a save soon; calls are throttled to one save per minIntervalMs
+   */
+  requestSave(): void {
+    if (this.throttleTimer || !this.isDirty()) {
+      return;
+    }
+
+    const sinceLastSave = this.lastSavedAt ? Date.now() - this.lastSavedAt : Infinity;
+    const delay = Math.max(0, this.minIntervalMs - sinceLastSave);
+
+    this.scheduleSave(delay);
+  }
+
+  /**
+   * Save immediately if there are unsaved changes.
+   * Used on unload, where an open transaction is abandoned anyway.
+   */
+  async flush(): Promise<void> {
+    if (this.throttleTimer) {
+      clearTimeout(this.throttleTimer);
+      this.throttleTimer = null;
+    }
+    if (this.savePromise) {
+      await this.savePromise;
+    }
+    if (this.isDirty()) {
+      await this.save(true);
+    }
+  }
+
+  isDirty(): boolean {
+    return this.getPendingChanges() > 0;
+  }
+
+  getStatus(): AutosaveStatus {
+    return {
+      lastSavedAt: this.lastSavedAt,
+      pendingChanges: this.getPendingChanges(),
+      saving: this.savePromise !== null,
+      lastError: this.lastError,
+    };
+  }
+
+  private getPendingChanges(): number {
+    try {
+      return Math.max(0, this.db.getChangeCount() - this.savedChangeCount);
+    } catch {
+      return 0;
+    }
+  }
+
+  private scheduleSave(delay: number): void {
+    this.throttleTimer = setTimeout(() => {
+      this.throttleTimer = null;
+
+      // Exporting reopens the sql.js connection, which would drop an open transaction
+      if (this.db.isInTransaction() || this.savePromise) {
+        this.scheduleSave(TRANSACTION_RETRY_MS);
+        return;
+      }
+
+      this.save().catch((error) => {
+        // A transaction started before the export reached the worker
+        if (isBusy(error)) {
+          this.scheduleSave(TRANSACTION_RETRY_MS);
+        }
+        // Other failures are already recorded in lastError
+      });
+    }, delay);
+  }
+
+  private save(force = false): Promise<void> {
+    this.savePromise = this.writeIndex(force).finally(() => {
+      this.savePromise = null;
+    });
+
+    return this.savePromise;
+  }
+
+  private async writeIndex(force: boolean): Promise<void> {
+    try {
+      const data = await this.db.export({ force });
+      // The export response carries the change count at the moment of export
+      const changeCount = this.db.getChangeCount();
+
+      await this.storage.save(data);
+      this.savedChangeCount = changeCount;
+      this.lastSavedAt = Date.now();
+      this.lastError = null;
+    } catch (error) {
+      if (!isBusy(error)) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        console.error('[QMD] Autosave failed:', error);
+      }
+      throw error;
+    }
+  }
+}
+
+function isBusy(error: unknown): boolean {
+  return error instanceof DatabaseWorkerError && error.code === 'BUSY';
+}
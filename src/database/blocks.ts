@@ -0,0 +1,139 @@
+/**
+ * Block References for QMD Search
+ * Finds the blocks of a note marked with a ^block-id, the targets of
+ * [[note#^block-id]] links and embeds, so they can be embedded into other
+ * notes when indexing and pointed at by search results.
+ */
+
+import { splitFrontmatter } from './metadata';
+
+/**
+ * A paragraph, list item or other block ending with a ^block-id marker
+ */
+export interface DocumentBlock {
+  /** Block id without the caret, e.g. "abc123" */
+  id: string;
+  /** First and last line of the block (0-indexed, inclusive), marker line included */
+  startLine: number;
+  endLine: number;
+  /** Character range of the block in the note [start, end) */
+  startOffset: number;
+  endOffset: number;
+  /** Markdown of the block without its marker */
+  text: string;
+}
+
+/**
+ * A block with the heading it is under and its normalized text
+ */
+export interface IndexedBlock extends DocumentBlock {
+  headingPath: string[];
+  /** Normalized text of the block, indexed to find it */
+  searchText: string;
+}
+
+const BLOCK_MARKER_PATTERN = /(^|[ \t])\^([A-Za-z0-9-]+)[ \t]*$/;
+const LIST_ITEM_PATTERN = /^([ \t]*)(?:[-*+]|\d+[.)])[ \t]/;
+const HEADING_PATTERN = /^#{1,6}[ \t]/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})/;
+
+/**
+ * Blocks of a note marked with a ^block-id, skipping frontmatter and code
+ *
+ * The marker ends the block's last line, or stands on its own line after
+ * the block (for tables, quotes and lists). A marked list item includes its
+ * nested items. When an id is used twice, the first block keeps it.
+ */
+export function extractBlocks(content: string): DocumentBlock[] {
+  const rawLines = content.split('\n');
+  const lines = rawLines.map(line => line.replace(/\r$/, ''));
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of rawLines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const bodyStart = lines.length - splitFrontmatter(content).body.split('\n').length;
+  const blank = (line: number) => !lines[line].trim();
+  const code = new Set<number>();
+  let fence: string | null = null;
+  for (let line = bodyStart; line < lines.length; line++) {
+    const trimmed = lines[line].trim();
+    const fenceMatch = trimmed.match(FENCE_PATTERN);
+    if (fence) {
+      code.add(line);
+      if (fenceMatch && trimmed.startsWith(fence)) fence = null;
+    } else if (fenceMatch) {
+      code.add(line);
+      fence = fenceMatch[1];
+    }
+  }
+
+  const blocks: DocumentBlock[] = [];
+  const seen = new Set<string>();
+
+  for (let line = bodyStart; line < lines.length; line++) {
+    if (code.has(line)) continue;
+    const marker = lines[line].match(BLOCK_MARKER_PATTERN);
+    if (!marker) continue;
+
+    const id = marker[2];
+    const standalone = lines[line].trim() === `^${id}`;
+    let start = line;
+    let end = line;
+
+    if (standalone) {
+      // The block before the marker, which may be separated by a blank line
+      let last = line - 1;
+      while (last >= bodyStart && blank(last)) last--;
+      if (last < bodyStart) continue;
+      start = last;
+      while (start > bodyStart && !blank(start - 1)
+        && (code.has(start - 1) || !HEADING_PATTERN.test(lines[start - 1]))) {
+        start--;
+      }
+    } else if (LIST_ITEM_PATTERN.test(lines[line])) {
+      const indent = lines[line].match(LIST_ITEM_PATTERN)![1].length;
+      while (end + 1 < lines.length && !blank(end + 1) && leadingWhitespace(lines[end + 1]) > indent) end++;
+    } else if (!HEADING_PATTERN.test(lines[line])) {
+      while (start > bodyStart && !blank(start - 1) && !HEADING_PATTERN.test(lines[start - 1])
+        && !code.has(start - 1)) {
+        start--;
+      }
+    }
+
+    if (seen.has(id.toLowerCase())) continue;
+    seen.add(id.toLowerCase());
+
+    const text = standalone
+      ? lines.slice(start, line).join('\n').trimEnd()
+      : [
+        ...lines.slice(start, line),
+        lines[line].replace(BLOCK_MARKER_PATTERN, ''),
+        ...lines.slice(line + 1, end + 1),
+      ].join('\n');
+    blocks.push({
+      id,
+      startLine: start,
+      endLine: end,
+      startOffset: offsets[start],
+      endOffset: offsets[end] + lines[end].length,
+      text,
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * The block of a note with an id (case-insensitive), null if none has it
+ */
+export function findBlock(content: string, id: string): DocumentBlock | null {
+  const wanted = id.replace(/^\^/, '').toLowerCase();
+  return extractBlocks(content).find(block => block.id.toLowerCase() === wanted) ?? null;
+}
+
+function leadingWhitespace(line: string): number {
+  return line.length - line.trimStart().length;
+}
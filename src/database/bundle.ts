@@ -0,0 +1,273 @@
+/**
+ * Index Bundles for QMD Search
+ * Portable export of collections, document metadata, chunks and embeddings,
+ * so another machine syncing the same vault can reuse embeddings instead of
+ * sending every chunk through Ollama again.
+ */
+
+import type { CollectionManager } from '../collections/manager';
+import { CollectionError } from '../collections/manager';
+import type { DocumentMetadata, RemoteIndexRepository } from './repository';
+import { SCHEMA_VERSION } from './schema';
+
+export const BUNDLE_FORMAT = 'qmd-index-bundle';
+export const BUNDLE_VERSION = 2;
+/** Version 1 bundles used short content hashes that no longer match */
+const MIN_BUNDLE_VERSION = 2;
+export const BUNDLE_FILE_SUFFIX = '.qmd-bundle.json';
+
+export interface BundleEmbeddingInfo {
+  model: string;
+  dimensions: number;
+}
+
+export interface BundleCollection {
+  name: string;
+  path: string;
+  globPattern: string;
+}
+
+export interface BundleChunk {
+  hash: string;
+  seq: number;
+  text: string;
+  tokenCount: number;
+  /** Character offset in the document (absent in bundles from older versions) */
+  pos?: number | null;
+  /** Base64 of the little-endian float32 vector */
+  embedding: string;
+}
+
+export interface IndexBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  embedding: BundleEmbeddingInfo;
+  collections: BundleCollection[];
+  documents: DocumentMetadata[];
+  chunks: BundleChunk[];
+}
+
+export interface BundleImportResult {
+  /** Collections created because they did not exist locally */
+  collectionsCreated: string[];
+  /** Bundle collections whose folder does not exist in this vault */
+  collectionsSkipped: string[];
+  /** Local documents that received embeddings from the bundle */
+  documentsImported: number;
+  /** Local documents that already had embeddings */
+  documentsUpToDate: number;
+  /** Local documents still needing embeddings (missing from the bundle or changed) */
+  documentsToEmbed: number;
+  chunksImported: number;
+}
+
+export class BundleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_BUNDLE' | 'UNSUPPORTED_VERSION' | 'MODEL_MISMATCH'
+  ) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+function encodeEmbedding(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeEmbedding(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer, 0, Math.floor(bytes.length / 4));
+}
+
+export class IndexBundler {
+  constructor(
+    private repository: RemoteIndexRepository,
+    private collectionManager: CollectionManager
+  ) {}
+
+  /**
+   * Build a bundle from the current index
+   * Only chunks that have an embedding are included.
+   */
+  async createBundle(embedding: BundleEmbeddingInfo): Promise<IndexBundle> {
+    const collections = await this.repository.listCollections();
+    const documents = await this.repository.listDocumentMetadata();
+    const documentHashes = new Set(documents.map(doc => doc.hash));
+
+    const embeddings = new Map<string, Uint8Array>();
+    for (const stored of await this.repository.listEmbeddings()) {
+      embeddings.set(stored.hashSeq, stored.embedding);
+    }
+
+    const chunks: BundleChunk[] = [];
+    for (const chunk of await this.repository.listChunks()) {
+      const vector = embeddings.get(chunk.hashSeq);
+      if (!vector || !documentHashes.has(chunk.hash)) continue;
+
+      chunks.push({
+        hash: chunk.hash,
+        seq: chunk.seq,
+        text: chunk.chunkText,
+        tokenCount: chunk.tokenCount,
+        pos: chunk.pos,
+        embedding: encodeEmbedding(vector),
+      });
+    }
+
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: Date.now(),
+      embedding,
+      collections: collections.map(c => ({ name: c.name, path: c.path, globPattern: c.globPattern })),
+      documents,
+      chunks,
+    };
+  }
+
+  /**
+   * Merge a bundle into the local index by content hash
+   *
+   * Missing collections are created. Embeddings are copied for every local
+   * document whose content hash appears in the bundle and that has no
+   * embeddings yet; everything else is left for the normal embedding run.
+   */
+  async importBundle(bundle: IndexBundle, embedding: BundleEmbeddingInfo): Promise<BundleImportResult> {
+    if (bundle.embedding.model !== embedding.model || bundle.embedding.dimensions !== embedding.dimensions) {
+      throw new BundleError(
+        `Bundle was embedded with ${bundle.embedding.model} (${bundle.embedding.dimensions} dimensions), ` +
+        `but this vault uses ${embedding.model} (${embedding.dimensions} dimensions).`,
+        'MODEL_MISMATCH'
+      );
+    }
+
+    const result: BundleImportResult = {
+      collectionsCreated: [],
+      collectionsSkipped: [],
+      documentsImported: 0,
+      documentsUpToDate: 0,
+      documentsToEmbed: 0,
+      chunksImported: 0,
+    };
+
+    for (const collection of bundle.collections) {
+      if (await this.collectionManager.getCollection(collection.name)) continue;
+
+      try {
+        await this.collectionManager.addCollection(collection.name, collection.path, collection.globPattern);
+        result.collectionsCreated.push(collection.name);
+      } catch (error) {
+        if (!(error instanceof CollectionError)) throw error;
+        result.collectionsSkipped.push(collection.name);
+      }
+    }
+
+    const chunksByHash = new Map<string, BundleChunk[]>();
+    for (const chunk of bundle.chunks) {
+      const list = chunksByHash.get(chunk.hash) ?? [];
+      list.push(chunk);
+      chunksByHash.set(chunk.hash, list);
+    }
+
+    const localHashes = await this.repository.listActiveDocumentHashes();
+    const embeddedHashes = new Set(await this.repository.listEmbeddedHashes());
+    const now = Date.now();
+
+    await this.repository.transaction(async () => {
+      for (const hash of localHashes) {
+        if (embeddedHashes.has(hash)) {
+          result.documentsUpToDate++;
+          continue;
+        }
+
+        const chunks = chunksByHash.get(hash);
+        if (!chunks) {
+          result.documentsToEmbed++;
+          continue;
+        }
+
+        await this.repository.importChunks(
+          chunks.map(chunk => ({
+            hashSeq: `${chunk.hash}_${chunk.seq}`,
+            hash: chunk.hash,
+            seq: chunk.seq,
+            chunkText: chunk.text,
+            tokenCount: chunk.tokenCount,
+            pos: chunk.pos ?? null,
+            embedding: this.decodeVector(chunk, bundle.embedding.dimensions),
+          })),
+          now
+        );
+        result.documentsImported++;
+        result.chunksImported += chunks.length;
+      }
+    });
+
+    return result;
+  }
+
+  private decodeVector(chunk: BundleChunk, dimensions: number): Float32Array {
+    const vector = decodeEmbedding(chunk.embedding);
+    if (vector.length !== dimensions) {
+      throw new BundleError(
+        `Embedding for ${chunk.hash}_${chunk.seq} has ${vector.length} dimensions, expected ${dimensions}`,
+        'INVALID_BUNDLE'
+      );
+    }
+    return vector;
+  }
+}
+
+/**
+ * Parse and validate bundle file contents
+ */
+export function parseIndexBundle(text: string): IndexBundle {
+  let data: Partial<IndexBundle>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BundleError('Bundle file is not valid JSON', 'INVALID_BUNDLE');
+  }
+
+  if (data?.format !== BUNDLE_FORMAT) {
+    throw new BundleError('File is not a QMD index bundle', 'INVALID_BUNDLE');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new BundleError(
+      `Bundle version ${data.version} is not supported (newest supported: ${BUNDLE_VERSION})`,
+      'UNSUPPORTED_VERSION'
+    );
+  }
+  if (data.version < MIN_BUNDLE_VERSION) {
+    throw new BundleError(
+      `Bundle version ${data.version} was created by an older plugin version; export it again`,
+      'UNSUPPORTED_VERSION'
+    );
+  }
+  if (
+    !data.embedding ||
+    !Array.isArray(data.collections) ||
+    !Array.isArray(data.documents) ||
+    !Array.isArray(data.chunks)
+  ) {
+    throw new BundleError('Bundle is missing required sections', 'INVALID_BUNDLE');
+  }
+
+  return data as IndexBundle;
+}
+
+export function serializeIndexBundle(bundle: IndexBundle): string {
+  return JSON.stringify(bundle);
+}
@@ -0,0 +1,341 @@
+/**
+ * SQLite Connection for QMD Search
+ * Synchronous sql.js access, schema creation and migrations. Only used inside
+ * the database worker; the plugin talks to it through the async Database in db.ts.
+ */
+
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic } from 'sql.js';
+import { SCHEMA_SQL, VEC0_TABLE_SQL, SCHEMA_VERSION } from './schema';
+import { findMissingSchema, getPendingMigrations, validateMigrations } from './migrations';
+import { DatabaseInitError } from './worker-protocol';
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export interface QueryExecResult {
+  columns: string[];
+  values: SqlValue[][];
+}
+
+export interface Statement {
+  bind(params?: SqlValue[] | Record<string, SqlValue> | null): boolean;
+  step(): boolean;
+  get(): SqlValue[];
+  getAsObject(): Record<string, SqlValue>;
+  run(params?: SqlValue[] | Record<string, SqlValue> | null): void;
+  reset(): void;
+  free(): boolean;
+}
+
+export interface Connection {
+  run(sql: string, params?: unknown[]): void;
+  exec(sql: string): QueryExecResult[];
+  prepare(sql: string): Statement;
+  close(): void;
+  export(): Uint8Array;
+  /** Monotonic count of row changes since the database was opened */
+  getChangeCount(): number;
+  /** True while an explicit BEGIN ... COMMIT/ROLLBACK block is open */
+  isInTransaction(): boolean;
+  /**
+   * Incremented whenever the underlying connection is reopened (export, restore),
+   * which invalidates every prepared statement
+   */
+  getConnectionGeneration(): number;
+}
+
+const BEGIN_PATTERN = /^\s*BEGIN\b/i;
+const END_PATTERN = /^\s*(?:COMMIT|END|ROLLBACK)\s*(?:TRANSACTION)?\s*;?\s*$/i;
+
+class SqlConnection implements Connection {
+  /** Changes counted before the last export(), which reopens the connection */
+  private changeBase = 0;
+  private inTransaction = false;
+  private generation = 0;
+
+  constructor(private db: SqlJsDatabase) {}
+
+  run(sql: string, params?: unknown[]): void {
+    this.db.run(sql, params as SqlValue[]);
+    this.trackTransaction(sql);
+  }
+
+  exec(sql: string): QueryExecResult[] {
+    const result = this.db.exec(sql);
+    this.trackTransaction(sql);
+    return result;
+  }
+
+  prepare(sql: string): Statement {
+    return this.db.prepare(sql);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  export(): Uint8Array {
+    // sql.js closes and reopens the connection on export, resetting total_changes()
+    this.changeBase = this.getChangeCount();
+    this.inTransaction = false;
+    this.generation++;
+    return this.db.export();
+  }
+
+  getChangeCount(): number {
+    const result = this.db.exec('SELECT total_changes()');
+    return this.changeBase + ((result[0]?.values[0]?.[0] as number) || 0);
+  }
+
+  isInTransaction(): boolean {
+    return this.inTransaction;
+  }
+
+  getConnectionGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * Swap in a different sql.js connection (used when restoring a snapshot).
+   * The change count keeps increasing so the restored state counts as unsaved.
+   */
+  replaceConnection(db: SqlJsDatabase): void {
+    const previousCount = this.getChangeCount();
+    this.db.close();
+    this.db = db;
+    this.inTransaction = false;
+    this.generation++;
+    this.changeBase = previousCount + 1;
+  }
+
+  private trackTransaction(sql: string): void {
+    if (BEGIN_PATTERN.test(sql)) {
+      this.inTransaction = true;
+    } else if (END_PATTERN.test(sql)) {
+      this.inTransaction = false;
+    }
+  }
+}
+
+export interface ConnectionConfig {
+  /** sql.js WebAssembly binary (workers cannot fetch plugin files themselves) */
+  wasmBinary?: ArrayBuffer;
+  enableVectorSearch?: boolean;
+  existingData?: Uint8Array;
+  /** Called with the current contents before pending migrations are applied */
+  onBeforeMigrate?: (data: Uint8Array, fromVersion: number) => Promise<void>;
+  /** Open existingData at its own schema version, e.g. after its upgrade failed */
+  skipMigrations?: boolean;
+}
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load the sql.js module once and reuse it for every connection
+ */
+async function loadSqlJs(wasmBinary?: ArrayBuffer): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs(wasmBinary ? { wasmBinary } : undefined);
+    sqlJsPromise.catch(() => {
+      sqlJsPromise = null;
+    });
+  }
+
+  try {
+    return await sqlJsPromise;
+  } catch (error) {
+    throw new DatabaseInitError(
+      `Failed to initialize database: ${error instanceof Error ? error.message : String(error)}`,
+      'SQLJS_LOAD_FAILED'
+    );
+  }
+}
+
+export async function openConnection(config: ConnectionConfig = {}): Promise<Connection> {
+  return new SqlConnection(await openSqlJsDatabase(config));
+}
+
+/**
+ * Open a sql.js database with the schema created or migrated
+ */
+async function openSqlJsDatabase(config: ConnectionConfig): Promise<SqlJsDatabase> {
+  const {
+    wasmBinary,
+    enableVectorSearch = false,
+    existingData,
+    onBeforeMigrate,
+    skipMigrations = false
+  } = config;
+
+  const SQL = await loadSqlJs(wasmBinary);
+
+  const db = existingData 
+    ? new SQL.Database(existingData)
+    : new SQL.Database();
+
+  try {
+    if (!existingData) {
+      await applySchema(db, enableVectorSearch);
+    } else if (!skipMigrations) {
+      await migrateIfNeeded(SQL, db, enableVectorSearch, onBeforeMigrate);
+    }
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+
+  return db;
+}
+
+async function applySchema(db: SqlJsDatabase, enableVectorSearch: boolean): Promise<void> {
+  try {
+    db.run('BEGIN TRANSACTION');
+    
+    db.exec(SCHEMA_SQL);
+    
+    if (enableVectorSearch) {
+      try {
+        db.exec(VEC0_TABLE_SQL);
+      } catch (vecError) {
+        console.warn('Vector search table creation failed (sqlite-vec extension not available):', vecError);
+      }
+    }
+    
+    db.run('INSERT INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)', [
+      SCHEMA_VERSION,
+      Date.now(),
+      'Initial schema'
+    ]);
+    
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw new DatabaseInitError(
+      `Failed to create schema: ${error instanceof Error ? error.message : String(error)}`,
+      'SCHEMA_CREATION_FAILED'
+    );
+  }
+}
+
+/**
+ * Bring an existing database up to SCHEMA_VERSION
+ *
+ * Each pending migration runs in its own transaction and is recorded in
+ * schema_migrations, and the result is checked against a new database. The
+ * database is snapshotted first; if any step or the check fails, the
+ * partially upgraded handle is discarded and the snapshot is returned on the
+ * MIGRATION_FAILED error so callers can fall back to the original data.
+ */
+async function migrateIfNeeded(
+  SQL: SqlJsStatic,
+  db: SqlJsDatabase,
+  enableVectorSearch: boolean,
+  onBeforeMigrate?: ConnectionConfig['onBeforeMigrate']
+): Promise<void> {
+  let currentVersion: number;
+
+  try {
+    const result = db.exec('SELECT version FROM schema_migrations ORDER BY version DESC LIMIT 1');
+    
+    if (result.length === 0 || !result[0].values.length) {
+      await applySchema(db, enableVectorSearch);
+      return;
+    }
+
+    currentVersion = result[0].values[0][0] as number;
+  } catch (error) {
+    if ((error as Error).message.includes('no such table: schema_migrations')) {
+      await applySchema(db, enableVectorSearch);
+      return;
+    }
+    throw new DatabaseInitError(
+      `Migration failed: ${error instanceof Error ? error.message : String(error)}`,
+      'MIGRATION_FAILED'
+    );
+  }
+
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new DatabaseInitError(
+      `Database schema version ${currentVersion} is newer than supported version ${SCHEMA_VERSION}`,
+      'MIGRATION_FAILED'
+    );
+  }
+
+  const pending = getPendingMigrations(currentVersion);
+  if (pending.length === 0) {
+    return;
+  }
+
+  validateMigrations();
+  console.log(`Migrating database from version ${currentVersion} to ${SCHEMA_VERSION}`);
+
+  const snapshot = db.export();
+  if (onBeforeMigrate) {
+    await onBeforeMigrate(snapshot, currentVersion);
+  }
+
+  for (const migration of pending) {
+    try {
+      db.run('BEGIN TRANSACTION');
+      migration.up(db);
+      db.run(
+        'INSERT INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)',
+        [migration.version, Date.now(), migration.description]
+      );
+      db.run('COMMIT');
+      console.log(`Applied migration ${migration.version}: ${migration.description}`);
+    } catch (error) {
+      try {
+        db.run('ROLLBACK');
+      } catch {
+        // Transaction may already have been rolled back by SQLite
+      }
+
+      // Discard the partially upgraded handle; the snapshot holds the pre-migration state
+      db.close();
+
+      throw new DatabaseInitError(
+        `Migration ${migration.version} (${migration.description}) failed: ` +
+        `${error instanceof Error ? error.message : String(error)}. ` +
+        `Rolled back to version ${currentVersion}.`,
+        'MIGRATION_FAILED',
+        snapshot
+      );
+    }
+  }
+
+  // A step that misses part of the schema fails here rather than in later queries
+  const expected = new SQL.Database();
+  let missing: string[];
+  try {
+    expected.exec(SCHEMA_SQL);
+    missing = findMissingSchema(db, expected);
+  } finally {
+    expected.close();
+  }
+
+  if (missing.length > 0) {
+    db.close();
+    throw new DatabaseInitError(
+      `Migration from version ${currentVersion} left out ${missing.join(', ')}. ` +
+      `Rolled back to version ${currentVersion}.`,
+      'MIGRATION_FAILED',
+      snapshot
+    );
+  }
+}
+
+/**
+ * Replace the contents of an open connection with serialized data (e.g. a snapshot).
+ * The data is migrated first, so older snapshots can be restored safely.
+ */
+export async function restoreConnection(
+  connection: Connection,
+  data: Uint8Array,
+  config: ConnectionConfig = {}
+): Promise<void> {
+  if (!(connection instanceof SqlConnection)) {
+    throw new Error('restoreConnection requires a connection created by openConnection');
+  }
+
+  connection.replaceConnection(await openSqlJsDatabase({ ...config, existingData: data }));
+}
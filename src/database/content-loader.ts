@@ -0,0 +1,95 @@
+/**
+ * Document Content Loader for QMD Search
+ * Loads document bodies and chunk text on demand, from the index when it
+ * stores them and from the vault file otherwise (contentless mode).
+ * Vault files go through the same extractors as when they were indexed,
+ * and their embeds are expanded if the index expands them.
+ */
+
+import { TFile, type Vault } from 'obsidian';
+import type { RemoteIndexRepository } from './repository';
+import { DocumentChunker } from '../embeddings/chunker';
+import { DEFAULT_NORMALIZER_RULES, MarkdownNormalizer, plainTextDocument } from './normalizer';
+import { splitSections } from './sections';
+import { createDefaultExtractorRegistry, type ExtractedDocument, type ExtractorRegistry } from './extractors';
+import { TransclusionExpander } from './transclusions';
+import { createVaultLinkResolver, type LinkResolver } from './links';
+
+export class DocumentContentLoader {
+  private chunker = new DocumentChunker();
+
+  /**
+   * @param repository - Shared index repository
+   * @param vault - Vault to read bodies from when the index does not store them
+   * @param extractors - Extractors used to index vault files
+   * @param resolveLink - Resolves embedded notes like the indexer (default: exact paths only)
+   */
+  constructor(
+    private repository: RemoteIndexRepository,
+    private vault?: Vault,
+    private extractors: ExtractorRegistry = createDefaultExtractorRegistry(),
+    private resolveLink?: LinkResolver
+  ) {}
+
+  /**
+   * Full body of a document, or '' if it is neither stored nor in the vault
+   */
+  async loadContent(hash: string, path: string): Promise<string> {
+    const stored = await this.repository.getDocumentContent(hash);
+    if (stored !== null) {
+      return stored;
+    }
+    return (await this.readVaultFile(path)).content;
+  }
+
+  /**
+   * Normalized search text of a document, normalizing the vault file with
+   * the index's rules if it is not stored
+   */
+  async loadSearchText(hash: string, path: string): Promise<string> {
+    const stored = await this.repository.getSearchText(hash);
+    if (stored !== null) {
+      return stored;
+    }
+
+    const { content, format } = await this.readVaultFile(path);
+    if (format === 'text') {
+      return plainTextDocument(content).text;
+    }
+    const rules = await this.repository.getNormalizerRules();
+    const normalizer = new MarkdownNormalizer({ ...DEFAULT_NORMALIZER_RULES, ...rules });
+    const transclusion = await this.repository.getTransclusionOptions();
+    const embeds = this.vault && transclusion?.enabled && path.endsWith('.md')
+      ? (await new TransclusionExpander(this.vault, this.resolveLink ?? createVaultLinkResolver(this.vault))
+        .expand(path, content, transclusion.maxDepth)).embeds
+      : undefined;
+    return normalizer.normalizeDocument(content, splitSections(content), embeds).text;
+  }
+
+  /**
+   * Text of one embedded chunk, re-chunking the search text if it is not stored
+   */
+  async loadChunkText(hash: string, path: string, seq: number): Promise<string> {
+    const stored = await this.repository.getChunkText(`${hash}_${seq}`);
+    if (stored !== null) {
+      return stored;
+    }
+
+    const text = await this.loadSearchText(hash, path);
+    const chunk = this.chunker.chunkDocument(hash, text).find(c => c.seq === seq);
+    return chunk?.text ?? '';
+  }
+
+  private async readVaultFile(path: string): Promise<ExtractedDocument> {
+    const file = this.vault?.getAbstractFileByPath(path);
+    if (!this.vault || !(file instanceof TFile) || !this.extractors.supports(file.extension)) {
+      return { content: '', format: 'text' };
+    }
+    try {
+      return this.extractors.extract(path, await this.vault.cachedRead(file));
+    } catch (error) {
+      console.warn(`[QMD] Could not extract text from ${path}:`, error);
+      return { content: '', format: 'text' };
+    }
+  }
+}
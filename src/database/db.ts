@@ -1,172 +1,321 @@
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
-import { SCHEMA_SQL, VEC0_TABLE_SQL, SCHEMA_VERSION } from './schema';
+/**
+ * Database Client for QMD Search
+ * Async access to the SQLite index, which lives in a dedicated worker
+ * (db.worker.ts) so indexing, search and maintenance never block the editor.
+ */
+
+import type { DataAdapter } from 'obsidian';
+import type { QueryExecResult } from './connection';
+import type { RemoteIndexRepository, RepositoryMethod } from './repository';
+import {
+  DatabaseInitError,
+  DatabaseWorkerError,
+  deserializeError,
+  type OpenOptions,
+  type PluginToWorkerMessage,
+  type WorkerMethod,
+  type WorkerState,
+  type WorkerToPluginMessage,
+} from './worker-protocol';
+// @ts-ignore - bundled as source text by the inline-worker esbuild plugin
+import workerSource from './db.worker';
 // @ts-ignore - esbuild will bundle this as a file
-import wasmBinary from 'sql.js/dist/sql-wasm.wasm';
+import wasmFileName from 'sql.js/dist/sql-wasm.wasm';
 
-type SqlValue = number | string | Uint8Array | null;
+export { DatabaseInitError, DatabaseWorkerError };
+export type { SqlValue, QueryExecResult } from './connection';
 
-interface QueryExecResult {
-  columns: string[];
-  values: SqlValue[][];
+export interface Database {
+  run(sql: string, params?: unknown[]): Promise<void>;
+  exec(sql: string): Promise<QueryExecResult[]>;
+  /**
+   * Serialize the database. Fails with BUSY while a transaction is open
+   * unless force is set (the open transaction is then abandoned).
+   */
+  export(options?: { force?: boolean }): Promise<Uint8Array>;
+  close(): Promise<void>;
+  /** Monotonic count of row changes, as of the last completed request */
+  getChangeCount(): number;
+  /** True while an explicit BEGIN ... COMMIT/ROLLBACK block is open, as of the last completed request */
+  isInTransaction(): boolean;
+  /** Index queries, executed by the worker */
+  readonly repository: RemoteIndexRepository;
 }
 
-interface Statement {
-  bind(params?: SqlValue[] | Record<string, SqlValue> | null): boolean;
-  step(): boolean;
-  get(): SqlValue[];
-  getAsObject(): Record<string, SqlValue>;
-  free(): boolean;
+export interface DatabaseConfig {
+  /** sql.js WebAssembly binary, see readWasmBinary() */
+  wasmBinary: ArrayBuffer;
+  enableVectorSearch?: boolean;
+  existingData?: Uint8Array;
+  /** Called with the current contents before pending migrations are applied */
+  onBeforeMigrate?: (data: Uint8Array, fromVersion: number) => Promise<void>;
+  /**
+   * Open existingData at its own schema version instead of migrating it, so
+   * an index whose upgrade failed can still be searched. Queries on tables or
+   * columns added by later versions fail.
+   */
+  skipMigrations?: boolean;
 }
 
-export interface Database {
-  run(sql: string, params?: unknown[]): void;
-  exec(sql: string): QueryExecResult[];
-  prepare(sql: string): Statement;
-  close(): void;
-  export(): Uint8Array;
+type BeforeMigrateHandler = DatabaseConfig['onBeforeMigrate'];
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
 }
 
-class DatabaseWrapper implements Database {
-  constructor(private db: SqlJsDatabase) {}
+/**
+ * Read the sql.js WebAssembly binary shipped next to main.js
+ */
+export async function readWasmBinary(adapter: DataAdapter, pluginDir: string): Promise<ArrayBuffer> {
+  const fileName = String(wasmFileName).replace(/^\.\//, '');
+  try {
+    return await adapter.readBinary(`${pluginDir}/${fileName}`);
+  } catch (error) {
+    throw new DatabaseInitError(
+      `Failed to read ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+      'SQLJS_LOAD_FAILED'
+    );
+  }
+}
+
+class WorkerDatabase implements Database {
+  readonly repository: RemoteIndexRepository;
+  private worker: Worker;
+  private workerUrl: string;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 1;
+  private state: WorkerState = { changeCount: 0, inTransaction: false };
+  private beforeMigrate: BeforeMigrateHandler;
+  private closed = false;
+  /** Settles when the last transaction started has ended */
+  private transactionTail: Promise<void> = Promise.resolve();
 
-  run(sql: string, params?: unknown[]): void {
-    this.db.run(sql, params as SqlValue[]);
+  constructor() {
+    this.workerUrl = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+    this.worker = new Worker(this.workerUrl);
+    this.worker.onmessage = (event: MessageEvent<WorkerToPluginMessage>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(new DatabaseWorkerError(`Database worker crashed: ${event.message}`, 'CRASHED'));
+    };
+    this.repository = this.createRepository();
   }
 
-  exec(sql: string): QueryExecResult[] {
-    return this.db.exec(sql);
+  async open(config: DatabaseConfig): Promise<void> {
+    const options: OpenOptions = {
+      wasmBinary: config.wasmBinary,
+      enableVectorSearch: config.enableVectorSearch,
+      existingData: config.existingData,
+      notifyBeforeMigrate: !!config.onBeforeMigrate,
+      skipMigrations: config.skipMigrations,
+    };
+
+    this.beforeMigrate = config.onBeforeMigrate;
+    try {
+      await this.request('open', [options]);
+    } finally {
+      this.beforeMigrate = undefined;
+    }
   }
 
-  prepare(sql: string): Statement {
-    return this.db.prepare(sql);
+  /**
+   * Replace the database contents, migrating them first
+   */
+  async restore(data: Uint8Array, onBeforeMigrate?: BeforeMigrateHandler): Promise<void> {
+    this.beforeMigrate = onBeforeMigrate;
+    try {
+      await this.request('restore', [data, !!onBeforeMigrate]);
+    } finally {
+      this.beforeMigrate = undefined;
+    }
   }
 
-  close(): void {
-    this.db.close();
+  async run(sql: string, params?: unknown[]): Promise<void> {
+    await this.request('run', [sql, params]);
   }
 
-  export(): Uint8Array {
-    return this.db.export();
+  async exec(sql: string): Promise<QueryExecResult[]> {
+    return this.request('exec', [sql]) as Promise<QueryExecResult[]>;
   }
-}
 
-export class DatabaseInitError extends Error {
-  constructor(
-    message: string,
-    public readonly code: 
-      | 'SQLJS_LOAD_FAILED'
-      | 'VEC_EXTENSION_MISSING'
-      | 'SCHEMA_CREATION_FAILED'
-      | 'MIGRATION_FAILED'
-  ) {
-    super(message);
-    this.name = 'DatabaseInitError';
+  async export(options?: { force?: boolean }): Promise<Uint8Array> {
+    return this.request('export', [options?.force ?? false]) as Promise<Uint8Array>;
   }
-}
 
-export interface DatabaseConfig {
-  wasmUrl?: string;
-  enableVectorSearch?: boolean;
-  existingData?: Uint8Array;
-}
+  async close(): Promise<void> {
+    if (this.closed) return;
 
-export async function initDatabase(config: DatabaseConfig = {}): Promise<Database> {
-  const {
-    wasmUrl,
-    enableVectorSearch = false,
-    existingData
-  } = config;
+    try {
+      await this.request('close', []);
+    } finally {
+      this.terminate();
+    }
+  }
 
-  try {
-    const SQL = await initSqlJs({
-      locateFile: (file) => {
-        // Use explicit wasmUrl if provided, otherwise use bundled WASM
-        if (wasmUrl) return wasmUrl;
-        // esbuild will replace this import with the actual path
-        return wasmBinary;
-      }
+  getChangeCount(): number {
+    return this.state.changeCount;
+  }
+
+  isInTransaction(): boolean {
+    return this.state.inTransaction;
+  }
+
+  /**
+   * Stop the worker without closing the database first
+   */
+  terminate(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.worker.terminate();
+    URL.revokeObjectURL(this.workerUrl);
+    this.fail(new DatabaseWorkerError('Database is closed', 'CLOSED'));
+  }
+
+  private request(method: WorkerMethod, args: unknown[]): Promise<unknown> {
+    if (this.closed) {
+      return Promise.reject(new DatabaseWorkerError('Database is closed', 'CLOSED'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const message: PluginToWorkerMessage = { type: 'request', id, method, args };
+      this.worker.postMessage(message);
     });
-    
-    const db = existingData 
-      ? new SQL.Database(existingData)
-      : new SQL.Database();
+  }
 
-    if (!existingData) {
-      await applySchema(db, enableVectorSearch);
+  private handleMessage(message: WorkerToPluginMessage): void {
+    if (message.type === 'callback') {
+      this.handleCallback(message.callbackId, message.args);
+      return;
+    }
+
+    this.state = message.state;
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+
+    if (message.ok) {
+      pending.resolve(message.result);
     } else {
-      await migrateIfNeeded(db, enableVectorSearch);
+      pending.reject(deserializeError(message.error));
     }
+  }
 
-    return new DatabaseWrapper(db);
+  private handleCallback(callbackId: number, args: unknown[]): void {
+    const handler = this.beforeMigrate;
+    const reply = (error?: string) => {
+      const message: PluginToWorkerMessage = { type: 'callback-result', callbackId, error };
+      this.worker.postMessage(message);
+    };
 
-  } catch (error) {
-    throw new DatabaseInitError(
-      `Failed to initialize database: ${error instanceof Error ? error.message : String(error)}`,
-      'SQLJS_LOAD_FAILED'
-    );
+    if (!handler) {
+      reply();
+      return;
+    }
+
+    handler(args[0] as Uint8Array, args[1] as number)
+      .then(() => reply())
+      .catch((error) => reply(error instanceof Error ? error.message : String(error)));
   }
-}
 
-async function applySchema(db: SqlJsDatabase, enableVectorSearch: boolean): Promise<void> {
-  try {
-    db.run('BEGIN TRANSACTION');
-    
-    db.exec(SCHEMA_SQL);
-    
-    if (enableVectorSearch) {
+  private fail(error: Error): void {
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Build the repository proxy: each method call becomes one worker request
+   */
+  private createRepository(): RemoteIndexRepository {
+    // BEGIN, the work and COMMIT are separate requests, so a second caller
+    // waits for the open transaction to end instead of interleaving with it
+    const transaction = async <T>(work: () => Promise<T>): Promise<T> => {
+      const previous = this.transactionTail;
+      let release!: () => void;
+      this.transactionTail = new Promise(resolve => {
+        release = resolve;
+      });
+      await previous;
+
       try {
-        db.exec(VEC0_TABLE_SQL);
-      } catch (vecError) {
-        console.warn('Vector search table creation failed (sqlite-vec extension not available):', vecError);
+        await this.run('BEGIN TRANSACTION');
+        try {
+          const result = await work();
+          await this.run('COMMIT');
+          return result;
+        } catch (error) {
+          try {
+            await this.run('ROLLBACK');
+          } catch (rollbackError) {
+            // Keep the original error; SQLite may already have rolled back
+            console.warn('[QMD] Rollback failed:', rollbackError);
+          }
+          throw error;
+        }
+      } finally {
+        release();
       }
-    }
-    
-    db.run('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)', [
-      SCHEMA_VERSION,
-      Date.now()
-    ]);
-    
-    db.run('COMMIT');
+    };
+
+    return new Proxy({ transaction } as RemoteIndexRepository, {
+      get: (target, property) => {
+        if (property === 'transaction') {
+          return target.transaction;
+        }
+        if (typeof property !== 'string' || property === 'then') {
+          return undefined;
+        }
+        return (...args: unknown[]) => this.request('repository', [property as RepositoryMethod, args]);
+      },
+    });
+  }
+}
+
+export async function initDatabase(config: DatabaseConfig): Promise<Database> {
+  let db: WorkerDatabase;
+  try {
+    db = new WorkerDatabase();
   } catch (error) {
-    db.run('ROLLBACK');
     throw new DatabaseInitError(
-      `Failed to create schema: ${error instanceof Error ? error.message : String(error)}`,
-      'SCHEMA_CREATION_FAILED'
+      `Failed to start database worker: ${error instanceof Error ? error.message : String(error)}`,
+      'WORKER_FAILED'
     );
   }
-}
 
-async function migrateIfNeeded(db: SqlJsDatabase, enableVectorSearch: boolean): Promise<void> {
   try {
-    const result = db.exec('SELECT version FROM schema_migrations ORDER BY version DESC LIMIT 1');
-    
-    if (result.length === 0 || !result[0].values.length) {
-      await applySchema(db, enableVectorSearch);
-      return;
-    }
-
-    const currentVersion = result[0].values[0][0] as number;
-    
-    if (currentVersion < SCHEMA_VERSION) {
-      console.log(`Migrating database from version ${currentVersion} to ${SCHEMA_VERSION}`);
-    }
-
+    await db.open(config);
   } catch (error) {
-    if ((error as Error).message.includes('no such table: schema_migrations')) {
-      await applySchema(db, enableVectorSearch);
-    } else {
-      throw new DatabaseInitError(
-        `Migration failed: ${error instanceof Error ? error.message : String(error)}`,
-        'MIGRATION_FAILED'
-      );
-    }
+    db.terminate();
+    throw error;
   }
+
+  return db;
 }
 
-export async function loadDatabase(data: Uint8Array, config: DatabaseConfig = {}): Promise<Database> {
+export async function loadDatabase(data: Uint8Array, config: DatabaseConfig): Promise<Database> {
   return initDatabase({ ...config, existingData: data });
 }
 
-export function serializeDatabase(db: Database): Uint8Array {
+/**
+ * Replace the contents of an open database with serialized data (e.g. a snapshot).
+ * The data is migrated first, so older snapshots can be restored safely.
+ */
+export async function restoreDatabase(
+  db: Database,
+  data: Uint8Array,
+  config: Pick<DatabaseConfig, 'onBeforeMigrate'> = {}
+): Promise<void> {
+  if (!(db instanceof WorkerDatabase)) {
+    throw new Error('restoreDatabase requires a database created by initDatabase');
+  }
+
+  await db.restore(data, config.onBeforeMigrate);
+}
+
+export function serializeDatabase(db: Database): Promise<Uint8Array> {
   return db.export();
 }
@@ -0,0 +1,179 @@
+/**
+ * Database Worker for QMD Search
+ * Owns the sql.js connection and the index repository so that queries,
+ * indexing writes, migrations and VACUUM never run on Obsidian's UI thread.
+ *
+ * Bundled as source text by the inline-worker esbuild plugin and started
+ * from db.ts. Requests are handled strictly in arrival order.
+ */
+
+import { openConnection, restoreConnection, type Connection, type ConnectionConfig } from './connection';
+import { IndexRepository } from './repository';
+import {
+  DatabaseWorkerError,
+  serializeError,
+  type OpenOptions,
+  type PluginToWorkerMessage,
+  type RepositoryCall,
+  type WorkerCallbackName,
+  type WorkerMethod,
+  type WorkerState,
+  type WorkerToPluginMessage,
+} from './worker-protocol';
+
+interface WorkerScope {
+  postMessage(message: WorkerToPluginMessage, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<PluginToWorkerMessage>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let connection: Connection | null = null;
+let repository: IndexRepository | null = null;
+let wasmBinary: ArrayBuffer | undefined;
+let enableVectorSearch = false;
+
+let queue: Promise<void> = Promise.resolve();
+let nextCallbackId = 1;
+const pendingCallbacks = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+
+/**
+ * Ask the plugin to run a callback and wait for it to finish
+ */
+function invokeCallback(name: WorkerCallbackName, args: unknown[]): Promise<void> {
+  const callbackId = nextCallbackId++;
+  return new Promise((resolve, reject) => {
+    pendingCallbacks.set(callbackId, { resolve, reject });
+    scope.postMessage({ type: 'callback', callbackId, name, args });
+  });
+}
+
+function requireConnection(): Connection {
+  if (!connection) {
+    throw new DatabaseWorkerError('Database is not open', 'NOT_OPEN');
+  }
+  return connection;
+}
+
+function requireRepository(): IndexRepository {
+  if (!repository) {
+    throw new DatabaseWorkerError('Database is not open', 'NOT_OPEN');
+  }
+  return repository;
+}
+
+function connectionConfig(notifyBeforeMigrate?: boolean): ConnectionConfig {
+  return {
+    wasmBinary,
+    enableVectorSearch,
+    onBeforeMigrate: notifyBeforeMigrate
+      ? (data, fromVersion) => invokeCallback('beforeMigrate', [data, fromVersion])
+      : undefined,
+  };
+}
+
+function currentState(): WorkerState {
+  if (!connection) {
+    return { changeCount: 0, inTransaction: false };
+  }
+  try {
+    return {
+      changeCount: connection.getChangeCount(),
+      inTransaction: connection.isInTransaction(),
+    };
+  } catch {
+    return { changeCount: 0, inTransaction: false };
+  }
+}
+
+async function handleRequest(method: WorkerMethod, args: unknown[]): Promise<unknown> {
+  switch (method) {
+    case 'open': {
+      const options = args[0] as OpenOptions;
+      wasmBinary = options.wasmBinary;
+      enableVectorSearch = options.enableVectorSearch ?? false;
+      connection = await openConnection({
+        ...connectionConfig(options.notifyBeforeMigrate),
+        existingData: options.existingData,
+        skipMigrations: options.skipMigrations,
+      });
+      repository = new IndexRepository(connection);
+      return undefined;
+    }
+
+    case 'restore': {
+      const [data, notifyBeforeMigrate] = args as [Uint8Array, boolean | undefined];
+      await restoreConnection(requireConnection(), data, connectionConfig(notifyBeforeMigrate));
+      return undefined;
+    }
+
+    case 'run': {
+      const [sql, params] = args as [string, unknown[] | undefined];
+      requireConnection().run(sql, params);
+      return undefined;
+    }
+
+    case 'exec':
+      return requireConnection().exec(args[0] as string);
+
+    case 'export': {
+      const db = requireConnection();
+      // Exporting reopens the sql.js connection, which would drop an open transaction
+      if (db.isInTransaction() && !args[0]) {
+        throw new DatabaseWorkerError('Cannot export while a transaction is open', 'BUSY');
+      }
+      return db.export();
+    }
+
+    case 'close':
+      repository?.clearStatementCache();
+      connection?.close();
+      repository = null;
+      connection = null;
+      return undefined;
+
+    case 'repository': {
+      const [name, callArgs] = args as RepositoryCall;
+      const repo = requireRepository();
+      const fn = repo[name] as unknown;
+      if (typeof fn !== 'function' || (name as string) === 'constructor') {
+        throw new DatabaseWorkerError(`Unknown repository method: ${String(name)}`, 'QUERY_FAILED');
+      }
+      return (fn as (...params: unknown[]) => unknown).apply(repo, callArgs);
+    }
+  }
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+
+  if (message.type === 'callback-result') {
+    const pending = pendingCallbacks.get(message.callbackId);
+    pendingCallbacks.delete(message.callbackId);
+    if (message.error) {
+      pending?.reject(new Error(message.error));
+    } else {
+      pending?.resolve();
+    }
+    return;
+  }
+
+  queue = queue.then(async () => {
+    try {
+      const result = await handleRequest(message.method, message.args);
+      const transfer = result instanceof Uint8Array ? [result.buffer] : [];
+      scope.postMessage(
+        { type: 'response', id: message.id, ok: true, result, state: currentState() },
+        transfer
+      );
+    } catch (error) {
+      scope.postMessage({
+        type: 'response',
+        id: message.id,
+        ok: false,
+        error: serializeError(error),
+        state: currentState(),
+      });
+    }
+  });
+};
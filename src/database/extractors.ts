@@ -0,0 +1,258 @@
+/**
+ * Text Extractors for QMD Search
+ * Turns vault files into indexable text by file extension: markdown is
+ * indexed as written, canvases as the markdown of their cards, and plain
+ * text, CSV and source files as plain text.
+ */
+
+/**
+ * How extracted text is indexed
+ * - markdown: frontmatter, links and headings are extracted and the text is normalized
+ * - text: indexed as is, as a single section
+ */
+export type ExtractedFormat = 'markdown' | 'text';
+
+export interface ExtractedDocument {
+  /** Text that is stored, displayed and indexed for the file */
+  content: string;
+  format: ExtractedFormat;
+}
+
+export interface TextExtractor {
+  /** Extensions handled, lowercase without the dot */
+  extensions: readonly string[];
+  format: ExtractedFormat;
+  /** @throws {ExtractorError} If the file cannot be parsed */
+  extract(raw: string, path: string): string;
+}
+
+export class ExtractorError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'UNSUPPORTED_TYPE' | 'PARSE_ERROR'
+  ) {
+    super(message);
+    this.name = 'ExtractorError';
+  }
+}
+
+/**
+ * Extractors by file extension; a later registration replaces an earlier one
+ *
+ * @example
+ * ```typescript
+ * const extractors = createDefaultExtractorRegistry();
+ * extractors.register({ extensions: ['org'], format: 'text', extract: raw => raw });
+ * const { content, format } = extractors.extract('Board.canvas', raw);
+ * ```
+ */
+export class ExtractorRegistry {
+  private extractors = new Map<string, TextExtractor>();
+
+  register(extractor: TextExtractor): void {
+    for (const extension of extractor.extensions) {
+      this.extractors.set(extension.toLowerCase(), extractor);
+    }
+  }
+
+  supports(extension: string): boolean {
+    return this.extractors.has(extension.toLowerCase());
+  }
+
+  getExtensions(): string[] {
+    return Array.from(this.extractors.keys()).sort();
+  }
+
+  /**
+   * @throws {ExtractorError} If no extractor handles the file or it cannot be parsed
+   */
+  extract(path: string, raw: string): ExtractedDocument {
+    const extension = fileExtension(path);
+    const extractor = this.extractors.get(extension);
+    if (!extractor) {
+      throw new ExtractorError(`No extractor for ".${extension}" files: ${path}`, 'UNSUPPORTED_TYPE');
+    }
+    return { content: extractor.extract(raw, path), format: extractor.format };
+  }
+}
+
+function fileExtension(path: string): string {
+  const name = path.split('/').pop() ?? path;
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+}
+
+// ---------------------------------------------------------------------------
+// Built-in extractors
+// ---------------------------------------------------------------------------
+
+export const markdownExtractor: TextExtractor = {
+  extensions: ['md'],
+  format: 'markdown',
+  extract: raw => raw,
+};
+
+export const plainTextExtractor: TextExtractor = {
+  extensions: ['txt'],
+  format: 'text',
+  extract: raw => raw,
+};
+
+/**
+ * CSV rows as lines of space-separated cells, so delimiters and quotes are
+ * not indexed
+ */
+export const csvExtractor: TextExtractor = {
+  extensions: ['csv'],
+  format: 'text',
+  extract: raw => parseCsv(raw)
+    .map(row => row.map(cell => cell.trim()).filter(Boolean).join(' '))
+    .filter(line => line.length > 0)
+    .join('\n'),
+};
+
+export const SOURCE_CODE_EXTENSIONS = [
+  'js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx', 'py', 'rb', 'php', 'java', 'kt', 'swift', 'go', 'rs',
+  'c', 'h', 'cpp', 'hpp', 'cs', 'sh', 'sql', 'lua', 'r', 'css', 'scss', 'html', 'json', 'yaml',
+  'yml', 'toml', 'xml',
+] as const;
+
+export const sourceCodeExtractor: TextExtractor = {
+  extensions: SOURCE_CODE_EXTENSIONS,
+  format: 'text',
+  extract: raw => raw,
+};
+
+/**
+ * JSON Canvas node and edge, see https://jsoncanvas.org
+ */
+interface CanvasNode {
+  id: string;
+  type: 'text' | 'file' | 'link' | 'group' | string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+}
+
+interface CanvasEdge {
+  label?: string;
+}
+
+/**
+ * Canvas cards as markdown: cards outside groups and edge labels come first,
+ * then each group as a heading over the cards inside it. File cards become
+ * [[links]], so they count as backlinks.
+ */
+export const canvasExtractor: TextExtractor = {
+  extensions: ['canvas'],
+  format: 'markdown',
+  extract: (raw, path) => {
+    let data: { nodes?: CanvasNode[]; edges?: CanvasEdge[] };
+    try {
+      data = raw.trim() ? JSON.parse(raw) : {};
+    } catch {
+      throw new ExtractorError(`Invalid canvas JSON: ${path}`, 'PARSE_ERROR');
+    }
+
+    const nodes = (data.nodes ?? []).slice().sort((a, b) => a.y - b.y || a.x - b.x);
+    const groups = nodes.filter(node => node.type === 'group');
+    const cards = nodes.filter(node => node.type !== 'group');
+
+    // A card belongs to the smallest group that contains it
+    const members = new Map<CanvasNode | null, string[]>([[null, []]]);
+    for (const group of groups) members.set(group, []);
+    for (const card of cards) {
+      const text = canvasCardText(card);
+      if (!text) continue;
+      const group = groups
+        .filter(candidate => containsNode(candidate, card))
+        .sort((a, b) => a.width * a.height - b.width * b.height)[0] ?? null;
+      members.get(group)?.push(text);
+    }
+
+    const parts = [...(members.get(null) ?? [])];
+    const edgeLabels = (data.edges ?? []).map(edge => edge.label?.trim()).filter(Boolean);
+    if (edgeLabels.length > 0) {
+      parts.push(edgeLabels.join('\n'));
+    }
+    for (const group of groups) {
+      const heading = group.label?.trim();
+      if (heading) parts.push(`## ${heading}`);
+      parts.push(...(members.get(group) ?? []));
+    }
+    return parts.join('\n\n');
+  },
+};
+
+function canvasCardText(node: CanvasNode): string {
+  if (node.type === 'text') return node.text?.trim() ?? '';
+  if (node.type === 'file' && node.file) return `[[${node.file}${node.subpath ?? ''}]]`;
+  if (node.type === 'link' && node.url) return node.url;
+  return '';
+}
+
+function containsNode(group: CanvasNode, node: CanvasNode): boolean {
+  return node.x >= group.x && node.y >= group.y
+    && node.x + node.width <= group.x + group.width
+    && node.y + node.height <= group.y + group.height;
+}
+
+/**
+ * Parse CSV with quoted cells ("a, b" and "say ""hi""")
+ */
+function parseCsv(raw: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quoted) {
+      if (char === '"' && raw[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      row.push(cell.replace(/\r$/, ''));
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Registry with the built-in extractors for markdown, canvas, plain text,
+ * CSV and source code
+ */
+export function createDefaultExtractorRegistry(): ExtractorRegistry {
+  const registry = new ExtractorRegistry();
+  registry.register(markdownExtractor);
+  registry.register(canvasExtractor);
+  registry.register(plainTextExtractor);
+  registry.register(csvExtractor);
+  registry.register(sourceCodeExtractor);
+  return registry;
+}
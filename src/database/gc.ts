@@ -0,0 +1,86 @@
+/**
+ * Index Garbage Collector for QMD Search
+ * Deleted and moved-away files only deactivate their documents, so they can
+ * come back cheaply. Once they have been inactive for the retention period,
+ * the collector deletes them with their chunks and embeddings and compacts
+ * the database.
+ */
+
+import type { GarbageCollectionReport, RemoteIndexRepository } from './repository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @example
+ * ```typescript
+ * const collector = new IndexGarbageCollector(repository, () => settings.purgeRetentionDays);
+ * const report = await collector.collect();
+ * console.log(formatGarbageCollection(report)); // "12 documents, 48 chunks purged · 1.2 MB reclaimed"
+ * ```
+ */
+export class IndexGarbageCollector {
+  /**
+   * @param getRetentionDays - Days a document stays inactive before it is purged (0 = purge right away)
+   */
+  constructor(
+    private repository: RemoteIndexRepository,
+    private getRetentionDays: () => number
+  ) {}
+
+  /**
+   * Purge documents inactive for longer than the retention period
+   *
+   * The database is only vacuumed when something was purged; VACUUM fails
+   * while a transaction is open, so do not call this from inside one.
+   */
+  async collect(): Promise<GarbageCollectionReport> {
+    const repository = this.repository;
+    const retentionDays = Math.max(0, this.getRetentionDays());
+    const startedAt = Date.now();
+    const sizeBefore = await repository.getDatabaseSize();
+
+    const purged = await repository.transaction(() =>
+      repository.purgeInactiveDocuments(startedAt - retentionDays * DAY_MS));
+    if (purged.documents > 0 || purged.chunks > 0) {
+      await repository.optimizeFts();
+      await repository.vacuum();
+    }
+
+    const databaseSize = await repository.getDatabaseSize();
+    const report: GarbageCollectionReport = {
+      ...purged,
+      finishedAt: Date.now(),
+      retentionDays,
+      databaseSize,
+      reclaimedBytes: Math.max(0, sizeBefore - databaseSize),
+    };
+    await repository.setLastGarbageCollection(report);
+
+    if (purged.documents > 0) {
+      console.log(`[QMD] Garbage collection: ${formatGarbageCollection(report)}`);
+    }
+    return report;
+  }
+
+  getLastReport(): Promise<GarbageCollectionReport | null> {
+    return this.repository.getLastGarbageCollection();
+  }
+}
+
+/**
+ * Summarize a garbage collection, e.g. "12 documents, 48 chunks purged · 1.2 MB reclaimed"
+ */
+export function formatGarbageCollection(report: GarbageCollectionReport): string {
+  if (report.documents === 0 && report.chunks === 0) {
+    return 'Nothing to purge';
+  }
+  const documents = `${report.documents} document${report.documents === 1 ? '' : 's'}`;
+  const chunks = `${report.chunks} chunk${report.chunks === 1 ? '' : 's'}`;
+  return `${documents}, ${chunks} purged · ${formatBytes(report.reclaimedBytes)} reclaimed`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
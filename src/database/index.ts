@@ -1,23 +1,193 @@
 export { 
   initDatabase, 
   loadDatabase,
+  restoreDatabase,
   serializeDatabase,
+  readWasmBinary,
   type Database,
   type DatabaseConfig,
-  DatabaseInitError 
+  type SqlValue,
+  DatabaseInitError,
+  DatabaseWorkerError
 } from './db';
 
+export {
+  MIGRATIONS,
+  getPendingMigrations,
+  type Migration
+} from './migrations';
+
 export { 
   SCHEMA_VERSION,
   SCHEMA_SQL,
   VEC0_TABLE_SQL,
-  getSchemaVersion 
+  DEFAULT_CONTENT_STORAGE,
+  DEFAULT_FTS_TOKENIZER,
+  getSchemaVersion,
+  type ContentStorageMode,
+  type FtsTokenizer
 } from './schema';
 
+export { DocumentContentLoader } from './content-loader';
+
+export {
+  extractMetadata,
+  splitFrontmatter,
+  parseMetadataFilters,
+  MetadataFilterError,
+  type ExtractedMetadata,
+  type MetadataFilter,
+  type FilterOperator,
+  type PropertyValue,
+  type PropertyType
+} from './metadata';
+
+export {
+  extractLinks,
+  linkTargetName,
+  createVaultLinkResolver,
+  type ParsedLink,
+  type DocumentLink,
+  type LinkKind,
+  type LinkResolver
+} from './links';
+
+export { splitSections, type DocumentSection } from './sections';
+
+export {
+  extractTasks,
+  noteDateFromName,
+  taskState,
+  TASK_STATES,
+  type DocumentTask,
+  type TaskState
+} from './tasks';
+
+export {
+  extractBlocks,
+  findBlock,
+  type DocumentBlock,
+  type IndexedBlock
+} from './blocks';
+
+export {
+  TransclusionExpander,
+  replaceEmbeds,
+  DEFAULT_TRANSCLUSION_OPTIONS,
+  MAX_TRANSCLUSION_DEPTH,
+  type TransclusionOptions,
+  type ExpandedEmbeds
+} from './transclusions';
+
+export {
+  computeMinHash,
+  estimateJaccard,
+  encodeSignature,
+  decodeSignature,
+  MINHASH_PERMUTATIONS,
+  SHINGLE_SIZE,
+  type MinHashSignature
+} from './minhash';
+
+export {
+  ExtractorRegistry,
+  ExtractorError,
+  createDefaultExtractorRegistry,
+  markdownExtractor,
+  canvasExtractor,
+  plainTextExtractor,
+  csvExtractor,
+  sourceCodeExtractor,
+  SOURCE_CODE_EXTENSIONS,
+  type TextExtractor,
+  type ExtractedDocument,
+  type ExtractedFormat
+} from './extractors';
+
+export {
+  MarkdownNormalizer,
+  DEFAULT_NORMALIZER_RULES,
+  plainTextDocument,
+  type NormalizerRule,
+  type NormalizerRules,
+  type NormalizedDocument,
+  type IndexedSection
+} from './normalizer';
+
 export {
   DocumentIndexer,
+  METADATA_VERSION,
+  formatReconcileSummary,
+  formatReconcileDiff,
   type IndexedDocument,
+  type ReconcileResult,
   type IndexingResult,
   type IndexingProgress,
   type ProgressCallback
 } from './indexer';
+
+export type {
+  RemoteIndexRepository,
+  StoredChunk,
+  FtsMatch,
+  VectorMatch,
+  FtsQuery,
+  VectorQuery,
+  DocumentCounts,
+  DocumentMetadata,
+  DocumentFileState,
+  StoredEmbedding,
+  Backlink,
+  OutgoingLink,
+  LinkNeighbor,
+  UnresolvedLink,
+  SectionMatch,
+  BlockMatch,
+  RevisionPolicy,
+  RevisionQuery,
+  RevisionMatch,
+  TaskQuery,
+  TaskMatch,
+  ContentSignature,
+  PurgeCounts,
+  GarbageCollectionReport
+} from './repository';
+
+export {
+  IndexStorage,
+  IndexStorageError,
+  INDEX_FILE_NAME
+} from './storage';
+
+export {
+  IndexAutosaver,
+  type AutosaveStatus,
+  type AutosaveOptions
+} from './autosave';
+
+export {
+  IndexGarbageCollector,
+  formatGarbageCollection,
+  formatBytes
+} from './gc';
+
+export {
+  SnapshotManager,
+  SnapshotError,
+  SNAPSHOT_DIR_NAME,
+  type SnapshotInfo,
+  type SnapshotKind
+} from './snapshots';
+
+export {
+  IndexBundler,
+  BundleError,
+  parseIndexBundle,
+  serializeIndexBundle,
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BUNDLE_FILE_SUFFIX,
+  type IndexBundle,
+  type BundleEmbeddingInfo,
+  type BundleImportResult
+} from './bundle';
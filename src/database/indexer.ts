@@ -1,38 +1,52 @@
 /**
  * Document Indexer for QMD Search
- * Indexes markdown files from collections into SQLite with FTS5 support
+ * Indexes markdown, canvas and other text files from collections into SQLite
+ * with FTS5 support
  */
 
 import type { TFile, Vault } from 'obsidian';
-import type { Collection, CollectionManager } from '../collections/manager';
-
-// Re-export Database interface for consistency
-type SqlValue = number | string | Uint8Array | null;
-
-interface QueryExecResult {
-  columns: string[];
-  values: SqlValue[][];
-}
-
-interface Statement {
-  bind(params?: SqlValue[] | Record<string, SqlValue> | null): boolean;
-  step(): boolean;
-  get(): SqlValue[];
-  free(): boolean;
-}
-
-export interface Database {
-  run(sql: string, params?: unknown[]): void;
-  exec(sql: string): QueryExecResult[];
-  prepare(sql: string): Statement;
-}
+import type { CollectionManager } from '../collections/manager';
+import type { DocumentFileState, RemoteIndexRepository } from './repository';
+import { extractMetadata, splitFrontmatter, type ExtractedMetadata } from './metadata';
+import { splitSections } from './sections';
+import { computeMinHash, encodeSignature } from './minhash';
+import { extractTasks, noteDateFromName } from './tasks';
+import { extractBlocks, type IndexedBlock } from './blocks';
+import {
+  DEFAULT_TRANSCLUSION_OPTIONS,
+  TransclusionExpander,
+  type ExpandedEmbeds,
+  type TransclusionOptions
+} from './transclusions';
+import { MarkdownNormalizer, plainTextDocument, type NormalizerRules } from './normalizer';
+import {
+  createDefaultExtractorRegistry,
+  ExtractorError,
+  type ExtractedDocument,
+  type ExtractorRegistry
+} from './extractors';
+import {
+  createVaultLinkResolver,
+  extractLinks,
+  linkTargetName,
+  type DocumentLink,
+  type LinkResolver
+} from './links';
 
 export interface IndexedDocument {
+  /** Stable id of the document, kept across edits and renames */
+  id: number;
+  /**
+   * Full SHA-256 of the content (hex), and of its expanded embeds when
+   * embeds are expanded; identical notes share it
+   */
   hash: string;
   collectionId: number;
   path: string;
   title: string;
   content: string;
+  /** Normalized text that is indexed and embedded (not stored in contentless mode) */
+  searchText: string;
   createdAt: number;
   updatedAt: number;
 }
@@ -43,6 +57,52 @@ export interface IndexingResult {
   errors: string[];
 }
 
+/**
+ * Differences found and applied by a reconciliation pass
+ */
+export interface ReconcileResult {
+  /** Files indexed for the first time (or back after being removed) */
+  added: string[];
+  /** Files whose content changed */
+  updated: string[];
+  /** Indexed files that no longer exist or left their collection */
+  removed: string[];
+  unchanged: number;
+  skipped: number;
+  errors: string[];
+}
+
+/**
+ * A file moved or renamed in the vault
+ */
+export interface FileRename {
+  oldPath: string;
+  newPath: string;
+}
+
+/**
+ * What renaming files did to their documents
+ */
+export interface RenameResult {
+  /** Documents that followed their file, in the same collection */
+  moved: string[];
+  /** Documents that followed their file into another collection */
+  reassigned: string[];
+  /** Files that were not indexed before and now belong to a collection */
+  added: string[];
+  /** Documents whose file left every collection (or became excluded) */
+  removed: string[];
+  errors: string[];
+}
+
+/**
+ * A file to index and the collection it belongs to
+ */
+export interface IndexTarget {
+  file: TFile;
+  collectionId: number;
+}
+
 export interface IndexingProgress {
   current: number;
   total: number;
@@ -55,8 +115,16 @@ const LARGE_FILE_THRESHOLD = 10 * 1024 * 1024; // 10MB
 const BATCH_SIZE = 50; // Documents per batch for transactions
 
 /**
- * Generate 6-character hash from content using SHA-256
- * Returns base36 representation for compact storage
+ * Version of the metadata stored with each document (properties, tags,
+ * aliases, links, sections, tasks, blocks, search text). Bump it when extraction changes so reconciliation re-reads
+ * documents indexed by an older version even if their file is unchanged.
+ */
+export const METADATA_VERSION = 6;
+
+/**
+ * Hash content with SHA-256
+ * Returns the full 64-character hex digest, used for change detection and
+ * embedding reuse (not as document identity)
  */
 async function hashContent(content: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -64,29 +132,35 @@ async function hashContent(content: string): Promise<string> {
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   
-  // Convert to hex then take first 6 chars
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  return hashHex.substring(0, 6);
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash of what is indexed for a file: its content, plus its expanded embeds
+ * if it has any, so a note changes (and is embedded again) when a note it
+ * embeds does
+ */
+async function hashIndexedContent(content: string, expanded: ExpandedEmbeds): Promise<string> {
+  if (expanded.embeds.size === 0) {
+    return hashContent(content);
+  }
+  const embeds = Array.from(expanded.embeds, ([embed, markdown]) => `${embed}\n${markdown}`);
+  return hashContent([content, ...embeds].join('\u0000'));
 }
 
 /**
  * Extract title from markdown content
- * Tries to find first # heading, falls back to filename
+ * Tries to find first # heading after any frontmatter, falls back to filename
  */
 function extractTitle(content: string, filename: string): string {
   // Try to find first heading (# Title)
-  const lines = content.split('\n');
+  const lines = splitFrontmatter(content).body.split('\n');
   
   for (const line of lines) {
     const trimmed = line.trim();
     
-    // Skip empty lines and frontmatter
+    // Skip empty lines
     if (!trimmed) continue;
-    if (trimmed === '---') {
-      // Skip frontmatter block
-      const fmEnd = lines.indexOf('---', lines.indexOf(trimmed) + 1);
-      if (fmEnd > 0) continue;
-    }
     
     // Check for heading
     const headingMatch = trimmed.match(/^#+\s+(.+)$/);
@@ -94,7 +168,7 @@ function extractTitle(content: string, filename: string): string {
       return headingMatch[1].trim();
     }
     
-    // Only check first non-empty, non-frontmatter line for heading
+    // Only check first non-empty line for heading
     break;
   }
   
@@ -127,17 +201,76 @@ export class IndexerError extends Error {
 export class DocumentIndexer {
   private debounceTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
   private readonly DEBOUNCE_MS = 500;
+  private onBatchCommitted: (() => void) | null = null;
+  private normalizer = new MarkdownNormalizer();
+  private transclusion: TransclusionOptions = DEFAULT_TRANSCLUSION_OPTIONS;
+  private expander: TransclusionExpander;
 
+  /**
+   * @param resolveLink - Resolves link paths to vault files (default: exact paths only)
+   * @param extractors - Extractors for the file types that can be indexed
+   */
   constructor(
-    private db: Database,
+    private repository: RemoteIndexRepository,
     private vault: Vault,
-    private collectionManager: CollectionManager
-  ) {}
+    private collectionManager: CollectionManager,
+    private resolveLink: LinkResolver = createVaultLinkResolver(vault),
+    private extractors: ExtractorRegistry = createDefaultExtractorRegistry()
+  ) {
+    this.expander = new TransclusionExpander(vault, resolveLink);
+  }
+
+  /**
+   * Set the normalizer rules used for documents indexed from now on
+   * Documents already indexed keep their search text until reindexed.
+   */
+  setNormalizerRules(rules: NormalizerRules): void {
+    this.normalizer = new MarkdownNormalizer(rules);
+  }
+
+  /**
+   * Set whether embedded notes are indexed as part of the notes embedding
+   * them, for documents indexed from now on
+   */
+  setTransclusionOptions(options: TransclusionOptions): void {
+    this.transclusion = { ...options };
+  }
+
+  getTransclusionOptions(): TransclusionOptions {
+    return { ...this.transclusion };
+  }
+
+  /**
+   * Register a callback fired after each committed indexing batch
+   * (used to trigger background saves)
+   */
+  onBatchCommit(callback: () => void): void {
+    this.onBatchCommitted = callback;
+  }
 
   /**
    * Index a single file into the database
    */
   async indexFile(file: TFile, collectionId: number): Promise<IndexedDocument> {
+    const content = await this.readFile(file);
+    const expanded = await this.expandEmbeds(file, content);
+    return this.storeDocument(file, collectionId, content, await hashIndexedContent(content, expanded), expanded);
+  }
+
+  /**
+   * Embeds of a note to index with it; none unless expansion is enabled
+   */
+  private async expandEmbeds(file: TFile, content: string): Promise<ExpandedEmbeds> {
+    if (!this.transclusion.enabled || file.extension !== 'md') {
+      return { embeds: new Map(), dependencies: [] };
+    }
+    return this.expander.expand(file.path, content, this.transclusion.maxDepth);
+  }
+
+  /**
+   * Read a file's content, rejecting binary files
+   */
+  private async readFile(file: TFile): Promise<string> {
     let content: string;
     
     try {
@@ -162,26 +295,93 @@ export class DocumentIndexer {
       console.warn(`[QMD] Large file detected (${(content.length / 1024 / 1024).toFixed(2)}MB): ${file.path}`);
     }
 
-    const title = extractTitle(content, file.name);
-    const hash = await hashContent(content);
+    return content;
+  }
+
+  /**
+   * Text to index for a file's raw content
+   */
+  private extract(file: TFile, raw: string): ExtractedDocument {
+    try {
+      return this.extractors.extract(file.path, raw);
+    } catch (error) {
+      if (error instanceof ExtractorError) {
+        throw new IndexerError(error.message, 'INVALID_FILE');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @param raw - File content as read from the vault
+   * @param hash - Hash of raw and its expanded embeds (see hashIndexedContent)
+   * @param expanded - Embeds of raw to index in their place
+   */
+  private async storeDocument(
+    file: TFile,
+    collectionId: number,
+    raw: string,
+    hash: string,
+    expanded: ExpandedEmbeds
+  ): Promise<IndexedDocument> {
+    const { content, format } = this.extract(file, raw);
+    const markdown = format === 'markdown';
+
+    // A frontmatter title takes precedence over the first heading; other
+    // file types are titled by their name
+    const metadata: ExtractedMetadata = markdown
+      ? extractMetadata(content)
+      : { title: null, aliases: [], tags: [], properties: [] };
+    const title = metadata.title ?? (file.extension === 'md' ? extractTitle(content, file.name) : file.basename);
+    const links: DocumentLink[] = !markdown ? [] : extractLinks(content).map(link => ({
+      ...link,
+      targetPath: this.resolveLink(link.target, file.path),
+      targetName: linkTargetName(link.target),
+    }));
+    const sections = markdown ? splitSections(content) : [];
+    const normalized = markdown
+      ? this.normalizer.normalizeDocument(content, sections, expanded.embeds)
+      : plainTextDocument(content);
+    // Task and block lines must be lines of the file, which converted formats (canvas) lack
+    const tasks = file.extension === 'md'
+      ? extractTasks(content, sections, noteDateFromName(file.basename))
+      : [];
+    const blocks: IndexedBlock[] = file.extension !== 'md' ? [] : extractBlocks(content).map(block => ({
+      ...block,
+      headingPath: sections.filter(section => section.startLine <= block.startLine).pop()?.headingPath ?? [],
+      searchText: this.normalizer.normalizeMarkdown(block.text, [], expanded.embeds),
+    }));
+    const minHash = computeMinHash(content);
     const now = Date.now();
+    let id: number;
 
     try {
       // Insert or update document
       // FTS5 triggers will handle the documents_fts table automatically
-      this.db.run(
-        `INSERT INTO documents (hash, collection_id, path, title, content, active, created_at, updated_at, indexed_at)
-         VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)
-         ON CONFLICT(path) DO UPDATE SET
-           hash = excluded.hash,
-           collection_id = excluded.collection_id,
-           title = excluded.title,
-           content = excluded.content,
-           active = 1,
-           updated_at = excluded.updated_at,
-           indexed_at = excluded.indexed_at`,
-        [hash, collectionId, file.path, title, content, now, now, now]
-      );
+      id = await this.repository.upsertDocument({
+        hash,
+        collectionId,
+        path: file.path,
+        title,
+        content,
+        searchText: normalized.text,
+        searchAside: normalized.aside,
+        timestamp: now,
+        mtime: file.stat.mtime,
+        size: file.stat.size,
+        aliases: metadata.aliases,
+        tags: metadata.tags,
+        properties: metadata.properties,
+        links,
+        sections: normalized.sections,
+        tasks,
+        blocks,
+        dependencies: expanded.dependencies,
+        signature: encodeSignature(minHash.values),
+        shingleCount: minHash.shingleCount,
+        metadataVersion: METADATA_VERSION,
+      });
+      await this.resolvePendingLinks(file.path);
     } catch (error) {
       throw new IndexerError(
         `Database error indexing ${file.path}: ${error}`,
@@ -190,11 +390,13 @@ export class DocumentIndexer {
     }
 
     return {
+      id,
       hash,
       collectionId,
       path: file.path,
       title,
       content,
+      searchText: normalized.text,
       createdAt: now,
       updatedAt: now,
     };
@@ -226,10 +428,7 @@ export class DocumentIndexer {
     for (let i = 0; i < files.length; i += BATCH_SIZE) {
       const batch = files.slice(i, i + BATCH_SIZE);
       
-      // Start transaction for batch
-      this.db.run('BEGIN TRANSACTION');
-      
-      try {
+      await this.repository.transaction(async () => {
         for (const file of batch) {
           try {
             // Report progress
@@ -251,33 +450,89 @@ export class DocumentIndexer {
             }
           }
         }
-        
-        this.db.run('COMMIT');
-      } catch (error) {
-        this.db.run('ROLLBACK');
-        throw error;
-      }
+      });
+
+      this.onBatchCommitted?.();
     }
 
     return result;
   }
 
   /**
-   * Update an existing document (file changed)
+   * Files to index, sorted by path so work can resume after the last path done
+   * A file matched by several collections belongs to the first one.
+   *
+   * @param collectionName - Only files of this collection (default: all collections)
    */
-  async updateDocument(file: TFile): Promise<void> {
-    // Find which collection this file belongs to
-    const collections = await this.collectionManager.listCollections();
-    let targetCollection: Collection | null = null;
-
-    for (const collection of collections) {
-      const files = await this.collectionManager.listFilesInCollection(collection.name);
-      if (files.some(f => f.path === file.path)) {
-        targetCollection = collection;
-        break;
+  async listIndexTargets(collectionName?: string): Promise<IndexTarget[]> {
+    const targets: IndexTarget[] = [];
+    const seen = new Set<string>();
+    for (const collection of await this.collectionManager.listCollections()) {
+      for (const file of await this.collectionManager.listFilesInCollection(collection.name)) {
+        if (seen.has(file.path)) continue;
+        seen.add(file.path);
+        if (collectionName === undefined || collection.name === collectionName) {
+          targets.push({ file, collectionId: collection.id });
+        }
       }
     }
+    return targets.sort((a, b) => (a.file.path < b.file.path ? -1 : a.file.path > b.file.path ? 1 : 0));
+  }
+
+  /**
+   * Index files in one transaction, collecting per-file errors
+   */
+  async indexBatch(targets: IndexTarget[], onFile?: (target: IndexTarget) => void): Promise<IndexingResult> {
+    const result: IndexingResult = { indexed: 0, skipped: 0, errors: [] };
+
+    await this.repository.transaction(async () => {
+      for (const target of targets) {
+        onFile?.(target);
+        try {
+          await this.indexFile(target.file, target.collectionId);
+          result.indexed++;
+        } catch (error) {
+          if (error instanceof IndexerError && error.code === 'INVALID_FILE') {
+            result.skipped++;
+          } else {
+            result.errors.push(`${target.file.path}: ${error}`);
+          }
+        }
+      }
+    });
+
+    this.onBatchCommitted?.();
+    return result;
+  }
+
+  /**
+   * Deactivate active documents whose path is not listed, e.g. after a full
+   * reindex, and return their paths
+   *
+   * @param collectionId - Only consider documents of this collection
+   */
+  async deactivateUnlisted(paths: Set<string>, collectionId?: number): Promise<string[]> {
+    const unlisted = (await this.repository.listDocumentFileStates())
+      .filter(state => state.active && !paths.has(state.path))
+      .filter(state => collectionId === undefined || state.collectionId === collectionId)
+      .map(state => state.path);
+    if (unlisted.length === 0) return [];
+
+    const now = Date.now();
+    await this.repository.transaction(async () => {
+      for (const path of unlisted) {
+        await this.repository.deactivateDocument(path, now);
+      }
+    });
+    this.onBatchCommitted?.();
+    return unlisted;
+  }
 
+  /**
+   * Update an existing document (file changed)
+   */
+  async updateDocument(file: TFile): Promise<void> {
+    const targetCollection = await this.collectionManager.resolveCollection(file);
     if (!targetCollection) {
       // File not in any collection, skip
       return;
@@ -289,194 +544,213 @@ export class DocumentIndexer {
 
   /**
    * Mark document as inactive (soft delete)
-   * FTS5 delete trigger will fire automatically
+   * Links pointing at it become unresolved until a file takes its place.
    */
   async removeDocument(path: string): Promise<void> {
-    this.db.run(
-      'UPDATE documents SET active = 0, updated_at = ? WHERE path = ?',
-      [Date.now(), path]
-    );
+    await this.repository.deactivateDocument(path, Date.now());
   }
 
   /**
    * Handle file rename - update path in database
+   * See renameDocuments.
    */
-  async renameDocument(oldPath: string, newPath: string): Promise<void> {
+  async renameDocument(oldPath: string, newPath: string): Promise<RenameResult> {
+    return this.renameDocuments([{ oldPath, newPath }]);
+  }
+
+  /**
+   * Follow renamed files in one transaction (e.g. all files of a renamed folder)
+   *
+   * Collection membership is resolved again for each new path: a document
+   * moves along (into another collection if needed), is deactivated when its
+   * file left every collection, and a file that now joins a collection is
+   * indexed. Links to the old path follow the document; links that were
+   * waiting for a file with the new name are resolved.
+   */
+  async renameDocuments(renames: FileRename[]): Promise<RenameResult> {
+    const result: RenameResult = { moved: [], reassigned: [], added: [], removed: [], errors: [] };
+    if (renames.length === 0) return result;
+
     const now = Date.now();
-    this.db.run(
-      'UPDATE documents SET path = ?, updated_at = ? WHERE path = ?',
-      [newPath, now, oldPath]
-    );
+    await this.repository.transaction(async () => {
+      for (const { oldPath, newPath } of renames) {
+        try {
+          const file = this.vault.getAbstractFileByPath(newPath);
+          const collection = file && 'extension' in file
+            ? await this.collectionManager.resolveCollection(file as TFile)
+            : null;
+          const existing = await this.repository.getDocumentByPath(oldPath);
+
+          if (!collection) {
+            if (existing) {
+              await this.repository.deactivateDocument(oldPath, now);
+              result.removed.push(oldPath);
+            }
+            continue;
+          }
+
+          if (existing) {
+            await this.repository.renameDocument(oldPath, newPath, collection.id, now);
+            (existing.collectionId === collection.id ? result.moved : result.reassigned).push(newPath);
+            await this.resolvePendingLinks(newPath);
+          } else {
+            await this.indexFile(file as TFile, collection.id);
+            result.added.push(newPath);
+          }
+        } catch (error) {
+          result.errors.push(`${oldPath} -> ${newPath}: ${error}`);
+        }
+      }
+    });
+
+    this.onBatchCommitted?.();
+    return result;
   }
 
   /**
-   * Re-index all documents across all collections
+   * Point unresolved links at a path if they now resolve to it
    */
-  async reindexAll(progressCallback?: ProgressCallback): Promise<number> {
-    const collections = await this.collectionManager.listCollections();
-    let totalIndexed = 0;
-    let processedFiles = 0;
-    let totalFiles = 0;
-
-    // Calculate total files for progress
-    for (const collection of collections) {
-      const files = await this.collectionManager.listFilesInCollection(collection.name);
-      totalFiles += files.length;
+  private async resolvePendingLinks(path: string): Promise<void> {
+    const name = linkTargetName(path);
+    for (const link of await this.repository.listUnresolvedLinks(name)) {
+      if (this.resolveLink(link.target, link.sourcePath) === path) {
+        await this.repository.setLinkTarget(link.linkId, path);
+      }
     }
+  }
 
-    // Mark all documents as inactive before re-indexing
-    this.db.run('UPDATE documents SET active = 0');
-
-    for (const collection of collections) {
-      const result = await this.indexCollection(
-        collection.name,
-        progressCallback ? (progress) => {
-          progressCallback({
-            current: processedFiles + progress.current,
-            total: totalFiles,
-            currentFile: progress.currentFile,
+  /**
+   * Bring the index in line with the vault without a full reindex
+   *
+   * Files are compared with their stored row by mtime and size first, then
+   * by content hash, so only new or changed files are written. Indexed files
+   * that are gone (or no longer match a collection) are deactivated.
+   */
+  async reconcile(progressCallback?: ProgressCallback): Promise<ReconcileResult> {
+    const result: ReconcileResult = {
+      added: [],
+      updated: [],
+      removed: [],
+      unchanged: 0,
+      skipped: 0,
+      errors: [],
+    };
+
+    const stored = new Map<string, DocumentFileState>();
+    for (const state of await this.repository.listDocumentFileStates()) {
+      stored.set(state.path, state);
+    }
+
+    const targets = await this.listIndexTargets();
+    const seen = new Set(targets.map(target => target.file.path));
+
+    for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+      const batch = targets.slice(i, i + BATCH_SIZE);
+
+      await this.repository.transaction(async () => {
+        for (const [offset, { file, collectionId }] of batch.entries()) {
+          progressCallback?.({
+            current: i + offset + 1,
+            total: targets.length,
+            currentFile: file.path,
           });
-        } : undefined
-      );
-      
-      const files = await this.collectionManager.listFilesInCollection(collection.name);
-      processedFiles += files.length;
-      totalIndexed += result.indexed;
+
+          try {
+            await this.reconcileFile(file, collectionId, stored.get(file.path), result);
+          } catch (error) {
+            if (error instanceof IndexerError && error.code === 'INVALID_FILE') {
+              result.skipped++;
+            } else {
+              result.errors.push(`${file.path}: ${error}`);
+            }
+          }
+        }
+      });
+
+      this.onBatchCommitted?.();
     }
 
-    return totalIndexed;
+    const missing = Array.from(stored.values()).filter(state => state.active && !seen.has(state.path));
+    if (missing.length > 0) {
+      const now = Date.now();
+      await this.repository.transaction(async () => {
+        for (const state of missing) {
+          await this.repository.deactivateDocument(state.path, now);
+          result.removed.push(state.path);
+        }
+      });
+      this.onBatchCommitted?.();
+    }
+
+    return result;
+  }
+
+  private async reconcileFile(
+    file: TFile,
+    collectionId: number,
+    state: DocumentFileState | undefined,
+    result: ReconcileResult
+  ): Promise<void> {
+    const current = state?.active && state.collectionId === collectionId && state.metadataVersion === METADATA_VERSION
+      ? state
+      : undefined;
+    if (current && current.mtime === file.stat.mtime && current.size === file.stat.size) {
+      result.unchanged++;
+      return;
+    }
+
+    const content = await this.readFile(file);
+    const expanded = await this.expandEmbeds(file, content);
+    const hash = await hashIndexedContent(content, expanded);
+
+    // Touched but not edited (e.g. a sync tool rewrote it): only record the new stat
+    if (current && current.hash === hash) {
+      await this.repository.updateDocumentFileState(current.id, file.stat.mtime, file.stat.size, Date.now());
+      result.unchanged++;
+      return;
+    }
+
+    await this.storeDocument(file, collectionId, content, hash, expanded);
+    if (state?.active) {
+      result.updated.push(file.path);
+    } else {
+      result.added.push(file.path);
+    }
   }
 
   /**
    * Get document by its file path
    */
   async getDocumentByPath(path: string): Promise<IndexedDocument | null> {
-    const stmt = this.db.prepare(
-      `SELECT hash, collection_id, path, title, content, created_at, updated_at 
-       FROM documents 
-       WHERE path = ? AND active = 1`
-    );
-    
-    try {
-      stmt.bind([path]);
-      
-      if (!stmt.step()) {
-        return null;
-      }
-      
-      const row = stmt.get() as [string, number, string, string, string, number, number];
-      
-      return {
-        hash: row[0],
-        collectionId: row[1],
-        path: row[2],
-        title: row[3],
-        content: row[4],
-        createdAt: row[5],
-        updatedAt: row[6],
-      };
-    } finally {
-      stmt.free();
-    }
+    return this.repository.getDocumentByPath(path);
   }
 
   /**
-   * Get document by its hash
+   * Get document by its id
    */
-  async getDocumentByHash(hash: string): Promise<IndexedDocument | null> {
-    const stmt = this.db.prepare(
-      `SELECT hash, collection_id, path, title, content, created_at, updated_at 
-       FROM documents 
-       WHERE hash = ? AND active = 1`
-    );
-    
-    try {
-      stmt.bind([hash]);
-      
-      if (!stmt.step()) {
-        return null;
-      }
-      
-      const row = stmt.get() as [string, number, string, string, string, number, number];
-      
-      return {
-        hash: row[0],
-        collectionId: row[1],
-        path: row[2],
-        title: row[3],
-        content: row[4],
-        createdAt: row[5],
-        updatedAt: row[6],
-      };
-    } finally {
-      stmt.free();
-    }
+  async getDocumentById(id: number): Promise<IndexedDocument | null> {
+    return this.repository.getDocumentById(id);
+  }
+
+  /**
+   * Get all documents with the given content hash
+   */
+  async getDocumentsByHash(hash: string): Promise<IndexedDocument[]> {
+    return this.repository.listDocumentsByHash(hash);
   }
 
   /**
    * Get all documents in a collection
    */
   async getDocumentsByCollection(collectionId: number): Promise<IndexedDocument[]> {
-    const stmt = this.db.prepare(
-      `SELECT hash, collection_id, path, title, content, created_at, updated_at 
-       FROM documents 
-       WHERE collection_id = ? AND active = 1
-       ORDER BY path`
-    );
-
-    const results: IndexedDocument[] = [];
-    try {
-      stmt.bind([collectionId]);
-      while (stmt.step()) {
-        const row = stmt.get() as [string, number, string, string, string, number, number];
-        results.push({
-          hash: row[0],
-          collectionId: row[1],
-          path: row[2],
-          title: row[3],
-          content: row[4],
-          createdAt: row[5],
-          updatedAt: row[6],
-        });
-      }
-    } finally {
-      stmt.free();
-    }
-
-    return results;
+    return this.repository.listDocumentsByCollection(collectionId);
   }
 
   /**
    * Search documents using FTS5
    */
   async searchDocuments(query: string, limit = 50): Promise<IndexedDocument[]> {
-    // Escape FTS5 special characters
-    const escapedQuery = query
-      .replace(/"/g, '""')
-      .replace(/'/g, "''");
-    
-    const result = this.db.exec(
-      `SELECT d.hash, d.collection_id, d.path, d.title, d.content, d.created_at, d.updated_at
-       FROM documents d
-       JOIN documents_fts fts ON d.rowid = fts.rowid
-       WHERE documents_fts MATCH '"${escapedQuery}"' AND d.active = 1
-       ORDER BY rank
-       LIMIT ${limit}`
-    );
-
-    if (!result[0]) {
-      return [];
-    }
-
-    return result[0].values.map((row: SqlValue[]) => ({
-      hash: row[0] as string,
-      collectionId: row[1] as number,
-      path: row[2] as string,
-      title: row[3] as string,
-      content: row[4] as string,
-      createdAt: row[5] as number,
-      updatedAt: row[6] as number,
-    }));
+    return this.repository.searchDocumentsByPhrase(query, limit);
   }
 
   /**
@@ -487,14 +761,11 @@ export class DocumentIndexer {
     activeDocuments: number;
     collectionsIndexed: number;
   }> {
-    const totalResult = this.db.exec('SELECT COUNT(*) FROM documents');
-    const activeResult = this.db.exec('SELECT COUNT(*) FROM documents WHERE active = 1');
-    const collectionsResult = this.db.exec('SELECT COUNT(DISTINCT collection_id) FROM documents WHERE active = 1');
-
+    const counts = await this.repository.getDocumentCounts();
     return {
-      totalDocuments: (totalResult[0]?.values[0]?.[0] as number) || 0,
-      activeDocuments: (activeResult[0]?.values[0]?.[0] as number) || 0,
-      collectionsIndexed: (collectionsResult[0]?.values[0]?.[0] as number) || 0,
+      totalDocuments: counts.total,
+      activeDocuments: counts.active,
+      collectionsIndexed: counts.collections,
     };
   }
 
@@ -578,5 +849,27 @@ export class DocumentIndexer {
   }
 }
 
+/**
+ * One-line summary of a reconciliation, e.g. "2 added, 1 updated, 0 removed"
+ */
+export function formatReconcileSummary(result: ReconcileResult): string {
+  let summary = `${result.added.length} added, ${result.updated.length} updated, ${result.removed.length} removed`;
+  if (result.errors.length > 0) {
+    summary += `, ${result.errors.length} failed`;
+  }
+  return summary;
+}
+
+/**
+ * List every change of a reconciliation as a diff (+ added, ~ updated, - removed)
+ */
+export function formatReconcileDiff(result: ReconcileResult): string {
+  return [
+    ...result.added.map(path => `+ ${path}`),
+    ...result.updated.map(path => `~ ${path}`),
+    ...result.removed.map(path => `- ${path}`),
+  ].join('\n');
+}
+
 // Export hash function for external use (e.g., testing)
 export { hashContent, extractTitle };
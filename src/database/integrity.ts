@@ -0,0 +1,277 @@
+/**
+ * Index Integrity Checker for QMD Search
+ * Finds structural problems in the index and offers a repair for each one
+ */
+
+import { TFile, type Vault } from 'obsidian';
+import type { RemoteIndexRepository } from './repository';
+import type { DocumentIndexer } from './indexer';
+import type { JobQueue } from '../jobs/job-queue';
+import { DocumentChunker } from '../embeddings/chunker';
+import type { DocumentContentLoader } from './content-loader';
+
+export type IntegrityIssueType =
+  | 'sqlite-integrity'
+  | 'fts-integrity'
+  | 'orphan-vectors'
+  | 'orphan-documents'
+  | 'missing-files'
+  | 'chunk-mismatch';
+
+export interface IntegrityFinding {
+  type: IntegrityIssueType;
+  /** Short summary, e.g. "12 orphaned vectors" */
+  title: string;
+  /** What the problem means for search */
+  description: string;
+  /** Affected items (paths, hashes, SQLite messages) */
+  details: string[];
+  /** Button label for the repair action */
+  repairLabel: string;
+  repair(): Promise<void>;
+}
+
+export interface IntegrityReport {
+  checkedAt: number;
+  durationMs: number;
+  totalDocuments: number;
+  activeDocuments: number;
+  totalVectors: number;
+  findings: IntegrityFinding[];
+}
+
+/** Maximum number of affected items listed per finding in reports */
+const MAX_DETAILS_IN_REPORT = 50;
+
+export class IntegrityChecker {
+  private chunker: DocumentChunker;
+
+  /**
+   * @param contentLoader - The loader notes were indexed with, so contentless
+   *   notes are rebuilt with the same extractors and embed links
+   */
+  constructor(
+    private repository: RemoteIndexRepository,
+    private vault: Vault,
+    private indexer: DocumentIndexer,
+    private jobQueue: JobQueue,
+    private contentLoader: DocumentContentLoader,
+    chunker?: DocumentChunker
+  ) {
+    this.chunker = chunker ?? new DocumentChunker();
+  }
+
+  /**
+   * Run every check and collect the findings
+   */
+  async check(): Promise<IntegrityReport> {
+    const startTime = performance.now();
+    const findings: IntegrityFinding[] = [];
+
+    const checks = [
+      () => this.checkSqliteIntegrity(),
+      () => this.checkFtsIntegrity(),
+      () => this.checkOrphanVectors(),
+      () => this.checkOrphanDocuments(),
+      () => this.checkMissingFiles(),
+      () => this.checkChunkCounts(),
+    ];
+
+    for (const check of checks) {
+      const finding = await check();
+      if (finding) {
+        findings.push(finding);
+      }
+    }
+
+    const counts = await this.repository.getDocumentCounts();
+
+    return {
+      checkedAt: Date.now(),
+      durationMs: performance.now() - startTime,
+      totalDocuments: counts.total,
+      activeDocuments: counts.active,
+      totalVectors: await this.repository.countChunks(),
+      findings,
+    };
+  }
+
+  private async checkSqliteIntegrity(): Promise<IntegrityFinding | null> {
+    const messages = await this.repository.integrityCheck();
+
+    if (messages.length === 0 || (messages.length === 1 && messages[0] === 'ok')) {
+      return null;
+    }
+
+    return {
+      type: 'sqlite-integrity',
+      title: `SQLite integrity check reported ${messages.length} problem(s)`,
+      description: 'The database file has structural damage. Rebuilding indexes fixes most index-level problems; restore a snapshot if it persists.',
+      details: messages,
+      repairLabel: 'Rebuild indexes',
+      repair: async () => {
+        await this.repository.reindex();
+      },
+    };
+  }
+
+  private async checkFtsIntegrity(): Promise<IntegrityFinding | null> {
+    try {
+      await this.repository.checkFtsIntegrity();
+      return null;
+    } catch (error) {
+      return {
+        type: 'fts-integrity',
+        title: 'Full-text index is out of sync',
+        description: 'documents_fts does not match the documents table, so BM25 results can be missing or stale.',
+        details: [error instanceof Error ? error.message : String(error)],
+        repairLabel: 'Rebuild full-text index',
+        repair: async () => {
+          await this.repository.rebuildFts();
+          // A contentless index can only be refilled from the vault
+          if (await this.repository.getContentStorage() === 'contentless') {
+            const job = await this.jobQueue.enqueue('reindex-all');
+            const finished = await this.jobQueue.whenFinished(job.id);
+            if (finished.status !== 'completed') {
+              throw new Error(finished.error ?? `Reindex ${finished.status}`);
+            }
+          }
+        },
+      };
+    }
+  }
+
+  private async checkOrphanVectors(): Promise<IntegrityFinding | null> {
+    const hashSeqs = await this.repository.listOrphanedChunkIds();
+
+    if (hashSeqs.length === 0) {
+      return null;
+    }
+
+    return {
+      type: 'orphan-vectors',
+      title: `${hashSeqs.length} orphaned vector chunk(s)`,
+      description: 'These chunks belong to content that is no longer in the index and can surface as broken vector results.',
+      details: hashSeqs,
+      repairLabel: 'Delete orphaned vectors',
+      repair: async () => {
+        await this.repository.transaction(async () => {
+          for (const hashSeq of hashSeqs) {
+            await this.repository.deleteChunk(hashSeq);
+          }
+        });
+      },
+    };
+  }
+
+  private async checkOrphanDocuments(): Promise<IntegrityFinding | null> {
+    const rows = await this.repository.listOrphanedDocuments();
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return {
+      type: 'orphan-documents',
+      title: `${rows.length} document(s) from deleted collections`,
+      description: 'These documents point to a collection that no longer exists and cannot be filtered or reindexed.',
+      details: rows.map(r => r.path),
+      repairLabel: 'Delete documents',
+      repair: async () => {
+        await this.repository.transaction(async () => {
+          for (const row of rows) {
+            await this.repository.deleteDocument(row.id);
+          }
+          // Chunks are shared by content hash; drop only those now unused
+          for (const hashSeq of await this.repository.listOrphanedChunkIds()) {
+            await this.repository.deleteChunk(hashSeq);
+          }
+        });
+      },
+    };
+  }
+
+  private async checkMissingFiles(): Promise<IntegrityFinding | null> {
+    const missing = (await this.repository.listActiveDocumentPaths())
+      .filter(path => !(this.vault.getAbstractFileByPath(path) instanceof TFile));
+
+    if (missing.length === 0) {
+      return null;
+    }
+
+    return {
+      type: 'missing-files',
+      title: `${missing.length} indexed file(s) no longer exist`,
+      description: 'These notes were deleted or moved while the index was not watching, so searches return dead links.',
+      details: missing,
+      repairLabel: 'Remove from index',
+      repair: async () => {
+        for (const path of missing) {
+          await this.indexer.removeDocument(path);
+        }
+      },
+    };
+  }
+
+  private async checkChunkCounts(): Promise<IntegrityFinding | null> {
+    const mismatched: Array<{ hash: string; path: string; stored: number; expected: number }> = [];
+    for (const doc of await this.repository.listEmbeddedDocuments()) {
+      const text = await this.contentLoader.loadSearchText(doc.hash, doc.path);
+      const expected = this.chunker.chunkDocument(doc.hash, text).length;
+      if (doc.chunkCount !== expected) {
+        mismatched.push({ hash: doc.hash, path: doc.path, stored: doc.chunkCount, expected });
+      }
+    }
+
+    if (mismatched.length === 0) {
+      return null;
+    }
+
+    return {
+      type: 'chunk-mismatch',
+      title: `${mismatched.length} document(s) with stale embeddings`,
+      description: 'The stored vector chunks do not match how the document is chunked today, so parts of it are missing from vector search.',
+      details: mismatched.map(m => `${m.path} (${m.stored} stored, ${m.expected} expected)`),
+      repairLabel: 'Drop stale vectors for re-embedding',
+      repair: async () => {
+        await this.repository.transaction(async () => {
+          for (const doc of mismatched) {
+            await this.repository.deleteChunksForHash(doc.hash);
+          }
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Render a report as a markdown note
+ */
+export function formatIntegrityReport(report: IntegrityReport): string {
+  let md = '# QMD Index Integrity Report\n\n';
+  md += `**Checked**: ${new Date(report.checkedAt).toLocaleString()} (${Math.round(report.durationMs)} ms)\n\n`;
+  md += `- Documents: ${report.totalDocuments} (${report.activeDocuments} active)\n`;
+  md += `- Vector chunks: ${report.totalVectors}\n`;
+  md += `- Findings: ${report.findings.length}\n\n`;
+
+  if (report.findings.length === 0) {
+    md += 'No issues found.\n';
+    return md;
+  }
+
+  for (const finding of report.findings) {
+    md += `## ${finding.title}\n\n`;
+    md += `${finding.description}\n\n`;
+    md += `**Repair**: ${finding.repairLabel} (run "Run health check" to apply)\n\n`;
+
+    for (const detail of finding.details.slice(0, MAX_DETAILS_IN_REPORT)) {
+      md += `- ${detail}\n`;
+    }
+    if (finding.details.length > MAX_DETAILS_IN_REPORT) {
+      md += `- ...and ${finding.details.length - MAX_DETAILS_IN_REPORT} more\n`;
+    }
+    md += '\n';
+  }
+
+  return md;
+}
@@ -0,0 +1,145 @@
+/**
+ * Note Links for QMD Search
+ * Extracts [[wikilinks]], ![[embeds]] and markdown links from notes and
+ * resolves them to vault paths for the link graph.
+ */
+
+import { TFile, type Vault } from 'obsidian';
+import { stripCode } from './metadata';
+
+export type LinkKind = 'wikilink' | 'markdown';
+
+/**
+ * A link as written in a note
+ */
+export interface ParsedLink {
+  /** Link path without heading or alias, e.g. "folder/Note" */
+  target: string;
+  /** Heading or block reference after "#", e.g. "Setup" or "^abc123" */
+  heading: string | null;
+  /** Alias or link text shown instead of the target */
+  display: string | null;
+  /** True for ![[embeds]] and ![images](...) */
+  embed: boolean;
+  kind: LinkKind;
+}
+
+/**
+ * A parsed link with the vault path it points to
+ */
+export interface DocumentLink extends ParsedLink {
+  /** Resolved vault path, null if no file matches */
+  targetPath: string | null;
+  /** See linkTargetName */
+  targetName: string;
+}
+
+/**
+ * Resolve a link path written in sourcePath to a vault file path
+ */
+export type LinkResolver = (target: string, sourcePath: string) => string | null;
+
+const WIKILINK_PATTERN = /(!?)\[\[([^[\]|#\n]*)(?:#([^[\]|\n]*))?(?:\|([^[\]\n]*))?\]\]/g;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]\n]*)\]\((?:<([^>\n]+)>|([^)\s]+))(?:\s+"[^"\n]*")?\)/g;
+const URL_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+function splitHeading(link: string): { target: string; heading: string | null } {
+  const index = link.indexOf('#');
+  if (index < 0) {
+    return { target: link.trim(), heading: null };
+  }
+  return { target: link.slice(0, index).trim(), heading: link.slice(index + 1).trim() || null };
+}
+
+function decodeLinkPath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Extract links to other notes and files, ignoring code, external URLs and
+ * links to headings in the same note
+ */
+export function extractLinks(content: string): ParsedLink[] {
+  const text = stripCode(content);
+  const links: ParsedLink[] = [];
+
+  for (const match of text.matchAll(WIKILINK_PATTERN)) {
+    const target = match[2].trim();
+    if (!target) continue;
+
+    links.push({
+      target,
+      heading: match[3]?.trim() || null,
+      display: match[4]?.trim() || null,
+      embed: match[1] === '!',
+      kind: 'wikilink',
+    });
+  }
+
+  for (const match of text.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const href = match[3] ?? match[4];
+    if (URL_SCHEME_PATTERN.test(href)) continue;
+
+    const { target, heading } = splitHeading(decodeLinkPath(href));
+    if (!target) continue;
+
+    links.push({
+      target,
+      heading,
+      display: match[2].trim() || null,
+      embed: match[1] === '!',
+      kind: 'markdown',
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Lowercased file name without folder or .md extension, used to find links
+ * that may resolve once a file with that name appears
+ */
+export function linkTargetName(target: string): string {
+  const name = target.split('/').pop() ?? target;
+  return name.replace(/\.md$/i, '').toLowerCase();
+}
+
+/**
+ * Resolver that only follows exact paths, absolute or relative to the note
+ * Obsidian's metadata cache resolves shortest-path links as well; the plugin
+ * uses that when it is available.
+ */
+export function createVaultLinkResolver(vault: Vault): LinkResolver {
+  return (target, sourcePath) => {
+    const folder = sourcePath.includes('/') ? sourcePath.slice(0, sourcePath.lastIndexOf('/') + 1) : '';
+    const relative = normalizePath(folder + target);
+    const candidates = [target, `${target}.md`, relative, `${relative}.md`];
+
+    for (const candidate of candidates) {
+      if (vault.getAbstractFileByPath(candidate) instanceof TFile) {
+        return candidate;
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Collapse "." and ".." segments of a vault-relative path
+ */
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
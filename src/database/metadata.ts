@@ -0,0 +1,220 @@
+/**
+ * Note Metadata for QMD Search
+ * Extracts YAML frontmatter properties, tags and aliases from markdown, and
+ * parses the property/tag filters used to narrow searches.
+ */
+
+import { parseYaml } from 'obsidian';
+
+export type PropertyType = 'text' | 'number' | 'boolean' | 'date';
+
+/**
+ * One frontmatter value; list properties produce one value per item
+ */
+export interface PropertyValue {
+  /** Property name, lowercased */
+  key: string;
+  /** Text form (dates as ISO strings, booleans as "true"/"false") */
+  value: string;
+  /** Numeric form, set for numbers */
+  valueNumber: number | null;
+  valueType: PropertyType;
+}
+
+export interface ExtractedMetadata {
+  /** Frontmatter title, if any */
+  title: string | null;
+  aliases: string[];
+  /** Frontmatter and inline tags, lowercased, without "#" */
+  tags: string[];
+  properties: PropertyValue[];
+}
+
+export type FilterOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Condition on a property, or on tags when field is "tag" (= and != only)
+ * e.g. tag = project, status != done, due < 2026-11-01
+ */
+export interface MetadataFilter {
+  field: string;
+  operator: FilterOperator;
+  value: string | number | boolean;
+}
+
+export class MetadataFilterError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_FILTER'
+  ) {
+    super(message);
+    this.name = 'MetadataFilterError';
+  }
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+// Obsidian tags need at least one non-digit character
+const INLINE_TAG_PATTERN = /(?:^|[\s(])#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+const FILTER_PATTERN = /^\s*([\p{L}\p{N}_.-]+)\s*(!=|<=|>=|=|<|>)\s*(.+?)\s*$/u;
+
+/**
+ * Split a note into its raw frontmatter block (without the --- fences) and body
+ */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { frontmatter: null, body: content };
+  }
+  return { frontmatter: match[1], body: content.slice(match[0].length) };
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  return [value];
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+function toPropertyValue(key: string, value: unknown): PropertyValue | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return { key, value: String(value), valueNumber: value, valueType: 'number' };
+  }
+  if (typeof value === 'boolean') {
+    return { key, value: String(value), valueNumber: null, valueType: 'boolean' };
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    // Plain YAML dates parse to midnight UTC; keep them comparable with "due < 2026-11-01"
+    const iso = value.toISOString().replace(/T00:00:00\.000Z$/, '');
+    return { key, value: iso, valueNumber: null, valueType: 'date' };
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const text = value.trim();
+    return { key, value: text, valueNumber: null, valueType: DATE_PATTERN.test(text) ? 'date' : 'text' };
+  }
+  return null;
+}
+
+/**
+ * Blank out fenced code blocks and inline code, where tags and links are literal text
+ */
+export function stripCode(markdown: string): string {
+  return markdown
+    .replace(/^(```|~~~)[\s\S]*?^\1/gm, ' ')
+    .replace(/`[^`\n]*`/g, ' ');
+}
+
+/**
+ * Tags written in the body, ignoring code blocks and inline code
+ */
+export function extractInlineTags(body: string): string[] {
+  const text = stripCode(body);
+  const tags: string[] = [];
+  for (const match of text.matchAll(INLINE_TAG_PATTERN)) {
+    tags.push(normalizeTag(match[1]));
+  }
+  return tags;
+}
+
+function parseFrontmatter(frontmatter: string): Record<string, unknown> {
+  try {
+    const data = parseYaml(frontmatter);
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+  } catch {
+    // Invalid YAML is indexed as plain text
+    return {};
+  }
+}
+
+/**
+ * Extract frontmatter properties, tags, aliases and title from a note
+ */
+export function extractMetadata(content: string): ExtractedMetadata {
+  const { frontmatter, body } = splitFrontmatter(content);
+  const data = frontmatter ? parseFrontmatter(frontmatter) : {};
+
+  let title: string | null = null;
+  const aliases: string[] = [];
+  const tags = new Set<string>();
+  const properties: PropertyValue[] = [];
+
+  for (const [rawKey, rawValue] of Object.entries(data)) {
+    const key = rawKey.trim().toLowerCase();
+    const values = toList(rawValue);
+
+    if (key === 'title' && typeof rawValue === 'string' && rawValue.trim()) {
+      title = rawValue.trim();
+    }
+    if (key === 'tags' || key === 'tag') {
+      for (const value of values) {
+        // "tags: a, b" and "tags: a b" are both accepted by Obsidian
+        for (const tag of String(value).split(/[,\s]+/)) {
+          if (normalizeTag(tag)) tags.add(normalizeTag(tag));
+        }
+      }
+      continue;
+    }
+    if (key === 'aliases' || key === 'alias') {
+      for (const value of values) {
+        if (typeof value === 'string' && value.trim()) aliases.push(value.trim());
+      }
+    }
+
+    for (const value of values) {
+      const property = toPropertyValue(key, value);
+      if (property) properties.push(property);
+    }
+  }
+
+  for (const tag of extractInlineTags(body)) {
+    tags.add(tag);
+  }
+
+  return { title, aliases, tags: Array.from(tags), properties };
+}
+
+function parseFilterValue(text: string): string | number | boolean {
+  const unquoted = text.replace(/^(["'])(.*)\1$/, '$2');
+  if (unquoted !== text) return unquoted;
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+  return text;
+}
+
+/**
+ * Parse a comma-separated filter expression, e.g.
+ * "tag = project, status != done, due < 2026-11-01"
+ *
+ * @throws {MetadataFilterError} If a condition cannot be parsed
+ */
+export function parseMetadataFilters(expression: string): MetadataFilter[] {
+  return expression
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const match = part.match(FILTER_PATTERN);
+      if (!match) {
+        throw new MetadataFilterError(
+          `Invalid filter "${part}". Use field = value, field != value or field < value.`,
+          'INVALID_FILTER'
+        );
+      }
+
+      const field = match[1].toLowerCase();
+      const operator = match[2] as FilterOperator;
+      const value = parseFilterValue(match[3]);
+
+      if (field === 'tag' || field === 'tags') {
+        if (operator !== '=' && operator !== '!=') {
+          throw new MetadataFilterError(`Tags can only be compared with = or != ("${part}")`, 'INVALID_FILTER');
+        }
+        return { field: 'tag', operator, value: normalizeTag(String(value)) };
+      }
+      return { field, operator, value };
+    });
+}
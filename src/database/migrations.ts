@@ -0,0 +1,616 @@
+/**
+ * Schema Migrations for QMD Search
+ * Ordered, versioned upgrade steps applied to existing databases.
+ *
+ * SCHEMA_SQL always describes the latest schema and is used for new databases.
+ * Every change to SCHEMA_SQL needs a matching migration here that brings an
+ * existing database from the previous version to the new one.
+ *
+ * A step must not use the SQL constants in schema.ts, which follow the latest
+ * schema: later columns do not exist yet when an older database runs it. Each
+ * step keeps a copy of the SQL as it was at its version.
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+import { SCHEMA_VERSION, isFtsTokenizer, withFtsTokenizer, type FtsTokenizer } from './schema';
+
+export interface Migration {
+  /** Schema version this step upgrades to */
+  version: number;
+  /** Short human-readable summary, recorded in schema_migrations */
+  description: string;
+  /** Apply the step; runs inside a transaction */
+  up(db: SqlJsDatabase): void;
+}
+
+// documents_fts at version 4, before aliases and normalized search text
+const FULL_FTS_V4_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+  hash UNINDEXED,
+  title,
+  content,
+  content=documents,
+  content_rowid=id,
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+  INSERT INTO documents_fts(rowid, hash, title, content)
+  VALUES (new.id, new.hash, new.title, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE OF hash, title, content ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content)
+  VALUES ('delete', old.id, old.hash, old.title, old.content);
+  INSERT INTO documents_fts(rowid, hash, title, content)
+  VALUES (new.id, new.hash, new.title, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content)
+  VALUES ('delete', old.id, old.hash, old.title, old.content);
+END;
+`;
+
+const CONTENTLESS_FTS_V4_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+  hash UNINDEXED,
+  title,
+  content,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM documents_fts WHERE rowid = old.id;
+END;
+`;
+
+const DROP_FTS_TRIGGERS_SQL = `
+DROP TRIGGER IF EXISTS documents_fts_insert;
+DROP TRIGGER IF EXISTS documents_fts_update;
+DROP TRIGGER IF EXISTS documents_fts_delete;
+`;
+
+// documents_fts at version 6, indexing aliases with the title
+const FULL_FTS_V6_SQL = `
+CREATE VIEW IF NOT EXISTS documents_fts_source AS
+  SELECT id, hash, title || char(10) || aliases AS title, content FROM documents;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+  hash UNINDEXED,
+  title,
+  content,
+  content=documents_fts_source,
+  content_rowid=id,
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+  INSERT INTO documents_fts(rowid, hash, title, content)
+  VALUES (new.id, new.hash, new.title || char(10) || new.aliases, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE OF hash, title, aliases, content ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content)
+  VALUES ('delete', old.id, old.hash, old.title || char(10) || old.aliases, old.content);
+  INSERT INTO documents_fts(rowid, hash, title, content)
+  VALUES (new.id, new.hash, new.title || char(10) || new.aliases, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content)
+  VALUES ('delete', old.id, old.hash, old.title || char(10) || old.aliases, old.content);
+END;
+`;
+
+// documents_fts at version 9, indexing the normalized search text
+const FULL_FTS_V9_SQL = `
+CREATE VIEW IF NOT EXISTS documents_fts_source AS
+  SELECT id, hash, title || char(10) || aliases AS title, search_text AS content, search_aside AS aside
+  FROM documents;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+  hash UNINDEXED,
+  title,
+  content,
+  aside,
+  content=documents_fts_source,
+  content_rowid=id,
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+  INSERT INTO documents_fts(rowid, hash, title, content, aside)
+  VALUES (new.id, new.hash, new.title || char(10) || new.aliases, new.search_text, new.search_aside);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_update
+AFTER UPDATE OF hash, title, aliases, search_text, search_aside ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content, aside)
+  VALUES ('delete', old.id, old.hash, old.title || char(10) || old.aliases, old.search_text, old.search_aside);
+  INSERT INTO documents_fts(rowid, hash, title, content, aside)
+  VALUES (new.id, new.hash, new.title || char(10) || new.aliases, new.search_text, new.search_aside);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content, aside)
+  VALUES ('delete', old.id, old.hash, old.title || char(10) || old.aliases, old.search_text, old.search_aside);
+END;
+`;
+
+const CONTENTLESS_FTS_V9_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+  hash UNINDEXED,
+  title,
+  content,
+  aside,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM documents_fts WHERE rowid = old.id;
+END;
+`;
+
+/**
+ * Registered migrations, in ascending version order.
+ * Version 1 is the initial schema, so the list starts at version 2.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Record migration descriptions',
+    up(db) {
+      db.run('ALTER TABLE schema_migrations ADD COLUMN description TEXT');
+    },
+  },
+  {
+    version: 3,
+    description: 'Add index settings with content storage mode',
+    up(db) {
+      db.run('CREATE TABLE IF NOT EXISTS index_settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+      db.run("INSERT OR IGNORE INTO index_settings (key, value) VALUES ('content_storage', ?)", ['full']);
+    },
+  },
+  {
+    version: 4,
+    description: 'Stable document ids and shared content vectors',
+    up(db) {
+      const storage = db.exec("SELECT value FROM index_settings WHERE key = 'content_storage'");
+      const contentless = storage[0]?.values[0]?.[0] === 'contentless';
+
+      db.exec(DROP_FTS_TRIGGERS_SQL);
+      if (!contentless) {
+        db.run('DROP TABLE IF EXISTS documents_fts');
+      }
+
+      // Keep each rowid as the new id so a contentless FTS table stays valid.
+      // Existing short hashes are replaced the next time a note is indexed.
+      db.exec(`
+        ALTER TABLE documents RENAME TO documents_v3;
+        CREATE TABLE documents (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          hash TEXT NOT NULL,
+          collection_id INTEGER NOT NULL,
+          path TEXT UNIQUE NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          indexed_at INTEGER NOT NULL,
+          FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE
+        );
+        INSERT INTO documents (id, hash, collection_id, path, title, content, active, created_at, updated_at, indexed_at)
+          SELECT rowid, hash, collection_id, path, title, content, active, created_at, updated_at, indexed_at
+          FROM documents_v3;
+        DROP TABLE documents_v3;
+        CREATE INDEX IF NOT EXISTS idx_documents_collection ON documents(collection_id);
+        CREATE INDEX IF NOT EXISTS idx_documents_path ON documents(path);
+        CREATE INDEX IF NOT EXISTS idx_documents_active ON documents(active);
+        CREATE INDEX IF NOT EXISTS idx_documents_hash ON documents(hash);
+
+        ALTER TABLE content_vectors RENAME TO content_vectors_v3;
+        CREATE TABLE content_vectors (
+          hash_seq TEXT PRIMARY KEY,
+          hash TEXT NOT NULL,
+          seq INTEGER NOT NULL,
+          chunk_text TEXT NOT NULL,
+          token_count INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        INSERT INTO content_vectors SELECT hash_seq, hash, seq, chunk_text, token_count, created_at FROM content_vectors_v3;
+        DROP TABLE content_vectors_v3;
+        CREATE INDEX IF NOT EXISTS idx_content_vectors_hash ON content_vectors(hash);
+      `);
+
+      if (contentless) {
+        db.exec(CONTENTLESS_FTS_V4_SQL);
+      } else {
+        db.exec(FULL_FTS_V4_SQL);
+        db.run("INSERT INTO documents_fts(documents_fts) VALUES('rebuild')");
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Record file mtime and size for startup reconciliation',
+    up(db) {
+      db.run('ALTER TABLE documents ADD COLUMN file_mtime INTEGER NOT NULL DEFAULT 0');
+      db.run('ALTER TABLE documents ADD COLUMN file_size INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 6,
+    description: 'Index frontmatter properties, tags and aliases',
+    up(db) {
+      db.run("ALTER TABLE documents ADD COLUMN aliases TEXT NOT NULL DEFAULT ''");
+      db.run('ALTER TABLE documents ADD COLUMN metadata_version INTEGER NOT NULL DEFAULT 0');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS document_properties (
+          document_id INTEGER NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          value_number REAL,
+          value_type TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS document_tags (
+          document_id INTEGER NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (document_id, tag)
+        );
+        CREATE INDEX IF NOT EXISTS idx_document_properties_key ON document_properties(key, value);
+        CREATE INDEX IF NOT EXISTS idx_document_properties_document ON document_properties(document_id);
+        CREATE INDEX IF NOT EXISTS idx_document_tags_tag ON document_tags(tag);
+        CREATE TRIGGER IF NOT EXISTS documents_metadata_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM document_properties WHERE document_id = old.id;
+          DELETE FROM document_tags WHERE document_id = old.id;
+        END;
+      `);
+
+      // A contentless table receives aliases as notes are reindexed; the
+      // external-content table is recreated over the view that adds them
+      const storage = db.exec("SELECT value FROM index_settings WHERE key = 'content_storage'");
+      if (storage[0]?.values[0]?.[0] !== 'contentless') {
+        db.exec(DROP_FTS_TRIGGERS_SQL);
+        db.run('DROP TABLE IF EXISTS documents_fts');
+        db.exec(FULL_FTS_V6_SQL);
+        db.run("INSERT INTO documents_fts(documents_fts) VALUES('rebuild')");
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Add links table for the wikilink graph',
+    up(db) {
+      // Filled as documents are reindexed (see METADATA_VERSION)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS links (
+          source_id INTEGER NOT NULL,
+          target TEXT NOT NULL,
+          target_name TEXT NOT NULL,
+          target_path TEXT,
+          heading TEXT,
+          display TEXT,
+          embed INTEGER NOT NULL DEFAULT 0,
+          kind TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_links_source ON links(source_id);
+        CREATE INDEX IF NOT EXISTS idx_links_target_path ON links(target_path);
+        CREATE INDEX IF NOT EXISTS idx_links_target_name ON links(target_name);
+        CREATE TRIGGER IF NOT EXISTS documents_links_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM links WHERE source_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add heading sections and chunk positions',
+    up(db) {
+      // Sections are filled as documents are reindexed; chunk positions as
+      // documents are embedded again
+      // text_start and text_end are added by version 9
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_id INTEGER NOT NULL,
+          seq INTEGER NOT NULL,
+          heading TEXT,
+          heading_path TEXT NOT NULL,
+          level INTEGER NOT NULL,
+          anchor TEXT,
+          start_line INTEGER NOT NULL,
+          end_line INTEGER NOT NULL,
+          start_offset INTEGER NOT NULL,
+          end_offset INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_sections_document ON sections(document_id, seq);
+        CREATE VIRTUAL TABLE IF NOT EXISTS sections_fts USING fts5(
+          title,
+          content,
+          content='',
+          contentless_delete=1,
+          tokenize='porter unicode61'
+        );
+        CREATE TRIGGER IF NOT EXISTS documents_sections_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM sections_fts WHERE rowid IN (SELECT id FROM sections WHERE document_id = old.id);
+          DELETE FROM sections WHERE document_id = old.id;
+        END;
+      `);
+      db.run('ALTER TABLE content_vectors ADD COLUMN pos INTEGER');
+    },
+  },
+  {
+    version: 9,
+    description: 'Index normalized search text',
+    up(db) {
+      db.run("ALTER TABLE documents ADD COLUMN search_text TEXT NOT NULL DEFAULT ''");
+      db.run("ALTER TABLE documents ADD COLUMN search_aside TEXT NOT NULL DEFAULT ''");
+      db.run('ALTER TABLE sections ADD COLUMN text_start INTEGER NOT NULL DEFAULT 0');
+      db.run('ALTER TABLE sections ADD COLUMN text_end INTEGER NOT NULL DEFAULT 0');
+      // Chunk positions were offsets in the markdown; sections are matched
+      // by search text offsets from now on
+      db.run('UPDATE content_vectors SET pos = NULL');
+
+      // Search the markdown until notes are reindexed with normalized text
+      // (see METADATA_VERSION); a contentless table is refilled the same way
+      db.run('UPDATE documents SET search_text = content');
+      const storage = db.exec("SELECT value FROM index_settings WHERE key = 'content_storage'");
+      const contentless = storage[0]?.values[0]?.[0] === 'contentless';
+      db.exec(DROP_FTS_TRIGGERS_SQL);
+      db.run('DROP TABLE IF EXISTS documents_fts');
+      db.run('DROP VIEW IF EXISTS documents_fts_source');
+      if (contentless) {
+        db.exec(CONTENTLESS_FTS_V9_SQL);
+      } else {
+        db.exec(FULL_FTS_V9_SQL);
+        db.run("INSERT INTO documents_fts(documents_fts) VALUES('rebuild')");
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Add persistent job queue',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          kind TEXT NOT NULL,
+          target TEXT,
+          priority INTEGER NOT NULL DEFAULT 0,
+          status TEXT NOT NULL,
+          total INTEGER NOT NULL DEFAULT 0,
+          completed INTEGER NOT NULL DEFAULT 0,
+          checkpoint TEXT,
+          error TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, priority);
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: 'Add document revision history',
+    up(db) {
+      // Revisions are recorded once history is enabled in the settings
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_id INTEGER NOT NULL,
+          hash TEXT NOT NULL,
+          title TEXT NOT NULL,
+          search_text TEXT NOT NULL,
+          valid_from INTEGER NOT NULL,
+          valid_to INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_revisions_document ON revisions(document_id, valid_from);
+        CREATE VIRTUAL TABLE IF NOT EXISTS revisions_fts USING fts5(
+          title,
+          content,
+          content='',
+          contentless_delete=1,
+          tokenize='porter unicode61'
+        );
+        CREATE TRIGGER IF NOT EXISTS revisions_fts_delete AFTER DELETE ON revisions BEGIN
+          DELETE FROM revisions_fts WHERE rowid = old.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS documents_revisions_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM revisions WHERE document_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: 'Add MinHash content signatures',
+    up(db) {
+      // Existing documents are signed when near-duplicates are first searched
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS content_signatures (
+          hash TEXT PRIMARY KEY,
+          signature BLOB NOT NULL,
+          shingle_count INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Record the FTS tokenizer',
+    up(db) {
+      // Every FTS5 table so far was created with the default tokenizer;
+      // switching it rebuilds them (see IndexRepository.setFtsTokenizer)
+      db.run("INSERT OR IGNORE INTO index_settings (key, value) VALUES ('fts_tokenizer', 'porter')");
+    },
+  },
+  {
+    version: 14,
+    description: 'Add markdown tasks',
+    up(db) {
+      // Existing notes get their tasks when METADATA_VERSION 5 has them reindexed
+      db.exec(withFtsTokenizer(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_id INTEGER NOT NULL,
+          line INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          state TEXT NOT NULL,
+          text TEXT NOT NULL,
+          heading TEXT,
+          heading_path TEXT NOT NULL,
+          anchor TEXT,
+          date TEXT,
+          due_date TEXT,
+          scheduled_date TEXT,
+          start_date TEXT,
+          done_date TEXT,
+          tags TEXT NOT NULL DEFAULT ''
+        );
+        CREATE INDEX IF NOT EXISTS idx_tasks_document ON tasks(document_id, line);
+        CREATE INDEX IF NOT EXISTS idx_tasks_state ON tasks(state, date);
+        CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+          title,
+          content,
+          content='',
+          contentless_delete=1,
+          tokenize='porter unicode61'
+        );
+        CREATE TRIGGER IF NOT EXISTS tasks_fts_delete AFTER DELETE ON tasks BEGIN
+          DELETE FROM tasks_fts WHERE rowid = old.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS documents_tasks_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM tasks WHERE document_id = old.id;
+        END;
+      `, getFtsTokenizer(db)));
+    },
+  },
+  {
+    version: 15,
+    description: 'Add blocks and embed dependencies',
+    up(db) {
+      // Blocks are found when METADATA_VERSION 6 has notes reindexed;
+      // dependencies once embed expansion is turned on
+      db.exec(withFtsTokenizer(`
+        CREATE TABLE IF NOT EXISTS blocks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_id INTEGER NOT NULL,
+          block_id TEXT NOT NULL,
+          heading_path TEXT NOT NULL,
+          start_line INTEGER NOT NULL,
+          end_line INTEGER NOT NULL,
+          start_offset INTEGER NOT NULL,
+          end_offset INTEGER NOT NULL,
+          search_text TEXT NOT NULL DEFAULT ''
+        );
+        CREATE INDEX IF NOT EXISTS idx_blocks_document ON blocks(document_id, start_line);
+        CREATE VIRTUAL TABLE IF NOT EXISTS blocks_fts USING fts5(
+          title,
+          content,
+          content='',
+          contentless_delete=1,
+          tokenize='porter unicode61'
+        );
+        CREATE TRIGGER IF NOT EXISTS blocks_fts_delete AFTER DELETE ON blocks BEGIN
+          DELETE FROM blocks_fts WHERE rowid = old.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS documents_blocks_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM blocks WHERE document_id = old.id;
+        END;
+      `, getFtsTokenizer(db)));
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS embed_dependencies (
+          document_id INTEGER NOT NULL,
+          target_path TEXT NOT NULL,
+          PRIMARY KEY (document_id, target_path)
+        );
+        CREATE INDEX IF NOT EXISTS idx_embed_dependencies_target ON embed_dependencies(target_path);
+        CREATE TRIGGER IF NOT EXISTS documents_embed_dependencies_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM embed_dependencies WHERE document_id = old.id;
+        END;
+      `);
+    },
+  },
+];
+
+/**
+ * Tokenizer the FTS5 tables were created with, recorded since version 13
+ */
+function getFtsTokenizer(db: SqlJsDatabase): FtsTokenizer {
+  const tokenizer = db.exec("SELECT value FROM index_settings WHERE key = 'fts_tokenizer'")[0]?.values[0]?.[0];
+  return isFtsTokenizer(tokenizer) ? tokenizer : 'porter';
+}
+
+/**
+ * Get migrations that still need to run for a database at the given version
+ */
+export function getPendingMigrations(currentVersion: number): Migration[] {
+  return MIGRATIONS.filter(m => m.version > currentVersion);
+}
+
+/**
+ * Verify the registry is ordered and ends at SCHEMA_VERSION
+ */
+export function validateMigrations(): void {
+  let previous = 1;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= previous) {
+      throw new Error(
+        `Migration ${migration.version} is out of order (previous: ${previous})`
+      );
+    }
+    previous = migration.version;
+  }
+
+  if (previous !== SCHEMA_VERSION) {
+    throw new Error(
+      `Latest migration (${previous}) does not match SCHEMA_VERSION (${SCHEMA_VERSION})`
+    );
+  }
+}
+
+/**
+ * Tables and columns of a new database that a migrated one lacks,
+ * e.g. "column sections.text_start"
+ *
+ * FTS5 shadow tables are skipped, since they depend on the content storage mode.
+ */
+export function findMissingSchema(migrated: SqlJsDatabase, expected: SqlJsDatabase): string[] {
+  const missing: string[] = [];
+  const migratedTables = listTables(migrated);
+
+  for (const [table, columns] of listTables(expected)) {
+    const existing = migratedTables.get(table);
+    if (!existing) {
+      missing.push(`table ${table}`);
+      continue;
+    }
+    for (const column of columns) {
+      if (!existing.includes(column)) missing.push(`column ${table}.${column}`);
+    }
+  }
+
+  return missing;
+}
+
+function listTables(db: SqlJsDatabase): Map<string, string[]> {
+  const rows = db.exec("SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")[0]?.values ?? [];
+  const virtual = rows
+    .filter(([, sql]) => typeof sql === 'string' && /^CREATE VIRTUAL TABLE/i.test(sql))
+    .map(([name]) => String(name));
+
+  const tables = new Map<string, string[]>();
+  for (const [value] of rows) {
+    const name = String(value);
+    if (virtual.some(table => name.startsWith(`${table}_`))) continue;
+    const columns = db.exec(`PRAGMA table_info("${name.replace(/"/g, '""')}")`)[0]?.values ?? [];
+    tables.set(name, columns.map(column => String(column[1])));
+  }
+  return tables;
+}
@@ -0,0 +1,121 @@
+/**
+ * MinHash Signatures for QMD Search
+ * Compact fingerprints of document content: notes whose signatures agree
+ * in many positions share many word shingles, so their Jaccard similarity
+ * can be estimated without comparing the texts.
+ */
+
+/** Hash functions per signature; the estimate's error is about 1/sqrt(128) */
+export const MINHASH_PERMUTATIONS = 128;
+
+/** Words per shingle */
+export const SHINGLE_SIZE = 3;
+
+export interface MinHashSignature {
+  /** Minimum hash of the content's shingles under each permutation */
+  values: Uint32Array;
+  /** Distinct shingles in the content, 0 for content without words */
+  shingleCount: number;
+}
+
+/**
+ * Permutation seeds; fixed so signatures stored in the index stay comparable
+ */
+const SEEDS: Uint32Array = (() => {
+  const seeds = new Uint32Array(MINHASH_PERMUTATIONS);
+  let state = 0x2545f491;
+  for (let i = 0; i < seeds.length; i++) {
+    // mulberry32
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    seeds[i] = (t ^ (t >>> 14)) >>> 0;
+  }
+  return seeds;
+})();
+
+/**
+ * Overlapping runs of SHINGLE_SIZE lowercased words; content with fewer
+ * words is a single shingle
+ */
+export function shingle(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const shingles = new Set<string>();
+  if (words.length === 0) return shingles;
+
+  if (words.length < SHINGLE_SIZE) {
+    shingles.add(words.join(' '));
+    return shingles;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+export function computeMinHash(text: string): MinHashSignature {
+  const shingles = shingle(text);
+  const values = new Uint32Array(MINHASH_PERMUTATIONS).fill(0xffffffff);
+
+  for (const item of shingles) {
+    const base = fnv1a(item);
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      const hash = fmix32(base ^ SEEDS[i]);
+      if (hash < values[i]) values[i] = hash;
+    }
+  }
+  return { values, shingleCount: shingles.size };
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+
+  let equal = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / length;
+}
+
+/**
+ * Signature values as stored in the index (little-endian bytes)
+ */
+export function encodeSignature(values: Uint32Array): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value, true));
+  return bytes;
+}
+
+export function decodeSignature(bytes: Uint8Array): Uint32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const values = new Uint32Array(Math.floor(bytes.byteLength / 4));
+  for (let i = 0; i < values.length; i++) {
+    values[i] = view.getUint32(i * 4, true);
+  }
+  return values;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** MurmurHash3 finalizer: spreads every input bit over the output */
+function fmix32(hash: number): number {
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
@@ -0,0 +1,222 @@
+/**
+ * Markdown Normalizer for QMD Search
+ * Turns markdown into plain text for full-text indexing and embedding, so
+ * link syntax, comments, HTML and table pipes do not skew BM25 statistics or
+ * waste embedding tokens. The original markdown is still stored for display.
+ */
+
+import { splitFrontmatter } from './metadata';
+import type { DocumentSection } from './sections';
+
+/**
+ * What to do with an element
+ * - keep: index its text with the rest of the note
+ * - strip: leave it out of the index
+ * - separate: index it in its own FTS column (not embedded)
+ */
+export type NormalizerRule = 'keep' | 'strip' | 'separate';
+
+export interface NormalizerRules {
+  frontmatter: NormalizerRule;
+  codeBlocks: NormalizerRule;
+  callouts: NormalizerRule;
+  comments: NormalizerRule;
+  footnotes: NormalizerRule;
+}
+
+export const DEFAULT_NORMALIZER_RULES: NormalizerRules = {
+  // Properties, tags and aliases are indexed from frontmatter separately
+  frontmatter: 'strip',
+  codeBlocks: 'separate',
+  callouts: 'keep',
+  comments: 'strip',
+  footnotes: 'separate',
+};
+
+/**
+ * A section with the range its normalized text occupies in the search text
+ */
+export interface IndexedSection extends DocumentSection {
+  /** Normalized text of the section */
+  searchText: string;
+  /** Character range of searchText within the document's search text */
+  textStart: number;
+  textEnd: number;
+}
+
+export interface NormalizedDocument {
+  /** Plain text indexed as content and embedded */
+  text: string;
+  /** Text of elements indexed separately (code, footnotes, ...) */
+  aside: string;
+  sections: IndexedSection[];
+}
+
+const CODE_FENCE_PATTERN = /^[ \t]*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)^[ \t]*\1[ \t]*$/gm;
+const COMMENT_PATTERN = /%%([\s\S]*?)%%/g;
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+const CALLOUT_PATTERN = /^>[ \t]*\[!([^\]\n]+)\][+-]?[ \t]*([^\n]*)((?:\n>[^\n]*)*)/gm;
+const FOOTNOTE_DEFINITION_PATTERN = /^\[\^[^\]\n]+\]:[ \t]*([^\n]*(?:\n(?: {2,}|\t)[^\n]*)*)/gm;
+const INLINE_FOOTNOTE_PATTERN = /\^\[([^\]\n]*)\]/g;
+const FOOTNOTE_REFERENCE_PATTERN = /\[\^[^\]\n]+\]/g;
+const EMBED_PATTERN = /!\[\[[^\]\n]*\]\]|!\[[^\]\n]*\]\([^)\n]*\)/g;
+const BLOCK_ID_PATTERN = /(?:^|[ \t]+)\^[A-Za-z0-9-]+[ \t]*$/gm;
+const WIKILINK_PATTERN = /\[\[([^\]|\n]*?)(?:\|([^\]\n]*))?\]\]/g;
+const MARKDOWN_LINK_PATTERN = /\[([^\]\n]*)\]\([^)\n]*\)/g;
+const HTML_TAG_PATTERN = /<\/?[a-zA-Z][^>\n]*>/g;
+const TABLE_SEPARATOR_PATTERN = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)+\|?[ \t]*$/gm;
+const HORIZONTAL_RULE_PATTERN = /^[ \t]*([-*_])(?:[ \t]*\1){2,}[ \t]*$/gm;
+const PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/g;
+
+export class MarkdownNormalizer {
+  constructor(private rules: NormalizerRules = DEFAULT_NORMALIZER_RULES) {}
+
+  getRules(): NormalizerRules {
+    return { ...this.rules };
+  }
+
+  /**
+   * Normalize a note section by section, so positions in the search text
+   * (e.g. embedding chunks) can be mapped back to a heading
+   *
+   * @param embeds - Markdown to index in place of embeds, by the embed as
+   *   written (see TransclusionExpander); other embeds are left out
+   */
+  normalizeDocument(
+    content: string,
+    sections: DocumentSection[],
+    embeds?: ReadonlyMap<string, string>
+  ): NormalizedDocument {
+    const aside: string[] = [];
+    const parts: string[] = [];
+    let length = 0;
+
+    const { frontmatter } = splitFrontmatter(content);
+    if (frontmatter) {
+      this.apply(this.rules.frontmatter, frontmatter, aside, text => {
+        parts.push(text);
+        length += text.length + 2;
+      });
+    }
+
+    const indexed = sections.map(section => {
+      const searchText = this.normalizeMarkdown(section.text, aside, embeds);
+      const textStart = length;
+      parts.push(searchText);
+      length += searchText.length + 2;
+      return { ...section, searchText, textStart, textEnd: textStart + searchText.length };
+    });
+
+    return {
+      text: parts.join('\n\n'),
+      aside: aside.join('\n\n'),
+      sections: indexed,
+    };
+  }
+
+  /**
+   * Plain text of a markdown fragment; separately indexed parts go to aside
+   */
+  normalizeMarkdown(markdown: string, aside: string[] = [], embeds?: ReadonlyMap<string, string>): string {
+    // Kept code (and expanded embeds) is swapped for placeholders so later
+    // rules leave it alone
+    const protectedCode: string[] = [];
+    let text = markdown.replace(CODE_FENCE_PATTERN, (_, _fence, code: string) => {
+      return this.replaceElement(this.rules.codeBlocks, code.trimEnd(), aside, kept => {
+        protectedCode.push(kept);
+        return `\u0000${protectedCode.length - 1}\u0000`;
+      });
+    });
+
+    text = text
+      .replace(COMMENT_PATTERN, (_, comment: string) =>
+        this.replaceElement(this.rules.comments, comment.trim(), aside))
+      .replace(HTML_COMMENT_PATTERN, '')
+      .replace(CALLOUT_PATTERN, (_, _type, title: string, body: string) => {
+        const calloutText = [title, body.replace(/^\n?>[ \t]?/gm, '\n')].join('').trim();
+        return this.replaceElement(this.rules.callouts, calloutText, aside);
+      })
+      .replace(FOOTNOTE_DEFINITION_PATTERN, (_, note: string) =>
+        this.replaceElement(this.rules.footnotes, note.replace(/\s+/g, ' ').trim(), aside))
+      .replace(INLINE_FOOTNOTE_PATTERN, (_, note: string) =>
+        this.replaceElement(this.rules.footnotes, note.trim(), aside, kept => ` ${kept}`))
+      .replace(FOOTNOTE_REFERENCE_PATTERN, '')
+      .replace(EMBED_PATTERN, embed => {
+        // Embedded markdown is normalized on its own and protected like code
+        const expanded = embeds?.get(embed);
+        if (!expanded) return '';
+        protectedCode.push(this.normalizeMarkdown(expanded, aside));
+        return `\u0000${protectedCode.length - 1}\u0000`;
+      })
+      .replace(BLOCK_ID_PATTERN, '')
+      .replace(WIKILINK_PATTERN, (_, target: string, alias?: string) =>
+        alias?.trim() || target.replace(/#\^?/g, ' ').replace(/\.md\b/i, '').trim())
+      .replace(MARKDOWN_LINK_PATTERN, '$1')
+      .replace(HTML_TAG_PATTERN, '')
+      .replace(TABLE_SEPARATOR_PATTERN, '')
+      .replace(HORIZONTAL_RULE_PATTERN, '')
+      .replace(/^[ \t]*>[ \t]?/gm, '')
+      .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')
+      .replace(/^([ \t]*)(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?/gm, '$1')
+      .replace(/\|/g, ' ')
+      .replace(/(\*\*|__|~~|==)/g, '')
+      .replace(/`([^`\n]*)`/g, '$1')
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n');
+
+    return text
+      .replace(PLACEHOLDER_PATTERN, (_, index: string) => protectedCode[Number(index)])
+      .trim();
+  }
+
+  /**
+   * Apply a rule to an element's text and return what stays in place
+   */
+  private replaceElement(
+    rule: NormalizerRule,
+    text: string,
+    aside: string[],
+    keep: (text: string) => string = kept => kept
+  ): string {
+    let replacement = '';
+    this.apply(rule, text, aside, kept => { replacement = keep(kept); });
+    return replacement;
+  }
+
+  private apply(rule: NormalizerRule, text: string, aside: string[], keep: (text: string) => void): void {
+    if (!text) return;
+    if (rule === 'keep') {
+      keep(text);
+    } else if (rule === 'separate') {
+      aside.push(text);
+    }
+  }
+}
+
+/**
+ * Search text of a plain text file: the text as is, in one section
+ */
+export function plainTextDocument(text: string): NormalizedDocument {
+  if (!text.trim()) {
+    return { text, aside: '', sections: [] };
+  }
+  return {
+    text,
+    aside: '',
+    sections: [{
+      seq: 0,
+      heading: null,
+      headingPath: [],
+      level: 0,
+      anchor: null,
+      startLine: 0,
+      endLine: text.split('\n').length - 1,
+      startOffset: 0,
+      endOffset: text.length,
+      text,
+      searchText: text,
+      textStart: 0,
+      textEnd: text.length,
+    }],
+  };
+}
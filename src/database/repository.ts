@@ -0,0 +1,2189 @@
+/**
+ * Index Repository for QMD Search
+ * Single data-access layer over the SQLite index: every query used by the
+ * indexer, searchers, collection manager and UI lives here, with typed row
+ * mappers and a cache of prepared statements reused across calls.
+ *
+ * The repository runs inside the database worker. The plugin uses it through
+ * RemoteIndexRepository, which has the same methods returning promises.
+ */
+
+import type { Connection, SqlValue, Statement } from './connection';
+import type { IndexedDocument } from './indexer';
+import type { Collection } from '../collections/manager';
+import type { MetadataFilter, PropertyValue } from './metadata';
+import type { DocumentLink, LinkKind } from './links';
+import type { IndexedSection, NormalizerRules } from './normalizer';
+import type { DocumentTask, TaskState } from './tasks';
+import type { IndexedBlock } from './blocks';
+import type { TransclusionOptions } from './transclusions';
+import {
+  BLOCKS_FTS_SQL,
+  CONTENTLESS_FTS_SQL,
+  DEFAULT_CONTENT_STORAGE,
+  DEFAULT_FTS_TOKENIZER,
+  DROP_FTS_SQL,
+  FULL_FTS_SQL,
+  REVISIONS_FTS_SQL,
+  SECTIONS_FTS_SQL,
+  TASKS_FTS_SQL,
+  isFtsTokenizer,
+  withFtsTokenizer,
+  type ContentStorageMode,
+  type FtsTokenizer,
+} from './schema';
+
+type Row = Record<string, SqlValue>;
+
+/**
+ * A stored embedding chunk (content_vectors row)
+ */
+export interface StoredChunk {
+  hashSeq: string;
+  hash: string;
+  seq: number;
+  chunkText: string;
+  tokenCount: number;
+  /** Character offset of the chunk in its document's search text, null if not recorded */
+  pos: number | null;
+  createdAt: number;
+}
+
+/**
+ * The section of a document a result points at
+ */
+export interface SectionMatch {
+  seq: number;
+  /** Heading text, null for text before the first heading */
+  heading: string | null;
+  /** Heading hierarchy joined with " > " */
+  headingPath: string;
+  /** Link subpath for [[note#anchor]] */
+  anchor: string | null;
+  /** Line range (0-indexed, inclusive) */
+  startLine: number;
+  endLine: number;
+  /** Character range [start, end) */
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * The ^block-id block of a document a result points at
+ */
+export interface BlockMatch {
+  /** Block id without the caret; the link subpath is "^" + blockId */
+  blockId: string;
+  /** Line range (0-indexed, inclusive) */
+  startLine: number;
+  endLine: number;
+  /** Character range [start, end) */
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * A BM25 match from documents_fts joined with its document
+ * Content is not selected; load it lazily when the result is displayed.
+ */
+export interface FtsMatch {
+  /** Document id */
+  id: number;
+  /** Content hash */
+  hash: string;
+  title: string;
+  path: string;
+  /** Raw BM25 score (negative, lower = better) */
+  bm25Score: number;
+  /** Highlighted snippet, empty unless requested or in contentless mode */
+  snippet: string;
+}
+
+/**
+ * A KNN match from vectors_vec joined with its chunk and document
+ */
+export interface VectorMatch {
+  hashSeq: string;
+  /** Document id */
+  id: number;
+  /** Content hash of the document (shared by identical documents) */
+  hash: string;
+  seq: number;
+  /** Raw cosine distance (0 = identical, 2 = opposite) */
+  distance: number;
+  title: string;
+  path: string;
+  /** Section where the chunk starts, null if the chunk position is unknown */
+  section: SectionMatch | null;
+}
+
+export interface FtsQuery {
+  /** Sanitized FTS5 MATCH expression; omit to match by contains alone */
+  match?: string;
+  /**
+   * Text every match must contain in its title, aliases or search text, for
+   * terms too short for the trigram tokenizer. Note text is not stored in
+   * contentless mode, so only titles and aliases are checked there.
+   */
+  contains?: string[];
+  collectionFilter?: string;
+  /** Maximum |bm25| to accept */
+  maxBm25?: number;
+  limit: number;
+  /** Number of snippet tokens; omit to skip snippet extraction */
+  snippetTokens?: number;
+  /** Property and tag conditions every match must meet */
+  filters?: MetadataFilter[];
+}
+
+export interface VectorQuery {
+  embedding: Float32Array;
+  collectionFilter?: string;
+  limit: number;
+  filters?: MetadataFilter[];
+}
+
+export interface DocumentUpsert {
+  hash: string;
+  collectionId: number;
+  path: string;
+  title: string;
+  content: string;
+  /** Normalized text indexed and embedded in place of the content */
+  searchText: string;
+  /** Separately indexed text (code, footnotes, ...) */
+  searchAside: string;
+  timestamp: number;
+  /** File modification time and size in bytes */
+  mtime: number;
+  size: number;
+  aliases: string[];
+  tags: string[];
+  properties: PropertyValue[];
+  links: DocumentLink[];
+  sections: IndexedSection[];
+  tasks: DocumentTask[];
+  blocks: IndexedBlock[];
+  /** Paths of the notes its expanded embeds were read from (see transclusions.ts) */
+  dependencies: string[];
+  /** Encoded MinHash signature of the content (see minhash.ts) */
+  signature: Uint8Array;
+  shingleCount: number;
+  /** Metadata extraction version, see METADATA_VERSION */
+  metadataVersion: number;
+}
+
+/**
+ * What is known about a document's file, active or not
+ */
+export interface DocumentFileState {
+  id: number;
+  path: string;
+  hash: string;
+  collectionId: number;
+  active: boolean;
+  mtime: number;
+  size: number;
+  metadataVersion: number;
+}
+
+export interface DocumentCounts {
+  total: number;
+  active: number;
+  collections: number;
+}
+
+/**
+ * Active document without its content, with the name of its collection
+ */
+export interface DocumentMetadata {
+  id: number;
+  hash: string;
+  collectionName: string;
+  path: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A document linking to another one
+ */
+export interface Backlink {
+  id: number;
+  path: string;
+  title: string;
+  /** Heading or block the link points to */
+  heading: string | null;
+  display: string | null;
+  embed: boolean;
+}
+
+/**
+ * A link written in a document, with the document it resolves to
+ */
+export interface OutgoingLink {
+  target: string;
+  /** Resolved vault path, null if unresolved */
+  targetPath: string | null;
+  /** Indexed document at targetPath, null for unresolved links and non-indexed files */
+  targetId: number | null;
+  targetTitle: string | null;
+  heading: string | null;
+  display: string | null;
+  embed: boolean;
+  kind: LinkKind;
+}
+
+/**
+ * A document within n links of another one, in either direction
+ */
+export interface LinkNeighbor {
+  id: number;
+  path: string;
+  title: string;
+  /** Number of links between the two documents (0 = the document itself) */
+  depth: number;
+}
+
+/**
+ * A link that did not resolve when its document was indexed
+ */
+export interface UnresolvedLink {
+  linkId: number;
+  sourcePath: string;
+  target: string;
+}
+
+export type JobKind =
+  | 'index-file'
+  | 'reindex-all'
+  | 'reindex-collection'
+  | 'reindex-dependents'
+  | 'embed-documents'
+  | 'collect-garbage';
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A queued unit of indexing or embedding work (jobs row)
+ */
+export interface Job {
+  id: number;
+  kind: JobKind;
+  /** File path or collection name the job works on, null for the whole index */
+  target: string | null;
+  priority: number;
+  status: JobStatus;
+  total: number;
+  completed: number;
+  /** Resume cursor written by the job, null before its first checkpoint */
+  checkpoint: string | null;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type JobUpdate = Partial<Pick<Job, 'status' | 'total' | 'completed' | 'checkpoint' | 'error'>>;
+
+/**
+ * Whether previous versions of documents are kept, and for how long
+ */
+export interface RevisionPolicy {
+  enabled: boolean;
+  /** Replaced versions kept per document, 0 for no limit */
+  maxRevisions: number;
+  /** Days a replaced version is kept, 0 for no limit */
+  maxAgeDays: number;
+}
+
+/**
+ * MinHash signature of some content (content_signatures row)
+ */
+export interface ContentSignature {
+  hash: string;
+  /** Encoded signature values, see decodeSignature() */
+  signature: Uint8Array;
+  /** Distinct word shingles in the content, 0 for content without words */
+  shingleCount: number;
+}
+
+/**
+ * What a purge of inactive documents removed
+ */
+export interface PurgeCounts {
+  documents: number;
+  /** Chunks (and their embeddings) no remaining document referenced */
+  chunks: number;
+}
+
+/**
+ * Outcome of the last garbage collection, kept in index_settings for the status view
+ */
+export interface GarbageCollectionReport extends PurgeCounts {
+  finishedAt: number;
+  retentionDays: number;
+  /** Database size after the purge and VACUUM */
+  databaseSize: number;
+  reclaimedBytes: number;
+}
+
+export interface RevisionQuery {
+  /** Sanitized FTS5 MATCH expression; omit to match by contains alone */
+  match?: string;
+  /** Text every revision must contain in its title or search text (see FtsQuery.contains) */
+  contains?: string[];
+  /** Only search versions current at this time (ms); omit to search all versions */
+  asOf?: number;
+  collectionFilter?: string;
+  limit: number;
+  /** Property and tag conditions, checked against the current document */
+  filters?: MetadataFilter[];
+}
+
+/**
+ * A BM25 match from revisions_fts joined with its revision and document
+ */
+export interface RevisionMatch {
+  revisionId: number;
+  /** Document id */
+  id: number;
+  /** Content hash of the revision */
+  hash: string;
+  /** Title of the document in that revision */
+  title: string;
+  /** Current path of the document */
+  path: string;
+  /** False once the document was removed from the index */
+  active: boolean;
+  /** When the revision became current and when it was replaced (null if still current) */
+  validFrom: number;
+  validTo: number | null;
+  /** Raw BM25 score (negative, lower = better) */
+  bm25Score: number;
+}
+
+export interface TaskQuery {
+  /** Sanitized FTS5 MATCH expression; omit to list tasks by date */
+  match?: string;
+  /** Text every task must contain in its text or heading path (see FtsQuery.contains) */
+  contains?: string[];
+  /** Only tasks in these states (default: all) */
+  states?: TaskState[];
+  /** Inclusive bounds on the task's date (YYYY-MM-DD); tasks without a date are left out when either is set */
+  dateFrom?: string;
+  dateTo?: string;
+  collectionFilter?: string;
+  /** Only tasks of these documents */
+  documentIds?: number[];
+  limit: number;
+}
+
+/**
+ * A task joined with its document, from tasks_fts when searched by text
+ */
+export interface TaskMatch {
+  taskId: number;
+  /** Document id */
+  id: number;
+  hash: string;
+  /** Title of the note */
+  title: string;
+  path: string;
+  task: DocumentTask;
+  /** Raw BM25 score (negative, lower = better), null when listed without a match */
+  bm25Score: number | null;
+}
+
+export interface StoredEmbedding {
+  hashSeq: string;
+  /** Raw float32 vector bytes as stored by vec0 */
+  embedding: Uint8Array;
+}
+
+/**
+ * True if a hash is a short content hash written before schema v4
+ * (a hex prefix of the full SHA-256)
+ */
+function isLegacyHashOf(stored: string, hash: string): boolean {
+  return stored.length < hash.length && hash.startsWith(stored);
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Conditions requiring each term as a substring of one of the columns,
+ * for terms the trigram tokenizer cannot match
+ */
+function containsSql(terms: string[] = [], columns: string[]): { sql: string; params: SqlValue[] } {
+  const conditions: string[] = [];
+  const params: SqlValue[] = [];
+
+  for (const term of terms) {
+    conditions.push(`(${columns.map(column => `${column} LIKE ? ESCAPE '\\'`).join(' OR ')})`);
+    params.push(...columns.map(() => `%${escapeLike(term)}%`));
+  }
+
+  return { sql: conditions.map(condition => `AND ${condition}`).join('\n'), params };
+}
+
+/**
+ * Translate metadata filters into conditions on the document alias "d"
+ *
+ * A tag matches itself and its nested tags (project matches project/alpha).
+ * Numbers compare numerically; text and dates compare as strings, which
+ * orders ISO dates correctly. "!=" matches documents without the value,
+ * including those that lack the property.
+ */
+function metadataFilterSql(filters: MetadataFilter[] = []): { sql: string; params: SqlValue[] } {
+  const conditions: string[] = [];
+  const params: SqlValue[] = [];
+
+  for (const filter of filters) {
+    const negate = filter.operator === '!=';
+
+    if (filter.field === 'tag') {
+      const tag = String(filter.value);
+      conditions.push(
+        `${negate ? 'NOT ' : ''}EXISTS (SELECT 1 FROM document_tags t WHERE t.document_id = d.id ` +
+        `AND (t.tag = ? OR t.tag LIKE ? ESCAPE '\\'))`
+      );
+      params.push(tag, `${escapeLike(tag)}/%`);
+      continue;
+    }
+
+    const operator = negate ? '=' : filter.operator;
+    let comparison: string;
+    if (typeof filter.value === 'number') {
+      comparison = `p.value_number ${operator} ?`;
+      params.push(filter.field, filter.value);
+    } else if (typeof filter.value === 'boolean') {
+      comparison = `p.value_type = 'boolean' AND p.value ${operator} ?`;
+      params.push(filter.field, String(filter.value));
+    } else if (operator === '=') {
+      comparison = 'lower(p.value) = lower(?)';
+      params.push(filter.field, filter.value);
+    } else {
+      comparison = `p.value_type IN ('text', 'date') AND p.value ${operator} ?`;
+      params.push(filter.field, filter.value);
+    }
+
+    conditions.push(
+      `${negate ? 'NOT ' : ''}EXISTS (SELECT 1 FROM document_properties p WHERE p.document_id = d.id ` +
+      `AND p.key = ? AND ${comparison})`
+    );
+  }
+
+  return { sql: conditions.map(condition => `AND ${condition}`).join('\n'), params };
+}
+
+// Row mappers: one place that knows column names and types
+
+const DOCUMENT_COLUMNS = 'id, hash, collection_id, path, title, content, search_text, created_at, updated_at';
+
+export function mapDocument(row: Row): IndexedDocument {
+  return {
+    id: row.id as number,
+    hash: row.hash as string,
+    collectionId: row.collection_id as number,
+    path: row.path as string,
+    title: row.title as string,
+    content: row.content as string,
+    searchText: row.search_text as string,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+  };
+}
+
+const COLLECTION_COLUMNS = 'id, name, path, glob_pattern, created_at, updated_at';
+
+export function mapCollection(row: Row): Collection {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    path: row.path as string,
+    globPattern: row.glob_pattern as string,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+  };
+}
+
+export function mapChunk(row: Row): StoredChunk {
+  return {
+    hashSeq: row.hash_seq as string,
+    hash: row.hash as string,
+    seq: row.seq as number,
+    chunkText: row.chunk_text as string,
+    tokenCount: row.token_count as number,
+    pos: (row.pos as number | null) ?? null,
+    createdAt: row.created_at as number,
+  };
+}
+
+const SECTION_COLUMNS = 'seq, heading, heading_path, anchor, start_line, end_line, start_offset, end_offset';
+
+export function mapSection(row: Row): SectionMatch {
+  return {
+    seq: row.seq as number,
+    heading: row.heading as string | null,
+    headingPath: row.heading_path as string,
+    anchor: row.anchor as string | null,
+    startLine: row.start_line as number,
+    endLine: row.end_line as number,
+    startOffset: row.start_offset as number,
+    endOffset: row.end_offset as number,
+  };
+}
+
+const BLOCK_COLUMNS = 'block_id, start_line, end_line, start_offset, end_offset';
+
+export function mapBlock(row: Row): BlockMatch {
+  return {
+    blockId: row.block_id as string,
+    startLine: row.start_line as number,
+    endLine: row.end_line as number,
+    startOffset: row.start_offset as number,
+    endOffset: row.end_offset as number,
+  };
+}
+
+const JOB_COLUMNS = 'id, kind, target, priority, status, total, completed, checkpoint, error, created_at, updated_at';
+
+export function mapJob(row: Row): Job {
+  return {
+    id: row.id as number,
+    kind: row.kind as JobKind,
+    target: row.target as string | null,
+    priority: row.priority as number,
+    status: row.status as JobStatus,
+    total: row.total as number,
+    completed: row.completed as number,
+    checkpoint: row.checkpoint as string | null,
+    error: row.error as string | null,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+  };
+}
+
+export function mapRevisionMatch(row: Row): RevisionMatch {
+  return {
+    revisionId: row.revision_id as number,
+    id: row.id as number,
+    hash: row.hash as string,
+    title: row.title as string,
+    path: row.path as string,
+    active: row.active === 1,
+    validFrom: row.valid_from as number,
+    validTo: row.valid_to as number | null,
+    bm25Score: row.bm25_score as number,
+  };
+}
+
+const TASK_COLUMNS =
+  'line, status, state, text, heading, heading_path, anchor, date, due_date, scheduled_date, start_date, done_date, tags';
+
+export function mapTaskMatch(row: Row): TaskMatch {
+  return {
+    taskId: row.task_id as number,
+    id: row.id as number,
+    hash: row.hash as string,
+    title: row.title as string,
+    path: row.path as string,
+    task: {
+      line: row.line as number,
+      status: row.status as string,
+      state: row.state as TaskState,
+      text: row.text as string,
+      heading: row.heading as string | null,
+      headingPath: row.heading_path ? (row.heading_path as string).split(' > ') : [],
+      anchor: row.anchor as string | null,
+      date: row.date as string | null,
+      dueDate: row.due_date as string | null,
+      scheduledDate: row.scheduled_date as string | null,
+      startDate: row.start_date as string | null,
+      doneDate: row.done_date as string | null,
+      tags: row.tags ? (row.tags as string).split('\n') : [],
+    },
+    bm25Score: (row.bm25_score as number | null) ?? null,
+  };
+}
+
+export function mapFtsMatch(row: Row): FtsMatch {
+  return {
+    id: row.id as number,
+    hash: row.hash as string,
+    title: row.title as string,
+    path: row.path as string,
+    bm25Score: row.bm25_score as number,
+    snippet: (row.snippet as string) || '',
+  };
+}
+
+export function mapVectorMatch(row: Row): VectorMatch {
+  return {
+    hashSeq: row.hash_seq as string,
+    id: row.id as number,
+    hash: row.hash as string,
+    seq: row.seq as number,
+    distance: row.distance as number,
+    title: row.title as string,
+    path: row.path as string,
+    section: row.section_seq !== null && row.section_seq !== undefined
+      ? mapSection({
+        seq: row.section_seq,
+        heading: row.section_heading,
+        heading_path: row.section_heading_path,
+        anchor: row.section_anchor,
+        start_line: row.section_start_line,
+        end_line: row.section_end_line,
+        start_offset: row.section_start_offset,
+        end_offset: row.section_end_offset,
+      })
+      : null,
+  };
+}
+
+export class IndexRepository {
+  private statements: Map<string, Statement> = new Map();
+  private generation: number;
+
+  constructor(private db: Connection) {
+    this.generation = db.getConnectionGeneration();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statement cache and helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get a cached prepared statement, re-preparing everything if the
+   * connection was reopened since the cache was filled
+   */
+  private statement(sql: string): Statement {
+    const generation = this.db.getConnectionGeneration();
+    if (generation !== this.generation) {
+      // sql.js already finalized these when the connection was reopened
+      this.statements.clear();
+      this.generation = generation;
+    }
+
+    let stmt = this.statements.get(sql);
+    if (!stmt) {
+      stmt = this.db.prepare(sql);
+      this.statements.set(sql, stmt);
+    }
+    return stmt;
+  }
+
+  private all<T>(sql: string, params: SqlValue[], mapper: (row: Row) => T): T[] {
+    const stmt = this.statement(sql);
+    const results: T[] = [];
+    try {
+      stmt.bind(params);
+      while (stmt.step()) {
+        results.push(mapper(stmt.getAsObject()));
+      }
+    } finally {
+      stmt.reset();
+    }
+    return results;
+  }
+
+  private one<T>(sql: string, params: SqlValue[], mapper: (row: Row) => T): T | null {
+    const stmt = this.statement(sql);
+    try {
+      stmt.bind(params);
+      return stmt.step() ? mapper(stmt.getAsObject()) : null;
+    } finally {
+      stmt.reset();
+    }
+  }
+
+  private scalar(sql: string, params: SqlValue[] = []): SqlValue {
+    const stmt = this.statement(sql);
+    try {
+      stmt.bind(params);
+      return stmt.step() ? stmt.get()[0] : null;
+    } finally {
+      stmt.reset();
+    }
+  }
+
+  private write(sql: string, params: SqlValue[] = []): void {
+    this.statement(sql).run(params);
+  }
+
+  /**
+   * Free every cached statement (call before closing the database)
+   */
+  clearStatementCache(): void {
+    if (this.db.getConnectionGeneration() === this.generation) {
+      for (const stmt of this.statements.values()) {
+        stmt.free();
+      }
+    }
+    this.statements.clear();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Content storage
+  // ---------------------------------------------------------------------------
+
+  getContentStorage(): ContentStorageMode {
+    const value = this.scalar("SELECT value FROM index_settings WHERE key = 'content_storage'");
+    return value === 'contentless' ? 'contentless' : DEFAULT_CONTENT_STORAGE;
+  }
+
+  /**
+   * Switch how document bodies are stored; run inside a transaction
+   *
+   * Going contentless indexes the stored bodies into a contentless FTS table
+   * and then clears them. Going back to full recreates the external-content
+   * table empty: documents must be reindexed from the vault and the FTS index
+   * rebuilt afterwards.
+   */
+  setContentStorage(mode: ContentStorageMode): void {
+    if (this.getContentStorage() === mode) return;
+
+    // Schema changes invalidate prepared statements
+    this.clearStatementCache();
+    this.db.exec(DROP_FTS_SQL);
+
+    const tokenizer = this.getFtsTokenizer();
+    if (mode === 'contentless') {
+      this.db.exec(withFtsTokenizer(CONTENTLESS_FTS_SQL, tokenizer));
+      this.db.run(
+        `INSERT INTO documents_fts(rowid, hash, title, content, aside)
+         SELECT id, hash, title || char(10) || aliases, search_text, search_aside FROM documents`
+      );
+      this.db.run("UPDATE documents SET content = '', search_text = '', search_aside = ''");
+      this.db.run("UPDATE blocks SET search_text = ''");
+      this.db.run("UPDATE content_vectors SET chunk_text = ''");
+    } else {
+      this.db.exec(withFtsTokenizer(FULL_FTS_SQL, tokenizer));
+    }
+
+    this.write(
+      "INSERT OR REPLACE INTO index_settings (key, value) VALUES ('content_storage', ?)",
+      [mode]
+    );
+  }
+
+  getFtsTokenizer(): FtsTokenizer {
+    const value = this.scalar("SELECT value FROM index_settings WHERE key = 'fts_tokenizer'");
+    return isFtsTokenizer(value) ? value : DEFAULT_FTS_TOKENIZER;
+  }
+
+  /**
+   * Recreate every FTS5 table with another tokenizer; run inside a transaction
+   *
+   * Stored text, revisions and tasks included, is indexed again. In
+   * contentless mode documents_fts, sections_fts and blocks_fts are
+   * recreated empty: documents must be reindexed from the vault afterwards.
+   */
+  setFtsTokenizer(tokenizer: FtsTokenizer): void {
+    if (this.getFtsTokenizer() === tokenizer) return;
+    const contentless = this.getContentStorage() === 'contentless';
+
+    // Schema changes invalidate prepared statements
+    this.clearStatementCache();
+    this.db.exec(DROP_FTS_SQL);
+    this.db.exec(
+      'DROP TABLE IF EXISTS sections_fts; DROP TABLE IF EXISTS revisions_fts; DROP TABLE IF EXISTS tasks_fts; ' +
+      'DROP TABLE IF EXISTS blocks_fts;'
+    );
+    this.db.exec(withFtsTokenizer(contentless ? CONTENTLESS_FTS_SQL : FULL_FTS_SQL, tokenizer));
+    this.db.exec(withFtsTokenizer(SECTIONS_FTS_SQL, tokenizer));
+    this.db.exec(withFtsTokenizer(REVISIONS_FTS_SQL, tokenizer));
+    this.db.exec(withFtsTokenizer(TASKS_FTS_SQL, tokenizer));
+    this.db.exec(withFtsTokenizer(BLOCKS_FTS_SQL, tokenizer));
+
+    if (!contentless) {
+      this.db.run("INSERT INTO documents_fts(documents_fts) VALUES('rebuild')");
+      // Section text is the section's range of the document's search text
+      this.db.run(
+        `INSERT INTO sections_fts (rowid, title, content)
+         SELECT s.id, replace(s.heading_path, ' > ', char(10)),
+                substr(d.search_text, s.text_start + 1, s.text_end - s.text_start)
+         FROM sections s JOIN documents d ON d.id = s.document_id`
+      );
+      this.db.run(
+        "INSERT INTO blocks_fts (rowid, title, content) SELECT id, replace(heading_path, ' > ', char(10)), search_text FROM blocks"
+      );
+    }
+    this.db.run('INSERT INTO revisions_fts (rowid, title, content) SELECT id, title, search_text FROM revisions');
+    this.db.run(
+      "INSERT INTO tasks_fts (rowid, title, content) SELECT id, replace(heading_path, ' > ', char(10)), text FROM tasks"
+    );
+
+    this.write(
+      "INSERT OR REPLACE INTO index_settings (key, value) VALUES ('fts_tokenizer', ?)",
+      [tokenizer]
+    );
+  }
+
+  /**
+   * Stored body for a content hash, or null when it is not kept (contentless mode)
+   */
+  getDocumentContent(hash: string): string | null {
+    const content = this.scalar('SELECT content FROM documents WHERE hash = ? LIMIT 1', [hash]);
+    return content ? (content as string) : null;
+  }
+
+  /**
+   * Stored search text for a content hash, or null when it is not kept
+   */
+  getSearchText(hash: string): string | null {
+    const text = this.scalar("SELECT search_text FROM documents WHERE hash = ? AND search_text != '' LIMIT 1", [hash]);
+    return text ? (text as string) : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Normalizer rules
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Rules the stored search text was normalized with, null if not recorded yet
+   */
+  getNormalizerRules(): Partial<NormalizerRules> | null {
+    const value = this.scalar("SELECT value FROM index_settings WHERE key = 'normalizer_rules'");
+    return value ? JSON.parse(value as string) : null;
+  }
+
+  setNormalizerRules(rules: NormalizerRules): void {
+    this.write(
+      "INSERT OR REPLACE INTO index_settings (key, value) VALUES ('normalizer_rules', ?)",
+      [JSON.stringify(rules)]
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transclusions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Embed expansion the stored search text was built with, null if not recorded yet
+   */
+  getTransclusionOptions(): TransclusionOptions | null {
+    const value = this.scalar("SELECT value FROM index_settings WHERE key = 'transclusion'");
+    return value ? JSON.parse(value as string) : null;
+  }
+
+  setTransclusionOptions(options: TransclusionOptions): void {
+    this.write(
+      "INSERT OR REPLACE INTO index_settings (key, value) VALUES ('transclusion', ?)",
+      [JSON.stringify(options)]
+    );
+  }
+
+  /**
+   * Paths of active documents showing a note through their embeds: those
+   * whose expansion read it, and those embedding it while it was missing
+   * (their embed links resolve to it once it is indexed)
+   */
+  listDependentPaths(path: string): string[] {
+    return this.all(
+      `SELECT d.path FROM embed_dependencies e
+       JOIN documents d ON d.id = e.document_id
+       WHERE e.target_path = ? AND d.active = 1
+       UNION
+       SELECT d.path FROM links l
+       JOIN documents d ON d.id = l.source_id
+       WHERE l.target_path = ? AND l.embed = 1 AND d.active = 1 AND d.path != ?
+       ORDER BY 1`,
+      [path, path, path],
+      row => row.path as string
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Documents
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Insert or update a document by path with its tags and properties,
+   * mark it active and return its id
+   * In full mode FTS5 triggers keep documents_fts in sync; in contentless
+   * mode the body is only written to documents_fts.
+   */
+  upsertDocument(doc: DocumentUpsert): number {
+    const contentless = this.getContentStorage() === 'contentless';
+    const previousHash = this.scalar('SELECT hash FROM documents WHERE path = ?', [doc.path]) as string | null;
+    if (previousHash && isLegacyHashOf(previousHash, doc.hash)) {
+      this.rekeyLegacyChunks(previousHash, doc.hash);
+    }
+
+    this.write(
+      `INSERT INTO documents (hash, collection_id, path, title, content, search_text, search_aside, active,
+                              created_at, updated_at, indexed_at, file_mtime, file_size, aliases, metadata_version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(path) DO UPDATE SET
+         hash = excluded.hash,
+         collection_id = excluded.collection_id,
+         title = excluded.title,
+         content = excluded.content,
+         search_text = excluded.search_text,
+         search_aside = excluded.search_aside,
+         active = 1,
+         updated_at = excluded.updated_at,
+         indexed_at = excluded.indexed_at,
+         file_mtime = excluded.file_mtime,
+         file_size = excluded.file_size,
+         aliases = excluded.aliases,
+         metadata_version = excluded.metadata_version`,
+      [
+        doc.hash, doc.collectionId, doc.path, doc.title,
+        contentless ? '' : doc.content, contentless ? '' : doc.searchText, contentless ? '' : doc.searchAside,
+        doc.timestamp, doc.timestamp, doc.timestamp, doc.mtime, doc.size,
+        doc.aliases.join('\n'), doc.metadataVersion,
+      ]
+    );
+
+    const id = this.scalar('SELECT id FROM documents WHERE path = ?', [doc.path]) as number;
+    if (contentless) {
+      this.write('DELETE FROM documents_fts WHERE rowid = ?', [id]);
+      this.write(
+        'INSERT INTO documents_fts(rowid, hash, title, content, aside) VALUES (?, ?, ?, ?, ?)',
+        [id, doc.hash, `${doc.title}\n${doc.aliases.join('\n')}`, doc.searchText, doc.searchAside]
+      );
+    }
+    this.replaceDocumentMetadata(id, doc.tags, doc.properties, doc.links, doc.sections, doc.tasks);
+    this.replaceBlocks(id, doc.blocks, contentless);
+    this.replaceEmbedDependencies(id, doc.dependencies);
+    this.insertSignature({ hash: doc.hash, signature: doc.signature, shingleCount: doc.shingleCount });
+
+    const revisionPolicy = this.getRevisionPolicy();
+    if (revisionPolicy?.enabled) {
+      this.recordRevision(id, doc, revisionPolicy);
+    }
+    return id;
+  }
+
+  private replaceDocumentMetadata(
+    id: number,
+    tags: string[],
+    properties: PropertyValue[],
+    links: DocumentLink[],
+    sections: IndexedSection[],
+    tasks: DocumentTask[]
+  ): void {
+    this.write('DELETE FROM document_tags WHERE document_id = ?', [id]);
+    this.write('DELETE FROM document_properties WHERE document_id = ?', [id]);
+    this.write('DELETE FROM links WHERE source_id = ?', [id]);
+
+    for (const tag of tags) {
+      this.write('INSERT OR IGNORE INTO document_tags (document_id, tag) VALUES (?, ?)', [id, tag]);
+    }
+    for (const property of properties) {
+      this.write(
+        'INSERT INTO document_properties (document_id, key, value, value_number, value_type) VALUES (?, ?, ?, ?, ?)',
+        [id, property.key, property.value, property.valueNumber, property.valueType]
+      );
+    }
+    for (const link of links) {
+      this.write(
+        `INSERT INTO links (source_id, target, target_name, target_path, heading, display, embed, kind)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, link.target, link.targetName, link.targetPath, link.heading, link.display, link.embed ? 1 : 0, link.kind]
+      );
+    }
+
+    this.write('DELETE FROM sections_fts WHERE rowid IN (SELECT id FROM sections WHERE document_id = ?)', [id]);
+    this.write('DELETE FROM sections WHERE document_id = ?', [id]);
+    for (const section of sections) {
+      this.write(
+        `INSERT INTO sections (document_id, ${SECTION_COLUMNS}, level, text_start, text_end)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, section.seq, section.heading, section.headingPath.join(' > '), section.anchor,
+          section.startLine, section.endLine, section.startOffset, section.endOffset, section.level,
+          section.textStart, section.textEnd,
+        ]
+      );
+      this.write(
+        'INSERT INTO sections_fts (rowid, title, content) VALUES (last_insert_rowid(), ?, ?)',
+        [section.headingPath.join('\n'), section.searchText]
+      );
+    }
+
+    // The tasks_fts_delete trigger drops the FTS rows
+    this.write('DELETE FROM tasks WHERE document_id = ?', [id]);
+    for (const task of tasks) {
+      this.write(
+        `INSERT INTO tasks (document_id, ${TASK_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, task.line, task.status, task.state, task.text, task.heading, task.headingPath.join(' > '),
+          task.anchor, task.date, task.dueDate, task.scheduledDate, task.startDate, task.doneDate,
+          task.tags.join('\n'),
+        ]
+      );
+      this.write(
+        'INSERT INTO tasks_fts (rowid, title, content) VALUES (last_insert_rowid(), ?, ?)',
+        [task.headingPath.join('\n'), task.text]
+      );
+    }
+  }
+
+  /**
+   * Block text is only stored in full mode; blocks_fts indexes it either way
+   */
+  private replaceBlocks(id: number, blocks: IndexedBlock[], contentless: boolean): void {
+    // The blocks_fts_delete trigger drops the FTS rows
+    this.write('DELETE FROM blocks WHERE document_id = ?', [id]);
+    for (const block of blocks) {
+      this.write(
+        `INSERT INTO blocks (document_id, ${BLOCK_COLUMNS}, heading_path, search_text) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, block.id, block.startLine, block.endLine, block.startOffset, block.endOffset,
+          block.headingPath.join(' > '), contentless ? '' : block.searchText,
+        ]
+      );
+      this.write(
+        'INSERT INTO blocks_fts (rowid, title, content) VALUES (last_insert_rowid(), ?, ?)',
+        [block.headingPath.join('\n'), block.searchText]
+      );
+    }
+  }
+
+  private replaceEmbedDependencies(id: number, paths: string[]): void {
+    this.write('DELETE FROM embed_dependencies WHERE document_id = ?', [id]);
+    for (const path of paths) {
+      this.write('INSERT OR IGNORE INTO embed_dependencies (document_id, target_path) VALUES (?, ?)', [id, path]);
+    }
+  }
+
+  /**
+   * Move chunks stored under a short pre-v4 hash to the full content hash,
+   * so upgraded databases keep their embeddings
+   */
+  private rekeyLegacyChunks(legacyHash: string, hash: string): void {
+    const alreadyStored = this.scalar('SELECT COUNT(*) FROM content_vectors WHERE hash = ?', [hash]) as number;
+    for (const chunk of this.listChunksByHash(legacyHash)) {
+      if (alreadyStored > 0) {
+        this.deleteChunk(chunk.hashSeq);
+        continue;
+      }
+
+      const hashSeq = `${hash}_${chunk.seq}`;
+      this.write('UPDATE content_vectors SET hash = ?, hash_seq = ? WHERE hash_seq = ?', [hash, hashSeq, chunk.hashSeq]);
+      try {
+        const embedding = this.scalar('SELECT embedding FROM vectors_vec WHERE hash_seq = ?', [chunk.hashSeq]);
+        if (embedding) {
+          this.write('INSERT INTO vectors_vec (hash_seq, embedding) VALUES (?, ?)', [hashSeq, embedding]);
+          this.write('DELETE FROM vectors_vec WHERE hash_seq = ?', [chunk.hashSeq]);
+        }
+      } catch {
+        // vectors_vec only exists when the sqlite-vec extension is available
+      }
+    }
+  }
+
+  getDocumentByPath(path: string): IndexedDocument | null {
+    return this.one(
+      `SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE path = ? AND active = 1`,
+      [path],
+      mapDocument
+    );
+  }
+
+  getDocumentById(id: number): IndexedDocument | null {
+    return this.one(
+      `SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE id = ? AND active = 1`,
+      [id],
+      mapDocument
+    );
+  }
+
+  /**
+   * Active documents with the given content (several when notes are identical)
+   */
+  listDocumentsByHash(hash: string): IndexedDocument[] {
+    return this.all(
+      `SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE hash = ? AND active = 1 ORDER BY path`,
+      [hash],
+      mapDocument
+    );
+  }
+
+  listDocumentsByCollection(collectionId: number): IndexedDocument[] {
+    return this.all(
+      `SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE collection_id = ? AND active = 1 ORDER BY path`,
+      [collectionId],
+      mapDocument
+    );
+  }
+
+  /**
+   * Active documents with stored vector chunks, with their chunk count
+   */
+  listEmbeddedDocuments(): Array<IndexedDocument & { chunkCount: number }> {
+    return this.all(
+      `SELECT d.id, d.hash, d.collection_id, d.path, d.title, d.content, d.search_text, d.created_at, d.updated_at,
+              COUNT(cv.hash_seq) AS chunk_count
+       FROM documents d
+       JOIN content_vectors cv ON cv.hash = d.hash
+       WHERE d.active = 1
+       GROUP BY d.id`,
+      [],
+      row => ({ ...mapDocument(row), chunkCount: row.chunk_count as number })
+    );
+  }
+
+  listDocumentMetadata(): DocumentMetadata[] {
+    return this.all(
+      `SELECT d.id, d.hash, c.name AS collection_name, d.path, d.title, d.created_at, d.updated_at
+       FROM documents d
+       JOIN collections c ON d.collection_id = c.id
+       WHERE d.active = 1
+       ORDER BY d.path`,
+      [],
+      row => ({
+        id: row.id as number,
+        hash: row.hash as string,
+        collectionName: row.collection_name as string,
+        path: row.path as string,
+        title: row.title as string,
+        createdAt: row.created_at as number,
+        updatedAt: row.updated_at as number,
+      })
+    );
+  }
+
+  listDocumentFileStates(): DocumentFileState[] {
+    return this.all(
+      'SELECT id, path, hash, collection_id, active, file_mtime, file_size, metadata_version FROM documents',
+      [],
+      row => ({
+        id: row.id as number,
+        path: row.path as string,
+        hash: row.hash as string,
+        collectionId: row.collection_id as number,
+        active: row.active === 1,
+        mtime: row.file_mtime as number,
+        size: row.file_size as number,
+        metadataVersion: row.metadata_version as number,
+      })
+    );
+  }
+
+  /**
+   * Record a new file stat for a document whose content did not change
+   */
+  updateDocumentFileState(id: number, mtime: number, size: number, timestamp: number): void {
+    this.write(
+      'UPDATE documents SET file_mtime = ?, file_size = ?, indexed_at = ? WHERE id = ?',
+      [mtime, size, timestamp, id]
+    );
+  }
+
+  listActiveDocumentHashes(): string[] {
+    return this.all('SELECT DISTINCT hash FROM documents WHERE active = 1', [], row => row.hash as string);
+  }
+
+  listActiveDocumentPaths(): string[] {
+    return this.all('SELECT path FROM documents WHERE active = 1', [], row => row.path as string);
+  }
+
+  /**
+   * Documents whose collection no longer exists
+   */
+  listOrphanedDocuments(): Array<{ id: number; path: string }> {
+    return this.all(
+      'SELECT id, path FROM documents WHERE collection_id NOT IN (SELECT id FROM collections)',
+      [],
+      row => ({ id: row.id as number, path: row.path as string })
+    );
+  }
+
+  /**
+   * Mark a document inactive (soft delete); links to it become unresolved
+   */
+  deactivateDocument(path: string, timestamp: number): void {
+    this.write('UPDATE documents SET active = 0, updated_at = ? WHERE path = ?', [timestamp, path]);
+    this.write(
+      `UPDATE revisions SET valid_to = MAX(?, valid_from)
+       WHERE document_id = (SELECT id FROM documents WHERE path = ?) AND valid_to IS NULL`,
+      [timestamp, path]
+    );
+    this.write('UPDATE links SET target_path = NULL WHERE target_path = ?', [path]);
+  }
+
+  /**
+   * Move a document to a new path and collection, keeping links to it
+   * pointed at it
+   * A stale row left at the new path (e.g. an inactive document) is replaced.
+   */
+  renameDocument(oldPath: string, newPath: string, collectionId: number, timestamp: number): void {
+    if (oldPath !== newPath) {
+      this.write('DELETE FROM documents WHERE path = ?', [newPath]);
+    }
+    this.write(
+      'UPDATE documents SET path = ?, collection_id = ?, updated_at = ? WHERE path = ?',
+      [newPath, collectionId, timestamp, oldPath]
+    );
+    this.write('UPDATE links SET target_path = ? WHERE target_path = ?', [newPath, oldPath]);
+  }
+
+  deleteDocument(id: number): void {
+    this.write('DELETE FROM documents WHERE id = ?', [id]);
+  }
+
+  /**
+   * Hard-delete documents deactivated before a timestamp, then the chunks
+   * and embeddings of content no remaining document has
+   * Metadata, links, sections and revisions go with the documents (see the
+   * delete triggers). Run inside a transaction.
+   */
+  purgeInactiveDocuments(before: number): PurgeCounts {
+    this.write('DELETE FROM documents WHERE active = 0 AND updated_at < ?', [before]);
+    const documents = (this.scalar('SELECT changes()') as number) || 0;
+
+    const orphaned = this.listOrphanedChunkIds();
+    for (const hashSeq of orphaned) {
+      this.deleteChunk(hashSeq);
+    }
+    this.write('DELETE FROM content_signatures WHERE hash NOT IN (SELECT hash FROM documents)');
+    return { documents, chunks: orphaned.length };
+  }
+
+  getDocumentCounts(): DocumentCounts {
+    return {
+      total: (this.scalar('SELECT COUNT(*) FROM documents') as number) || 0,
+      active: (this.scalar('SELECT COUNT(*) FROM documents WHERE active = 1') as number) || 0,
+      collections: (this.scalar('SELECT COUNT(DISTINCT collection_id) FROM documents WHERE active = 1') as number) || 0,
+    };
+  }
+
+  getLastIndexedAt(): number | null {
+    return (this.scalar('SELECT MAX(indexed_at) FROM documents') as number | null) ?? null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Collections
+  // ---------------------------------------------------------------------------
+
+  insertCollection(name: string, path: string, globPattern: string, timestamp: number): number {
+    this.write(
+      `INSERT INTO collections (name, path, glob_pattern, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [name, path, globPattern, timestamp, timestamp]
+    );
+    return this.scalar('SELECT last_insert_rowid()') as number;
+  }
+
+  getCollectionByName(name: string): Collection | null {
+    return this.one(
+      `SELECT ${COLLECTION_COLUMNS} FROM collections WHERE name = ?`,
+      [name],
+      mapCollection
+    );
+  }
+
+  listCollections(): Collection[] {
+    return this.all(`SELECT ${COLLECTION_COLUMNS} FROM collections ORDER BY name`, [], mapCollection);
+  }
+
+  renameCollection(id: number, newName: string, timestamp: number): void {
+    this.write('UPDATE collections SET name = ?, updated_at = ? WHERE id = ?', [newName, timestamp, id]);
+  }
+
+  updateCollection(collection: Collection): void {
+    this.write(
+      'UPDATE collections SET path = ?, glob_pattern = ?, updated_at = ? WHERE id = ?',
+      [collection.path, collection.globPattern, collection.updatedAt, collection.id]
+    );
+  }
+
+  /**
+   * Delete a collection together with its documents and the chunks no
+   * other document shares
+   */
+  deleteCollection(id: number): void {
+    this.write('DELETE FROM documents WHERE collection_id = ?', [id]);
+    this.write('DELETE FROM collections WHERE id = ?', [id]);
+    for (const hashSeq of this.listOrphanedChunkIds()) {
+      this.deleteChunk(hashSeq);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Jobs
+  // ---------------------------------------------------------------------------
+
+  insertJob(kind: JobKind, target: string | null, priority: number, timestamp: number): number {
+    this.write(
+      `INSERT INTO jobs (kind, target, priority, status, created_at, updated_at)
+       VALUES (?, ?, ?, 'queued', ?, ?)`,
+      [kind, target, priority, timestamp, timestamp]
+    );
+    return this.scalar('SELECT last_insert_rowid()') as number;
+  }
+
+  getJob(id: number): Job | null {
+    return this.one(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`, [id], mapJob);
+  }
+
+  /**
+   * Jobs with the given statuses, in the order they should run
+   */
+  listJobs(statuses: JobStatus[]): Job[] {
+    if (statuses.length === 0) return [];
+    return this.all(
+      `SELECT ${JOB_COLUMNS} FROM jobs
+       WHERE status IN (${statuses.map(() => '?').join(', ')})
+       ORDER BY priority DESC, id ASC`,
+      statuses,
+      mapJob
+    );
+  }
+
+  /**
+   * Most recently finished jobs, newest first
+   */
+  listFinishedJobs(limit: number): Job[] {
+    return this.all(
+      `SELECT ${JOB_COLUMNS} FROM jobs
+       WHERE status IN ('completed', 'failed', 'cancelled')
+       ORDER BY updated_at DESC, id DESC
+       LIMIT ?`,
+      [limit],
+      mapJob
+    );
+  }
+
+  updateJob(id: number, update: JobUpdate, timestamp: number): void {
+    const columns = Object.keys(update) as Array<keyof JobUpdate>;
+    if (columns.length === 0) return;
+    this.write(
+      `UPDATE jobs SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+      [...columns.map(column => update[column] ?? null), timestamp, id]
+    );
+  }
+
+  /**
+   * Queue jobs left running by a previous session; they resume from their checkpoint
+   */
+  requeueInterruptedJobs(timestamp: number): number {
+    this.write("UPDATE jobs SET status = 'queued', updated_at = ? WHERE status = 'running'", [timestamp]);
+    return (this.scalar('SELECT changes()') as number) || 0;
+  }
+
+  /**
+   * Delete finished jobs last updated before a timestamp
+   */
+  deleteFinishedJobs(before: number): void {
+    this.write(
+      "DELETE FROM jobs WHERE status IN ('completed', 'failed', 'cancelled') AND updated_at < ?",
+      [before]
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Revisions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Revision policy the index records with, null if history was never enabled
+   */
+  getRevisionPolicy(): RevisionPolicy | null {
+    const value = this.scalar("SELECT value FROM index_settings WHERE key = 'revision_policy'");
+    return value ? JSON.parse(value as string) : null;
+  }
+
+  setRevisionPolicy(policy: RevisionPolicy): void {
+    this.write(
+      "INSERT OR REPLACE INTO index_settings (key, value) VALUES ('revision_policy', ?)",
+      [JSON.stringify(policy)]
+    );
+  }
+
+  /**
+   * Close the document's current revision and open one for the upserted
+   * version, unless its content is unchanged
+   */
+  private recordRevision(id: number, doc: DocumentUpsert, policy: RevisionPolicy): void {
+    const current = this.one(
+      'SELECT id, hash FROM revisions WHERE document_id = ? AND valid_to IS NULL',
+      [id],
+      row => ({ id: row.id as number, hash: row.hash as string })
+    );
+    if (current?.hash === doc.hash) return;
+
+    // The file's mtime dates a version better than the time it was indexed
+    if (current) {
+      this.write('UPDATE revisions SET valid_to = MAX(?, valid_from) WHERE id = ?', [doc.mtime, current.id]);
+    }
+    this.write(
+      'INSERT INTO revisions (document_id, hash, title, search_text, valid_from) VALUES (?, ?, ?, ?, ?)',
+      [id, doc.hash, doc.title, doc.searchText, doc.mtime]
+    );
+    this.write(
+      'INSERT INTO revisions_fts (rowid, title, content) VALUES (last_insert_rowid(), ?, ?)',
+      [doc.title, doc.searchText]
+    );
+    this.pruneRevisions(doc.timestamp, id, policy);
+  }
+
+  /**
+   * Open a revision for each active document that has none, from its stored
+   * search text (documents without stored text get one when next indexed)
+   * @returns Number of revisions created
+   */
+  seedRevisions(): number {
+    const lastId = (this.scalar('SELECT MAX(id) FROM revisions') as number | null) ?? 0;
+    this.write(
+      `INSERT INTO revisions (document_id, hash, title, search_text, valid_from)
+       SELECT d.id, d.hash, d.title, d.search_text, d.file_mtime FROM documents d
+       WHERE d.active = 1 AND d.search_text != ''
+         AND NOT EXISTS (SELECT 1 FROM revisions r WHERE r.document_id = d.id AND r.valid_to IS NULL)`
+    );
+    const seeded = (this.scalar('SELECT changes()') as number) || 0;
+    this.write(
+      'INSERT INTO revisions_fts (rowid, title, content) SELECT id, title, search_text FROM revisions WHERE id > ?',
+      [lastId]
+    );
+    return seeded;
+  }
+
+  /**
+   * Mark every current revision as replaced (when history is turned off,
+   * since later edits are no longer recorded)
+   */
+  closeOpenRevisions(timestamp: number): void {
+    this.write('UPDATE revisions SET valid_to = MAX(?, valid_from) WHERE valid_to IS NULL', [timestamp]);
+  }
+
+  /**
+   * Delete replaced revisions beyond the policy's count and age limits, for
+   * one document or all of them; current revisions are always kept
+   */
+  pruneRevisions(timestamp: number, documentId?: number, policy = this.getRevisionPolicy()): void {
+    if (!policy) return;
+
+    const documentCondition = documentId !== undefined ? 'AND document_id = ?' : '';
+    const documentParams: SqlValue[] = documentId !== undefined ? [documentId] : [];
+    if (policy.maxAgeDays > 0) {
+      this.write(
+        `DELETE FROM revisions WHERE valid_to IS NOT NULL AND valid_to < ? ${documentCondition}`,
+        [timestamp - policy.maxAgeDays * 24 * 60 * 60 * 1000, ...documentParams]
+      );
+    }
+    if (policy.maxRevisions > 0) {
+      this.write(
+        `DELETE FROM revisions WHERE id IN (
+           SELECT id FROM (
+             SELECT id, ROW_NUMBER() OVER (PARTITION BY document_id ORDER BY valid_from DESC, id DESC) AS n
+             FROM revisions WHERE valid_to IS NOT NULL ${documentCondition}
+           ) WHERE n > ?
+         )`,
+        [...documentParams, policy.maxRevisions]
+      );
+    }
+  }
+
+  /**
+   * Revisions matching a query, best BM25 match first; without a MATCH
+   * expression they have no BM25 score (0) and come newest first
+   * Several revisions of one document can match; callers pick which to show.
+   */
+  searchRevisions(query: RevisionQuery): RevisionMatch[] {
+    const filters = metadataFilterSql(query.filters);
+    const contains = containsSql(query.contains, ['r.title', 'r.search_text']);
+    const sql = `
+      SELECT
+        r.id AS revision_id,
+        d.id,
+        r.hash,
+        r.title,
+        d.path,
+        d.active,
+        r.valid_from,
+        r.valid_to,
+        ${query.match !== undefined ? 'bm25(revisions_fts)' : '0'} AS bm25_score
+      FROM ${query.match !== undefined ? 'revisions_fts JOIN revisions r ON revisions_fts.rowid = r.id' : 'revisions r'}
+      JOIN documents d ON r.document_id = d.id
+      ${query.collectionFilter ? 'JOIN collections c ON d.collection_id = c.id' : ''}
+      WHERE 1 = 1
+        ${query.match !== undefined ? 'AND revisions_fts MATCH ?' : ''}
+        ${query.asOf !== undefined ? 'AND r.valid_from <= ? AND (r.valid_to IS NULL OR r.valid_to > ?)' : ''}
+        ${query.collectionFilter ? 'AND c.name = ?' : ''}
+        ${contains.sql}
+        ${filters.sql}
+      ORDER BY ${query.match !== undefined ? 'bm25_score ASC' : 'r.valid_from DESC'}
+      LIMIT ?
+    `;
+
+    const params: SqlValue[] = query.match !== undefined ? [query.match] : [];
+    if (query.asOf !== undefined) {
+      params.push(query.asOf, query.asOf);
+    }
+    if (query.collectionFilter) {
+      params.push(query.collectionFilter);
+    }
+    params.push(...contains.params, ...filters.params, query.limit);
+
+    return this.all(sql, params, mapRevisionMatch);
+  }
+
+  getRevisionText(revisionId: number): string | null {
+    const text = this.scalar('SELECT search_text FROM revisions WHERE id = ?', [revisionId]);
+    return text !== null ? (text as string) : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Content signatures
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Store the signature of a content hash; a hash already signed is kept,
+   * since the same content always has the same signature
+   */
+  insertSignature(signature: ContentSignature): void {
+    this.write(
+      'INSERT OR IGNORE INTO content_signatures (hash, signature, shingle_count) VALUES (?, ?, ?)',
+      [signature.hash, signature.signature, signature.shingleCount]
+    );
+  }
+
+  /**
+   * One active document per content hash that has no signature yet
+   * (indexed before signatures were recorded)
+   */
+  listUnsignedDocuments(): Array<{ hash: string; path: string }> {
+    return this.all(
+      `SELECT hash, MIN(path) AS path FROM documents
+       WHERE active = 1 AND hash NOT IN (SELECT hash FROM content_signatures)
+       GROUP BY hash
+       ORDER BY hash`,
+      [],
+      row => ({ hash: row.hash as string, path: row.path as string })
+    );
+  }
+
+  /**
+   * Signatures of the content of active documents
+   */
+  listActiveSignatures(): ContentSignature[] {
+    return this.all(
+      `SELECT hash, signature, shingle_count FROM content_signatures
+       WHERE hash IN (SELECT hash FROM documents WHERE active = 1)
+       ORDER BY hash`,
+      [],
+      row => ({
+        hash: row.hash as string,
+        signature: row.signature as Uint8Array,
+        shingleCount: row.shingle_count as number,
+      })
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tasks
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Tasks of active documents, best match first when searched by text,
+   * otherwise by date (undated last), path and line
+   */
+  searchTasks(query: TaskQuery): TaskMatch[] {
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+    const contains = containsSql(query.contains, ['t.text', 't.heading_path']);
+
+    if (query.match !== undefined) {
+      conditions.push('tasks_fts MATCH ?');
+      params.push(query.match);
+    }
+    if (query.states && query.states.length > 0) {
+      conditions.push(`t.state IN (${query.states.map(() => '?').join(', ')})`);
+      params.push(...query.states);
+    }
+    if (query.dateFrom !== undefined) {
+      conditions.push('t.date >= ?');
+      params.push(query.dateFrom);
+    }
+    if (query.dateTo !== undefined) {
+      conditions.push('t.date <= ?');
+      params.push(query.dateTo);
+    }
+    if (query.collectionFilter) {
+      conditions.push('c.name = ?');
+      params.push(query.collectionFilter);
+    }
+    if (query.documentIds) {
+      conditions.push(`t.document_id IN (${query.documentIds.map(() => '?').join(', ')})`);
+      params.push(...query.documentIds);
+    }
+
+    const sql = `
+      SELECT
+        t.id AS task_id,
+        d.id,
+        d.hash,
+        d.title,
+        d.path,
+        ${TASK_COLUMNS.split(', ').map(column => `t.${column}`).join(', ')}
+        ${query.match !== undefined ? ', bm25(tasks_fts) AS bm25_score' : ''}
+      FROM ${query.match !== undefined ? 'tasks_fts JOIN tasks t ON t.id = tasks_fts.rowid' : 'tasks t'}
+      JOIN documents d ON t.document_id = d.id
+      ${query.collectionFilter ? 'JOIN collections c ON d.collection_id = c.id' : ''}
+      WHERE d.active = 1
+        ${conditions.map(condition => `AND ${condition}`).join('\n        ')}
+        ${contains.sql}
+      ORDER BY ${query.match !== undefined ? 'bm25_score ASC' : 't.date IS NULL, t.date ASC, d.path ASC, t.line ASC'}
+      LIMIT ?
+    `;
+    params.push(...contains.params, query.limit);
+
+    return this.all(sql, params, mapTaskMatch);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Link graph
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Active documents linking to a path
+   */
+  listBacklinks(path: string): Backlink[] {
+    return this.all(
+      `SELECT d.id, d.path, d.title, l.heading, l.display, l.embed
+       FROM links l
+       JOIN documents d ON d.id = l.source_id
+       WHERE l.target_path = ? AND d.active = 1
+       ORDER BY d.path`,
+      [path],
+      row => ({
+        id: row.id as number,
+        path: row.path as string,
+        title: row.title as string,
+        heading: row.heading as string | null,
+        display: row.display as string | null,
+        embed: row.embed === 1,
+      })
+    );
+  }
+
+  /**
+   * Links written in the active document at a path, in document order
+   */
+  listOutlinks(path: string): OutgoingLink[] {
+    return this.all(
+      `SELECT l.target, l.target_path, l.heading, l.display, l.embed, l.kind,
+              t.id AS target_id, t.title AS target_title
+       FROM links l
+       JOIN documents s ON s.id = l.source_id
+       LEFT JOIN documents t ON t.path = l.target_path AND t.active = 1
+       WHERE s.path = ? AND s.active = 1
+       ORDER BY l.rowid`,
+      [path],
+      row => ({
+        target: row.target as string,
+        targetPath: row.target_path as string | null,
+        targetId: row.target_id as number | null,
+        targetTitle: row.target_title as string | null,
+        heading: row.heading as string | null,
+        display: row.display as string | null,
+        embed: row.embed === 1,
+        kind: row.kind as LinkKind,
+      })
+    );
+  }
+
+  /**
+   * Active documents within maxDepth links of a path, following links in
+   * both directions, nearest first
+   */
+  listLinkNeighborhood(path: string, maxDepth: number): LinkNeighbor[] {
+    return this.all(
+      `WITH RECURSIVE
+         edges(a, b) AS (
+           SELECT s.path, t.path
+           FROM links l
+           JOIN documents s ON s.id = l.source_id AND s.active = 1
+           JOIN documents t ON t.path = l.target_path AND t.active = 1
+         ),
+         hood(path, depth) AS (
+           SELECT ?, 0
+           UNION
+           SELECT CASE WHEN e.a = h.path THEN e.b ELSE e.a END, h.depth + 1
+           FROM hood h
+           JOIN edges e ON e.a = h.path OR e.b = h.path
+           WHERE h.depth < ?
+         )
+       SELECT d.id, d.path, d.title, MIN(h.depth) AS depth
+       FROM hood h
+       JOIN documents d ON d.path = h.path AND d.active = 1
+       GROUP BY d.id
+       ORDER BY depth, d.path`,
+      [path, maxDepth],
+      row => ({
+        id: row.id as number,
+        path: row.path as string,
+        title: row.title as string,
+        depth: row.depth as number,
+      })
+    );
+  }
+
+  /**
+   * Number of distinct active documents linking to each of the given
+   * documents; documents without backlinks are omitted
+   */
+  countBacklinks(ids: number[]): Array<{ id: number; backlinks: number }> {
+    if (ids.length === 0) return [];
+    return this.all(
+      `SELECT t.id, COUNT(DISTINCT l.source_id) AS backlinks
+       FROM documents t
+       JOIN links l ON l.target_path = t.path AND l.source_id != t.id
+       JOIN documents s ON s.id = l.source_id AND s.active = 1
+       WHERE t.id IN (${ids.map(() => '?').join(', ')})
+       GROUP BY t.id`,
+      ids,
+      row => ({ id: row.id as number, backlinks: row.backlinks as number })
+    );
+  }
+
+  /**
+   * Unresolved links whose target has the given file name
+   */
+  listUnresolvedLinks(targetName: string): UnresolvedLink[] {
+    return this.all(
+      `SELECT l.rowid AS link_id, d.path AS source_path, l.target
+       FROM links l
+       JOIN documents d ON d.id = l.source_id
+       WHERE l.target_path IS NULL AND l.target_name = ? AND d.active = 1`,
+      [targetName],
+      row => ({
+        linkId: row.link_id as number,
+        sourcePath: row.source_path as string,
+        target: row.target as string,
+      })
+    );
+  }
+
+  setLinkTarget(linkId: number, targetPath: string): void {
+    this.write('UPDATE links SET target_path = ? WHERE rowid = ?', [targetPath, linkId]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Full-text search
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Documents matching a query, best first; without a MATCH expression they
+   * have no BM25 score (0) or snippet and come in path order
+   */
+  searchFts(query: FtsQuery): FtsMatch[] {
+    const fts = query.match !== undefined;
+    // snippet() needs column values, which a contentless table does not keep
+    const withSnippet = fts && query.snippetTokens !== undefined && this.getContentStorage() === 'full';
+    const withMaxBm25 = fts && query.maxBm25 !== undefined;
+    const contains = containsSql(query.contains, ['d.title', 'd.aliases', 'd.search_text']);
+    const filters = metadataFilterSql(query.filters);
+    const sql = `
+      SELECT
+        d.id,
+        d.hash,
+        d.title,
+        d.path,
+        ${fts ? 'bm25(documents_fts)' : '0'} AS bm25_score
+        ${withSnippet ? `, snippet(documents_fts, 2, '<mark>', '</mark>', '...', ${query.snippetTokens}) AS snippet` : ''}
+      FROM ${fts ? 'documents_fts JOIN documents d ON documents_fts.rowid = d.id' : 'documents d'}
+      ${query.collectionFilter ? 'JOIN collections c ON d.collection_id = c.id' : ''}
+      WHERE d.active = 1
+        ${fts ? 'AND documents_fts MATCH ?' : ''}
+        ${query.collectionFilter ? 'AND c.name = ?' : ''}
+        ${withMaxBm25 ? 'AND abs(bm25(documents_fts)) <= ?' : ''}
+        ${contains.sql}
+        ${filters.sql}
+      ORDER BY ${fts ? 'bm25_score ASC' : 'd.path ASC'}
+      LIMIT ?
+    `;
+
+    const params: SqlValue[] = fts ? [query.match as string] : [];
+    if (query.collectionFilter) {
+      params.push(query.collectionFilter);
+    }
+    if (withMaxBm25) {
+      params.push(query.maxBm25 as number);
+    }
+    params.push(...contains.params, ...filters.params, query.limit);
+
+    return this.all(sql, params, mapFtsMatch);
+  }
+
+  /**
+   * Best matching section of each document, by BM25 over sections_fts
+   * Documents without a matching section are omitted.
+   */
+  findBestSections(match: string, documentIds: number[]): Array<{ documentId: number; section: SectionMatch }> {
+    if (documentIds.length === 0) return [];
+
+    const rows = this.all(
+      `SELECT s.document_id, ${SECTION_COLUMNS.split(', ').map(column => `s.${column}`).join(', ')}
+       FROM sections_fts
+       JOIN sections s ON s.id = sections_fts.rowid
+       WHERE sections_fts MATCH ?
+         AND s.document_id IN (${documentIds.map(() => '?').join(', ')})
+       ORDER BY bm25(sections_fts) ASC`,
+      [match, ...documentIds],
+      row => ({ documentId: row.document_id as number, section: mapSection(row) })
+    );
+
+    // Rows are ordered best first, so keep the first one per document
+    const best = new Map<number, SectionMatch>();
+    for (const row of rows) {
+      if (!best.has(row.documentId)) best.set(row.documentId, row.section);
+    }
+    return Array.from(best, ([documentId, section]) => ({ documentId, section }));
+  }
+
+  /**
+   * Best matching ^block-id block of each document, by BM25 over blocks_fts
+   * Documents without a matching block are omitted.
+   */
+  findBestBlocks(match: string, documentIds: number[]): Array<{ documentId: number; block: BlockMatch }> {
+    if (documentIds.length === 0) return [];
+
+    const rows = this.all(
+      `SELECT b.document_id, ${BLOCK_COLUMNS.split(', ').map(column => `b.${column}`).join(', ')}
+       FROM blocks_fts
+       JOIN blocks b ON b.id = blocks_fts.rowid
+       WHERE blocks_fts MATCH ?
+         AND b.document_id IN (${documentIds.map(() => '?').join(', ')})
+       ORDER BY bm25(blocks_fts) ASC`,
+      [match, ...documentIds],
+      row => ({ documentId: row.document_id as number, block: mapBlock(row) })
+    );
+
+    // Rows are ordered best first, so keep the first one per document
+    const best = new Map<number, BlockMatch>();
+    for (const row of rows) {
+      if (!best.has(row.documentId)) best.set(row.documentId, row.block);
+    }
+    return Array.from(best, ([documentId, block]) => ({ documentId, block }));
+  }
+
+  /**
+   * Sections of a document in order
+   */
+  listSections(documentId: number): SectionMatch[] {
+    return this.all(
+      `SELECT ${SECTION_COLUMNS} FROM sections WHERE document_id = ? ORDER BY seq`,
+      [documentId],
+      mapSection
+    );
+  }
+
+  /**
+   * Exact phrase search used by the indexer's simple lookup
+   */
+  searchDocumentsByPhrase(phrase: string, limit: number): IndexedDocument[] {
+    return this.all(
+      `SELECT d.id, d.hash, d.collection_id, d.path, d.title, d.content, d.search_text, d.created_at, d.updated_at
+       FROM documents d
+       JOIN documents_fts fts ON d.id = fts.rowid
+       WHERE documents_fts MATCH ? AND d.active = 1
+       ORDER BY rank
+       LIMIT ?`,
+      [`"${phrase.replace(/"/g, '""')}"`, limit],
+      mapDocument
+    );
+  }
+
+  countFtsRows(): number {
+    return (this.scalar('SELECT COUNT(*) FROM documents_fts') as number) || 0;
+  }
+
+  isFtsReady(): boolean {
+    try {
+      this.scalar('SELECT 1 FROM documents_fts LIMIT 1');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Compare documents_fts with the documents table; throws if they differ
+   * A contentless table has nothing to compare with, so only its own
+   * structure is checked.
+   */
+  checkFtsIntegrity(): void {
+    if (this.getContentStorage() === 'contentless') {
+      this.db.run("INSERT INTO documents_fts(documents_fts) VALUES('integrity-check')");
+      return;
+    }
+    this.db.run("INSERT INTO documents_fts(documents_fts, rank) VALUES('integrity-check', 1)");
+  }
+
+  /**
+   * Rebuild documents_fts from the documents table
+   * In contentless mode the index is only emptied; documents must be
+   * reindexed from the vault to fill it again.
+   */
+  rebuildFts(): void {
+    if (this.getContentStorage() === 'contentless') {
+      this.db.run("INSERT INTO documents_fts(documents_fts) VALUES('delete-all')");
+      return;
+    }
+    this.db.run("INSERT INTO documents_fts(documents_fts) VALUES('rebuild')");
+  }
+
+  // ---------------------------------------------------------------------------
+  // Chunks and vectors
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Insert or update a chunk; its text is not kept in contentless mode
+   */
+  upsertChunk(chunk: Omit<StoredChunk, 'createdAt'>, timestamp: number): void {
+    const chunkText = this.getContentStorage() === 'contentless' ? '' : chunk.chunkText;
+    this.write(
+      `INSERT INTO content_vectors (hash_seq, hash, seq, chunk_text, token_count, created_at, pos)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(hash_seq) DO UPDATE SET
+         chunk_text = excluded.chunk_text,
+         token_count = excluded.token_count,
+         pos = excluded.pos`,
+      [chunk.hashSeq, chunk.hash, chunk.seq, chunkText, chunk.tokenCount, timestamp, chunk.pos]
+    );
+  }
+
+  upsertEmbedding(hashSeq: string, embedding: Float32Array): void {
+    this.write(
+      `INSERT INTO vectors_vec (hash_seq, embedding)
+       VALUES (?, ?)
+       ON CONFLICT(hash_seq) DO UPDATE SET embedding = excluded.embedding`,
+      [hashSeq, JSON.stringify(Array.from(embedding))]
+    );
+  }
+
+  listChunksByHash(hash: string): StoredChunk[] {
+    return this.all(
+      'SELECT hash_seq, hash, seq, chunk_text, token_count, created_at, pos FROM content_vectors WHERE hash = ? ORDER BY seq',
+      [hash],
+      mapChunk
+    );
+  }
+
+  /**
+   * Stored text of a chunk, or null when it is not kept (contentless mode)
+   */
+  getChunkText(hashSeq: string): string | null {
+    const text = this.scalar('SELECT chunk_text FROM content_vectors WHERE hash_seq = ?', [hashSeq]);
+    return text ? (text as string) : null;
+  }
+
+  listChunks(): StoredChunk[] {
+    return this.all(
+      'SELECT hash_seq, hash, seq, chunk_text, token_count, created_at, pos FROM content_vectors ORDER BY hash, seq',
+      [],
+      mapChunk
+    );
+  }
+
+  /**
+   * Content hashes that have at least one stored chunk
+   */
+  listEmbeddedHashes(): string[] {
+    return this.all('SELECT DISTINCT hash FROM content_vectors', [], row => row.hash as string);
+  }
+
+  /**
+   * All stored embedding vectors (empty when sqlite-vec is unavailable)
+   */
+  listEmbeddings(): StoredEmbedding[] {
+    try {
+      return this.all('SELECT hash_seq, embedding FROM vectors_vec', [], row => ({
+        hashSeq: row.hash_seq as string,
+        embedding: row.embedding as Uint8Array,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Store chunks together with their precomputed embeddings
+   */
+  importChunks(
+    chunks: Array<Omit<StoredChunk, 'createdAt'> & { embedding: Float32Array }>,
+    timestamp: number
+  ): void {
+    for (const chunk of chunks) {
+      this.upsertChunk(chunk, timestamp);
+      this.upsertEmbedding(chunk.hashSeq, chunk.embedding);
+    }
+  }
+
+  /**
+   * Chunks whose document hash no longer exists
+   */
+  listOrphanedChunkIds(): string[] {
+    return this.all(
+      'SELECT hash_seq FROM content_vectors WHERE hash NOT IN (SELECT hash FROM documents)',
+      [],
+      row => row.hash_seq as string
+    );
+  }
+
+  /**
+   * Delete a chunk and its embedding
+   */
+  deleteChunk(hashSeq: string): void {
+    this.write('DELETE FROM content_vectors WHERE hash_seq = ?', [hashSeq]);
+    try {
+      this.write('DELETE FROM vectors_vec WHERE hash_seq = ?', [hashSeq]);
+    } catch {
+      // vectors_vec only exists when the sqlite-vec extension is available
+    }
+  }
+
+  deleteChunksForHash(hash: string): void {
+    for (const chunk of this.listChunksByHash(hash)) {
+      this.deleteChunk(chunk.hashSeq);
+    }
+  }
+
+  /**
+   * Delete every chunk and embedding, e.g. when the embedded text changes
+   */
+  deleteAllChunks(): void {
+    this.write('DELETE FROM content_vectors');
+    try {
+      this.write('DELETE FROM vectors_vec');
+    } catch {
+      // vectors_vec only exists when the sqlite-vec extension is available
+    }
+  }
+
+  countChunks(): number {
+    return (this.scalar('SELECT COUNT(*) FROM content_vectors') as number) || 0;
+  }
+
+  searchVectors(query: VectorQuery): VectorMatch[] {
+    const filters = metadataFilterSql(query.filters);
+    // Chunks map to sections by search text offset; sections are separated
+    // by a blank line, which belongs to the section before it
+    const sql = `
+      SELECT
+        v.hash_seq,
+        v.distance,
+        cv.hash,
+        cv.seq,
+        d.id,
+        d.title,
+        d.path,
+        s.seq AS section_seq,
+        s.heading AS section_heading,
+        s.heading_path AS section_heading_path,
+        s.anchor AS section_anchor,
+        s.start_line AS section_start_line,
+        s.end_line AS section_end_line,
+        s.start_offset AS section_start_offset,
+        s.end_offset AS section_end_offset
+      FROM vectors_vec v
+      JOIN content_vectors cv ON v.hash_seq = cv.hash_seq
+      JOIN documents d ON cv.hash = d.hash
+      LEFT JOIN sections s ON s.document_id = d.id AND cv.pos >= s.text_start AND cv.pos < s.text_end + 2
+      ${query.collectionFilter ? 'JOIN collections c ON d.collection_id = c.id' : ''}
+      WHERE v.embedding MATCH ?
+        AND k = ?
+        AND d.active = 1
+        ${query.collectionFilter ? 'AND c.name = ?' : ''}
+        ${filters.sql}
+      ORDER BY v.distance ASC
+    `;
+
+    const params: SqlValue[] = [new Uint8Array(query.embedding.buffer), query.limit];
+    if (query.collectionFilter) {
+      params.push(query.collectionFilter);
+    }
+    params.push(...filters.params);
+
+    return this.all(sql, params, mapVectorMatch);
+  }
+
+  /**
+   * Throws if the vectors_vec table does not exist
+   */
+  assertVectorTable(): void {
+    this.scalar('SELECT 1 FROM vectors_vec LIMIT 1');
+  }
+
+  countVectors(): number {
+    return (this.scalar('SELECT COUNT(*) FROM vectors_vec') as number) || 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Maintenance
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Run PRAGMA integrity_check and return its messages ("ok" when healthy)
+   */
+  integrityCheck(): string[] {
+    return this.all('PRAGMA integrity_check', [], row => String(Object.values(row)[0]));
+  }
+
+  reindex(): void {
+    this.db.run('REINDEX');
+  }
+
+  vacuum(): void {
+    // VACUUM fails while any statement is still prepared
+    this.clearStatementCache();
+    this.db.run('VACUUM');
+  }
+
+  /**
+   * Size of the database file in bytes
+   */
+  getDatabaseSize(): number {
+    const pageCount = (this.scalar('PRAGMA page_count') as number) || 0;
+    const pageSize = (this.scalar('PRAGMA page_size') as number) || 0;
+    return pageCount * pageSize;
+  }
+
+  getLastGarbageCollection(): GarbageCollectionReport | null {
+    const value = this.scalar("SELECT value FROM index_settings WHERE key = 'last_garbage_collection'");
+    return value ? JSON.parse(value as string) : null;
+  }
+
+  setLastGarbageCollection(report: GarbageCollectionReport): void {
+    this.write(
+      "INSERT OR REPLACE INTO index_settings (key, value) VALUES ('last_garbage_collection', ?)",
+      [JSON.stringify(report)]
+    );
+  }
+
+  /**
+   * Merge the b-trees of every FTS5 index, dropping entries of deleted rows
+   */
+  optimizeFts(): void {
+    for (const table of ['documents_fts', 'sections_fts', 'revisions_fts', 'tasks_fts', 'blocks_fts']) {
+      this.write(`INSERT INTO ${table}(${table}) VALUES ('optimize')`);
+    }
+  }
+}
+
+export type RepositoryMethod = keyof IndexRepository;
+
+/**
+ * IndexRepository as seen from the plugin: the same methods, answered by the worker
+ */
+export type RemoteIndexRepository = {
+  [K in RepositoryMethod]: IndexRepository[K] extends (...args: infer A) => infer R
+    ? (...args: A) => Promise<R>
+    : never;
+} & {
+  /**
+   * Run an async unit of work inside a transaction. Transactions run one at a
+   * time, so work must not start another one inside it.
+   */
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+};
@@ -1,10 +1,401 @@
-export const SCHEMA_VERSION = 1;
+export const SCHEMA_VERSION = 15;
+
+/**
+ * How document bodies are stored in the index
+ * - full: documents.content and chunk_text hold the text; documents_fts is an
+ *   external-content table kept in sync by triggers
+ * - contentless: only the FTS5 index is kept; bodies and chunk text are read
+ *   back from the vault when a result is displayed
+ */
+export type ContentStorageMode = 'full' | 'contentless';
+
+export const DEFAULT_CONTENT_STORAGE: ContentStorageMode = 'full';
+
+/**
+ * How the FTS5 indexes split text into terms
+ * - porter: words, reduced to their English stem ("running" finds "run")
+ * - unicode61: words as written, with case and diacritics folded ("cafe" finds "café")
+ * - trigram: every run of three characters, so any substring of three or
+ *   more characters matches: part numbers, code identifiers, and text
+ *   without spaces between words (Chinese, Japanese, Korean)
+ */
+export type FtsTokenizer = 'porter' | 'unicode61' | 'trigram';
+
+export const DEFAULT_FTS_TOKENIZER: FtsTokenizer = 'porter';
+
+const FTS_TOKENIZE_OPTIONS: Record<FtsTokenizer, string> = {
+  porter: 'porter unicode61',
+  unicode61: 'unicode61 remove_diacritics 2',
+  trigram: 'trigram',
+};
+
+export function isFtsTokenizer(value: unknown): value is FtsTokenizer {
+  return typeof value === 'string' && Object.keys(FTS_TOKENIZE_OPTIONS).includes(value);
+}
+
+/**
+ * FTS5 table definitions with another tokenizer; the SQL constants below
+ * are written for DEFAULT_FTS_TOKENIZER
+ */
+export function withFtsTokenizer(sql: string, tokenizer: FtsTokenizer): string {
+  return sql.replace(
+    new RegExp(`tokenize='${FTS_TOKENIZE_OPTIONS[DEFAULT_FTS_TOKENIZER]}'`, 'g'),
+    `tokenize='${FTS_TOKENIZE_OPTIONS[tokenizer]}'`
+  );
+}
+
+export const FULL_FTS_SQL = `
+-- FTS5 source rows: aliases are indexed with the title so they rank like it;
+-- the normalized text is indexed instead of the raw markdown
+CREATE VIEW IF NOT EXISTS documents_fts_source AS
+  SELECT id, hash, title || char(10) || aliases AS title, search_text AS content, search_aside AS aside
+  FROM documents;
+
+-- FTS5 virtual table for full-text search with BM25, rows keyed by document id
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+  hash UNINDEXED,
+  title,
+  content,
+  aside,
+  content=documents_fts_source,
+  content_rowid=id,
+  tokenize='porter unicode61'
+);
+
+-- FTS5 triggers to keep index in sync
+-- External-content rows must be removed with the old values before re-adding
+CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+  INSERT INTO documents_fts(rowid, hash, title, content, aside)
+  VALUES (new.id, new.hash, new.title || char(10) || new.aliases, new.search_text, new.search_aside);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_update
+AFTER UPDATE OF hash, title, aliases, search_text, search_aside ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content, aside)
+  VALUES ('delete', old.id, old.hash, old.title || char(10) || old.aliases, old.search_text, old.search_aside);
+  INSERT INTO documents_fts(rowid, hash, title, content, aside)
+  VALUES (new.id, new.hash, new.title || char(10) || new.aliases, new.search_text, new.search_aside);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+  INSERT INTO documents_fts(documents_fts, rowid, hash, title, content, aside)
+  VALUES ('delete', old.id, old.hash, old.title || char(10) || old.aliases, old.search_text, old.search_aside);
+END;
+`;
+
+export const CONTENTLESS_FTS_SQL = `
+-- Contentless FTS5 table: stores only the inverted index, rows keyed by
+-- document id. Inserts are written by the repository, deletes by trigger.
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+  hash UNINDEXED,
+  title,
+  content,
+  aside,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM documents_fts WHERE rowid = old.id;
+END;
+`;
+
+export const DROP_FTS_TRIGGERS_SQL = `
+DROP TRIGGER IF EXISTS documents_fts_insert;
+DROP TRIGGER IF EXISTS documents_fts_update;
+DROP TRIGGER IF EXISTS documents_fts_delete;
+`;
+
+export const DROP_FTS_SQL = `${DROP_FTS_TRIGGERS_SQL}
+DROP TABLE IF EXISTS documents_fts;
+`;
+
+export const METADATA_TABLES_SQL = `
+-- Frontmatter properties: one row per value (lists produce several rows)
+CREATE TABLE IF NOT EXISTS document_properties (
+  document_id INTEGER NOT NULL,
+  key TEXT NOT NULL,
+  value TEXT NOT NULL,
+  value_number REAL,
+  value_type TEXT NOT NULL
+);
+
+-- Frontmatter and inline tags, lowercased without '#'
+CREATE TABLE IF NOT EXISTS document_tags (
+  document_id INTEGER NOT NULL,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (document_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_properties_key ON document_properties(key, value);
+CREATE INDEX IF NOT EXISTS idx_document_properties_document ON document_properties(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_tags_tag ON document_tags(tag);
+
+-- Foreign keys are not enforced, so metadata is removed with its document here
+CREATE TRIGGER IF NOT EXISTS documents_metadata_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM document_properties WHERE document_id = old.id;
+  DELETE FROM document_tags WHERE document_id = old.id;
+END;
+`;
+
+export const LINKS_TABLE_SQL = `
+-- Links: wikilinks, embeds and markdown links found in each document
+-- target_path is the resolved vault path, NULL while no file matches;
+-- target_name (lowercased file name) finds links a new file may resolve
+CREATE TABLE IF NOT EXISTS links (
+  source_id INTEGER NOT NULL,
+  target TEXT NOT NULL,
+  target_name TEXT NOT NULL,
+  target_path TEXT,
+  heading TEXT,
+  display TEXT,
+  embed INTEGER NOT NULL DEFAULT 0,
+  kind TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_links_source ON links(source_id);
+CREATE INDEX IF NOT EXISTS idx_links_target_path ON links(target_path);
+CREATE INDEX IF NOT EXISTS idx_links_target_name ON links(target_name);
+
+CREATE TRIGGER IF NOT EXISTS documents_links_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM links WHERE source_id = old.id;
+END;
+`;
+
+export const SECTIONS_FTS_SQL = `
+-- Contentless FTS5 index of sections, rows keyed by section id, used to pick
+-- the best section of a matching document. Column names match documents_fts
+-- so the same MATCH expressions work on both.
+CREATE VIRTUAL TABLE IF NOT EXISTS sections_fts USING fts5(
+  title,
+  content,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+`;
+
+export const SECTIONS_TABLE_SQL = `
+-- Sections: a document split by headings, with line and character ranges
+-- heading_path joins the heading hierarchy with ' > '; anchor is the link
+-- subpath (e.g. 'Spec#API') used to open the note at the heading;
+-- text_start/text_end locate the section in the document's search text
+CREATE TABLE IF NOT EXISTS sections (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  seq INTEGER NOT NULL,
+  heading TEXT,
+  heading_path TEXT NOT NULL,
+  level INTEGER NOT NULL,
+  anchor TEXT,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  text_start INTEGER NOT NULL DEFAULT 0,
+  text_end INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_sections_document ON sections(document_id, seq);
+
+${SECTIONS_FTS_SQL}
+
+CREATE TRIGGER IF NOT EXISTS documents_sections_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM sections_fts WHERE rowid IN (SELECT id FROM sections WHERE document_id = old.id);
+  DELETE FROM sections WHERE document_id = old.id;
+END;
+`;
+
+export const JOBS_TABLE_SQL = `
+-- Jobs: queued indexing and embedding work, kept so it resumes after a restart
+-- checkpoint is the job's resume cursor (e.g. the last path it finished);
+-- higher priority jobs run first
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL,
+  target TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL,
+  total INTEGER NOT NULL DEFAULT 0,
+  completed INTEGER NOT NULL DEFAULT 0,
+  checkpoint TEXT,
+  error TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, priority);
+`;
+
+export const REVISIONS_FTS_SQL = `
+-- Contentless FTS5 index of revisions, rows keyed by revision id; column
+-- names match documents_fts so the same MATCH expressions work on both
+CREATE VIRTUAL TABLE IF NOT EXISTS revisions_fts USING fts5(
+  title,
+  content,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+`;
+
+export const REVISIONS_TABLE_SQL = `
+-- Revisions: versions of each document's search text, recorded while
+-- revision history is enabled. valid_from is the file's modification time
+-- for that version, valid_to when it was replaced or the document removed
+-- (NULL for the current version)
+CREATE TABLE IF NOT EXISTS revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  hash TEXT NOT NULL,
+  title TEXT NOT NULL,
+  search_text TEXT NOT NULL,
+  valid_from INTEGER NOT NULL,
+  valid_to INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_document ON revisions(document_id, valid_from);
+
+${REVISIONS_FTS_SQL}
+
+CREATE TRIGGER IF NOT EXISTS revisions_fts_delete AFTER DELETE ON revisions BEGIN
+  DELETE FROM revisions_fts WHERE rowid = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_revisions_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM revisions WHERE document_id = old.id;
+END;
+`;
+
+export const SIGNATURES_TABLE_SQL = `
+-- MinHash signatures of document content for near-duplicate detection,
+-- keyed by content hash like content_vectors (see minhash.ts); signature
+-- holds little-endian uint32 values, shingle_count is 0 for content
+-- without words
+CREATE TABLE IF NOT EXISTS content_signatures (
+  hash TEXT PRIMARY KEY,
+  signature BLOB NOT NULL,
+  shingle_count INTEGER NOT NULL
+);
+`;
+
+export const TASKS_FTS_SQL = `
+-- Contentless FTS5 index of tasks, rows keyed by task id; title holds the
+-- task's heading path and content its text, like sections_fts
+CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+  title,
+  content,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+`;
+
+export const TASKS_TABLE_SQL = `
+-- Tasks: markdown task list items of each document (see tasks.ts). line is
+-- 0-indexed; status is the character between the brackets and state what it
+-- means; dates are YYYY-MM-DD, date being the one the task is filed under;
+-- tags are newline-separated. Task text is kept in contentless mode too,
+-- since results show it
+CREATE TABLE IF NOT EXISTS tasks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  line INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  state TEXT NOT NULL,
+  text TEXT NOT NULL,
+  heading TEXT,
+  heading_path TEXT NOT NULL,
+  anchor TEXT,
+  date TEXT,
+  due_date TEXT,
+  scheduled_date TEXT,
+  start_date TEXT,
+  done_date TEXT,
+  tags TEXT NOT NULL DEFAULT ''
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_document ON tasks(document_id, line);
+CREATE INDEX IF NOT EXISTS idx_tasks_state ON tasks(state, date);
+
+${TASKS_FTS_SQL}
+
+CREATE TRIGGER IF NOT EXISTS tasks_fts_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM tasks_fts WHERE rowid = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_tasks_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM tasks WHERE document_id = old.id;
+END;
+`;
+
+export const BLOCKS_FTS_SQL = `
+-- Contentless FTS5 index of blocks, rows keyed by block id; title holds the
+-- heading path of the block, like sections_fts
+CREATE VIRTUAL TABLE IF NOT EXISTS blocks_fts USING fts5(
+  title,
+  content,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+`;
+
+export const BLOCKS_TABLE_SQL = `
+-- Blocks: paragraphs and list items marked with a ^block-id (see blocks.ts),
+-- so results can point at [[note#^block-id]]. block_id is without the caret;
+-- lines and offsets are ranges in the note like sections; search_text is
+-- the normalized block text (empty in contentless mode)
+CREATE TABLE IF NOT EXISTS blocks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  block_id TEXT NOT NULL,
+  heading_path TEXT NOT NULL,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  search_text TEXT NOT NULL DEFAULT ''
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocks_document ON blocks(document_id, start_line);
+
+${BLOCKS_FTS_SQL}
+
+CREATE TRIGGER IF NOT EXISTS blocks_fts_delete AFTER DELETE ON blocks BEGIN
+  DELETE FROM blocks_fts WHERE rowid = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_blocks_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM blocks WHERE document_id = old.id;
+END;
+`;
+
+export const EMBED_DEPENDENCIES_TABLE_SQL = `
+-- Embed dependencies: the notes read to expand each document's embeds
+-- (see transclusions.ts), directly or through another embedded note, so a
+-- change to one of them reindexes the documents showing it. Only recorded
+-- while embeds are expanded
+CREATE TABLE IF NOT EXISTS embed_dependencies (
+  document_id INTEGER NOT NULL,
+  target_path TEXT NOT NULL,
+  PRIMARY KEY (document_id, target_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embed_dependencies_target ON embed_dependencies(target_path);
+
+CREATE TRIGGER IF NOT EXISTS documents_embed_dependencies_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM embed_dependencies WHERE document_id = old.id;
+END;
+`;
 
 export const SCHEMA_SQL = `
 -- Schema version tracking
 CREATE TABLE IF NOT EXISTS schema_migrations (
   version INTEGER PRIMARY KEY,
-  applied_at INTEGER NOT NULL
+  applied_at INTEGER NOT NULL,
+  description TEXT
 );
 
 -- Collections: Virtual groupings of vault files
@@ -29,8 +420,12 @@ CREATE TABLE IF NOT EXISTS path_contexts (
 );
 
 -- Documents: Indexed markdown files
+-- id is stable for a path (kept across edits and renames); hash is the full
+-- SHA-256 of the content, used for change detection and embedding reuse, and
+-- may be shared by several documents with identical content
 CREATE TABLE IF NOT EXISTS documents (
-  hash TEXT PRIMARY KEY,
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  hash TEXT NOT NULL,
   collection_id INTEGER NOT NULL,
   path TEXT UNIQUE NOT NULL,
   title TEXT NOT NULL,
@@ -39,38 +434,34 @@ CREATE TABLE IF NOT EXISTS documents (
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
   indexed_at INTEGER NOT NULL,
+  -- File stat at indexing time, used to skip unchanged files on startup
+  file_mtime INTEGER NOT NULL DEFAULT 0,
+  file_size INTEGER NOT NULL DEFAULT 0,
+  -- Frontmatter aliases, newline-separated, searched as part of the title
+  aliases TEXT NOT NULL DEFAULT '',
+  -- Version of the metadata extraction that produced this row
+  metadata_version INTEGER NOT NULL DEFAULT 0,
+  -- Normalized plain text indexed and embedded in place of the markdown,
+  -- and the separately indexed parts (see normalizer.ts); both are empty
+  -- in contentless mode
+  search_text TEXT NOT NULL DEFAULT '',
+  search_aside TEXT NOT NULL DEFAULT '',
   FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE
 );
 
--- FTS5 virtual table for full-text search with BM25
-CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
-  hash UNINDEXED,
-  title,
-  content,
-  content=documents,
-  content_rowid=rowid,
-  tokenize='porter unicode61'
-);
-
--- FTS5 triggers to keep index in sync
-CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
-  INSERT INTO documents_fts(rowid, hash, title, content)
-  VALUES (new.rowid, new.hash, new.title, new.content);
-END;
-
-CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE ON documents BEGIN
-  UPDATE documents_fts SET
-    hash = new.hash,
-    title = new.title,
-    content = new.content
-  WHERE rowid = old.rowid;
-END;
-
-CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
-  DELETE FROM documents_fts WHERE rowid = old.rowid;
-END;
-
--- Content vectors: Chunked embeddings for documents
+${FULL_FTS_SQL}
+${METADATA_TABLES_SQL}
+${LINKS_TABLE_SQL}
+${SECTIONS_TABLE_SQL}
+${JOBS_TABLE_SQL}
+${REVISIONS_TABLE_SQL}
+${SIGNATURES_TABLE_SQL}
+${TASKS_TABLE_SQL}
+${BLOCKS_TABLE_SQL}
+${EMBED_DEPENDENCIES_TABLE_SQL}
+-- Content vectors: Chunked embeddings, keyed by content hash so documents
+-- with identical content share them; pos is the chunk's character offset
+-- in the search text (NULL for chunks embedded before it was recorded)
 CREATE TABLE IF NOT EXISTS content_vectors (
   hash_seq TEXT PRIMARY KEY,
   hash TEXT NOT NULL,
@@ -78,9 +469,19 @@ CREATE TABLE IF NOT EXISTS content_vectors (
   chunk_text TEXT NOT NULL,
   token_count INTEGER NOT NULL,
   created_at INTEGER NOT NULL,
-  FOREIGN KEY (hash) REFERENCES documents(hash) ON DELETE CASCADE
+  pos INTEGER
 );
 
+-- Index settings stored with the data (e.g. content storage mode, FTS
+-- tokenizer, normalizer rules, revision policy, embed expansion)
+CREATE TABLE IF NOT EXISTS index_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+INSERT OR IGNORE INTO index_settings (key, value) VALUES ('content_storage', '${DEFAULT_CONTENT_STORAGE}');
+INSERT OR IGNORE INTO index_settings (key, value) VALUES ('fts_tokenizer', '${DEFAULT_FTS_TOKENIZER}');
+
 -- LLM cache: Store API responses to reduce costs
 CREATE TABLE IF NOT EXISTS llm_cache (
   key TEXT PRIMARY KEY,
@@ -94,6 +495,7 @@ CREATE TABLE IF NOT EXISTS llm_cache (
 CREATE INDEX IF NOT EXISTS idx_documents_collection ON documents(collection_id);
 CREATE INDEX IF NOT EXISTS idx_documents_path ON documents(path);
 CREATE INDEX IF NOT EXISTS idx_documents_active ON documents(active);
+CREATE INDEX IF NOT EXISTS idx_documents_hash ON documents(hash);
 CREATE INDEX IF NOT EXISTS idx_content_vectors_hash ON content_vectors(hash);
 CREATE INDEX IF NOT EXISTS idx_path_contexts_collection ON path_contexts(collection_id);
 `;
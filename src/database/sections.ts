@@ -0,0 +1,101 @@
+/**
+ * Document Sections for QMD Search
+ * Splits notes by their heading hierarchy so results can point at the
+ * matching section instead of the whole file.
+ */
+
+import { splitFrontmatter } from './metadata';
+
+/**
+ * A heading and the text under it, up to the next heading of any level
+ */
+export interface DocumentSection {
+  /** Position within the document (0-indexed) */
+  seq: number;
+  /** Heading text, null for text before the first heading */
+  heading: string | null;
+  /** Headings from the top level down to this one */
+  headingPath: string[];
+  /** Heading level 1-6, 0 for text before the first heading */
+  level: number;
+  /** Link subpath for [[note#anchor]], e.g. "Spec#API"; null without heading */
+  anchor: string | null;
+  /** First and last line of the section (0-indexed, inclusive) */
+  startLine: number;
+  endLine: number;
+  /** Character range of the section in the document [start, end) */
+  startOffset: number;
+  endOffset: number;
+  text: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})/;
+
+/**
+ * Split a note into sections by heading, skipping frontmatter and headings
+ * inside code blocks. Text before the first heading forms its own section
+ * unless it is blank.
+ */
+export function splitSections(content: string): DocumentSection[] {
+  const bodyStart = content.length - splitFrontmatter(content).body.length;
+  const sections: DocumentSection[] = [];
+  const stack: Array<{ level: number; heading: string }> = [];
+
+  let current: Omit<DocumentSection, 'seq' | 'endLine' | 'endOffset' | 'text'> = {
+    heading: null,
+    headingPath: [],
+    level: 0,
+    anchor: null,
+    startLine: content.slice(0, bodyStart).split('\n').length - 1,
+    startOffset: bodyStart,
+  };
+  let fence: string | null = null;
+  let offset = bodyStart;
+  let line = current.startLine;
+
+  const close = (endLine: number, endOffset: number) => {
+    const text = content.slice(current.startOffset, endOffset);
+    if (current.heading === null && !text.trim()) return;
+    sections.push({ ...current, seq: sections.length, endLine, endOffset, text });
+  };
+
+  for (const lineText of content.slice(bodyStart).split('\n')) {
+    const trimmed = lineText.trim();
+    const fenceMatch = trimmed.match(FENCE_PATTERN);
+
+    if (fence) {
+      if (fenceMatch && trimmed.startsWith(fence)) fence = null;
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+    } else {
+      const headingMatch = lineText.match(HEADING_PATTERN);
+      if (headingMatch) {
+        close(Math.max(line - 1, current.startLine), offset);
+
+        const level = headingMatch[1].length;
+        const heading = headingMatch[2].trim();
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+          stack.pop();
+        }
+        stack.push({ level, heading });
+
+        const headingPath = stack.map(entry => entry.heading);
+        current = {
+          heading,
+          headingPath,
+          level,
+          anchor: headingPath.join('#'),
+          startLine: line,
+          startOffset: offset,
+        };
+      }
+    }
+
+    offset += lineText.length + 1;
+    line++;
+  }
+
+  close(line - 1, content.length);
+  return sections;
+}
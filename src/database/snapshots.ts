@@ -0,0 +1,196 @@
+/**
+ * Index Snapshots for QMD Search
+ * Named and automatic copies of the serialized database, stored next to the
+ * index file so a broken index can be rolled back without re-embedding.
+ */
+
+import type { DataAdapter } from 'obsidian';
+import { DatabaseWorkerError, type Database } from './db';
+
+export const SNAPSHOT_DIR_NAME = 'snapshots';
+
+export type SnapshotKind = 'manual' | 'auto';
+
+export interface SnapshotInfo {
+  /** File name inside the snapshot folder */
+  fileName: string;
+  /** Vault-relative path of the snapshot file */
+  path: string;
+  kind: SnapshotKind;
+  /** Snapshot name (manual) or reason (auto), e.g. "before-reindex-all" */
+  label: string;
+  createdAt: number;
+  /** File size in bytes */
+  size: number;
+}
+
+export class SnapshotError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'BUSY' | 'INVALID_NAME' | 'NOT_FOUND' | 'WRITE_FAILED' | 'READ_FAILED'
+  ) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+const SNAPSHOT_FILE_PATTERN = /^(\d+)-(manual|auto)-([a-z0-9-]+)\.sqlite$/;
+const DEFAULT_MAX_AUTO_SNAPSHOTS = 5;
+
+/**
+ * Turn a user-provided name into a file-name-safe label
+ */
+function toLabel(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
+
+export class SnapshotManager {
+  private maxAutoSnapshots: number;
+
+  constructor(
+    private adapter: DataAdapter,
+    private pluginDir: string,
+    maxAutoSnapshots = DEFAULT_MAX_AUTO_SNAPSHOTS
+  ) {
+    this.maxAutoSnapshots = maxAutoSnapshots;
+  }
+
+  get snapshotDir(): string {
+    return `${this.pluginDir}/${SNAPSHOT_DIR_NAME}`;
+  }
+
+  setMaxAutoSnapshots(max: number): void {
+    this.maxAutoSnapshots = max;
+  }
+
+  /**
+   * Snapshot the live database
+   * Refuses while a transaction is open, since exporting would drop it.
+   */
+  async snapshotDatabase(db: Database, name: string, kind: SnapshotKind): Promise<SnapshotInfo> {
+    let data: Uint8Array;
+    try {
+      data = await db.export();
+    } catch (error) {
+      // The worker refuses to export while a transaction is open
+      if (error instanceof DatabaseWorkerError && error.code === 'BUSY') {
+        throw new SnapshotError(
+          'Cannot snapshot while indexing is in progress. Try again when it finishes.',
+          'BUSY'
+        );
+      }
+      throw error;
+    }
+
+    return this.createSnapshot(data, name, kind);
+  }
+
+  /**
+   * Write serialized database contents as a snapshot
+   * Automatic snapshots are rotated so only the newest maxAutoSnapshots are kept.
+   */
+  async createSnapshot(data: Uint8Array, name: string, kind: SnapshotKind): Promise<SnapshotInfo> {
+    const label = toLabel(name);
+    if (!label) {
+      throw new SnapshotError(
+        `Invalid snapshot name: "${name}". Use letters, numbers or hyphens.`,
+        'INVALID_NAME'
+      );
+    }
+
+    const createdAt = Date.now();
+    const fileName = `${createdAt}-${kind}-${label}.sqlite`;
+    const path = `${this.snapshotDir}/${fileName}`;
+
+    try {
+      if (!(await this.adapter.exists(this.snapshotDir))) {
+        await this.adapter.mkdir(this.snapshotDir);
+      }
+      await this.adapter.writeBinary(
+        path,
+        data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer
+      );
+    } catch (error) {
+      throw new SnapshotError(
+        `Failed to write snapshot ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+        'WRITE_FAILED'
+      );
+    }
+
+    if (kind === 'auto') {
+      await this.rotateAutoSnapshots();
+    }
+
+    return { fileName, path, kind, label, createdAt, size: data.byteLength };
+  }
+
+  /**
+   * List snapshots, newest first
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    if (!(await this.adapter.exists(this.snapshotDir))) {
+      return [];
+    }
+
+    const listing = await this.adapter.list(this.snapshotDir);
+    const snapshots: SnapshotInfo[] = [];
+
+    for (const path of listing.files) {
+      const fileName = path.slice(path.lastIndexOf('/') + 1);
+      const match = fileName.match(SNAPSHOT_FILE_PATTERN);
+      if (!match) continue;
+
+      const stat = await this.adapter.stat(path);
+      snapshots.push({
+        fileName,
+        path,
+        kind: match[2] as SnapshotKind,
+        label: match[3],
+        createdAt: parseInt(match[1], 10),
+        size: stat?.size ?? 0,
+      });
+    }
+
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async readSnapshot(snapshot: SnapshotInfo): Promise<Uint8Array> {
+    if (!(await this.adapter.exists(snapshot.path))) {
+      throw new SnapshotError(`Snapshot ${snapshot.fileName} not found`, 'NOT_FOUND');
+    }
+
+    try {
+      return new Uint8Array(await this.adapter.readBinary(snapshot.path));
+    } catch (error) {
+      throw new SnapshotError(
+        `Failed to read snapshot ${snapshot.fileName}: ${error instanceof Error ? error.message : String(error)}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  async deleteSnapshot(snapshot: SnapshotInfo): Promise<void> {
+    if (await this.adapter.exists(snapshot.path)) {
+      await this.adapter.remove(snapshot.path);
+    }
+  }
+
+  /**
+   * Delete automatic snapshots beyond the retention limit (manual ones are kept)
+   */
+  private async rotateAutoSnapshots(): Promise<void> {
+    const autoSnapshots = (await this.listSnapshots()).filter(s => s.kind === 'auto');
+
+    for (const snapshot of autoSnapshots.slice(this.maxAutoSnapshots)) {
+      try {
+        await this.deleteSnapshot(snapshot);
+      } catch (error) {
+        console.warn(`[QMD] Failed to rotate snapshot ${snapshot.fileName}:`, error);
+      }
+    }
+  }
+}
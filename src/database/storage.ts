@@ -0,0 +1,140 @@
+/**
+ * Index Storage for QMD Search
+ * Persists the serialized SQLite database as a binary file in the plugin folder,
+ * keeping it out of data.json (which only holds settings).
+ */
+
+import type { DataAdapter } from 'obsidian';
+
+export const INDEX_FILE_NAME = 'index.sqlite';
+
+export class IndexStorageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'READ_FAILED' | 'WRITE_FAILED' | 'MIGRATION_FAILED'
+  ) {
+    super(message);
+    this.name = 'IndexStorageError';
+  }
+}
+
+/**
+ * Copy a Uint8Array view into a standalone ArrayBuffer for the adapter APIs
+ */
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+export class IndexStorage {
+  constructor(
+    private adapter: DataAdapter,
+    private pluginDir: string
+  ) {}
+
+  get indexPath(): string {
+    return `${this.pluginDir}/${INDEX_FILE_NAME}`;
+  }
+
+  private get tempPath(): string {
+    return `${this.indexPath}.tmp`;
+  }
+
+  private get backupPath(): string {
+    return `${this.indexPath}.bak`;
+  }
+
+  async exists(): Promise<boolean> {
+    return this.adapter.exists(this.indexPath);
+  }
+
+  /**
+   * Read the stored index, or null when no index has been written yet.
+   * Recovers from a save that was interrupted between its rename steps.
+   */
+  async load(): Promise<Uint8Array | null> {
+    await this.recoverInterruptedSave();
+
+    if (!(await this.exists())) {
+      return null;
+    }
+
+    try {
+      const buffer = await this.adapter.readBinary(this.indexPath);
+      return new Uint8Array(buffer);
+    } catch (error) {
+      throw new IndexStorageError(
+        `Failed to read index file ${this.indexPath}: ${error instanceof Error ? error.message : String(error)}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Write the index crash-safely: the data goes to a temp file first and only
+   * replaces the current index once it has been written completely.
+   */
+  async save(data: Uint8Array): Promise<void> {
+    try {
+      await this.adapter.writeBinary(this.tempPath, toArrayBuffer(data));
+
+      const hadIndex = await this.exists();
+      if (hadIndex) {
+        if (await this.adapter.exists(this.backupPath)) {
+          await this.adapter.remove(this.backupPath);
+        }
+        await this.adapter.rename(this.indexPath, this.backupPath);
+      }
+
+      await this.adapter.rename(this.tempPath, this.indexPath);
+
+      if (hadIndex) {
+        await this.adapter.remove(this.backupPath);
+      }
+    } catch (error) {
+      throw new IndexStorageError(
+        `Failed to write index file ${this.indexPath}: ${error instanceof Error ? error.message : String(error)}`,
+        'WRITE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Restore the previous index if a save stopped after moving it aside,
+   * and drop any half-written temp file.
+   */
+  private async recoverInterruptedSave(): Promise<void> {
+    if (!(await this.exists()) && await this.adapter.exists(this.backupPath)) {
+      console.warn('[QMD] Recovering index from backup after interrupted save');
+      await this.adapter.rename(this.backupPath, this.indexPath);
+    }
+
+    if (await this.adapter.exists(this.tempPath)) {
+      await this.adapter.remove(this.tempPath);
+    }
+  }
+
+  /**
+   * Move a legacy `dbData` number array (old data.json format) into the binary index file.
+   * An existing index file always wins, since it was written after the legacy blob.
+   *
+   * @returns True if the legacy data was written to the index file
+   */
+  async migrateLegacyData(legacyData: number[]): Promise<boolean> {
+    if (await this.exists()) {
+      console.log('[QMD] Index file already exists, discarding legacy dbData');
+      return false;
+    }
+
+    try {
+      await this.save(Uint8Array.from(legacyData));
+    } catch (error) {
+      throw new IndexStorageError(
+        `Failed to migrate legacy index data: ${error instanceof Error ? error.message : String(error)}`,
+        'MIGRATION_FAILED'
+      );
+    }
+
+    console.log(`[QMD] Migrated legacy index data (${legacyData.length} bytes) to ${this.indexPath}`);
+    return true;
+  }
+}
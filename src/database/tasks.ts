@@ -0,0 +1,174 @@
+/**
+ * Markdown Tasks for QMD Search
+ * Extracts task list items ("- [ ] ...") with their status, line, heading
+ * and the dates and tags written on them, so tasks can be searched apart
+ * from the notes they are in.
+ */
+
+import { extractInlineTags, splitFrontmatter } from './metadata';
+import type { DocumentSection } from './sections';
+
+/**
+ * What a task's status character means
+ * - open: [ ]
+ * - in-progress: [/]
+ * - done: [x] or [X]
+ * - cancelled: [-]
+ * - other: any other character (e.g. [>] forwarded, [!] important)
+ */
+export type TaskState = 'open' | 'in-progress' | 'done' | 'cancelled' | 'other';
+
+export const TASK_STATES: TaskState[] = ['open', 'in-progress', 'done', 'cancelled', 'other'];
+
+/**
+ * A task list item of a note
+ */
+export interface DocumentTask {
+  /** Line of the task in the note (0-indexed) */
+  line: number;
+  /** Character between the brackets, e.g. ' ', 'x' or '/' */
+  status: string;
+  state: TaskState;
+  /** Text after the checkbox, as written */
+  text: string;
+  /** Heading of the section the task is in, null before the first heading */
+  heading: string | null;
+  headingPath: string[];
+  /** Link subpath of that heading, e.g. "Plan#Migration" */
+  anchor: string | null;
+  /** Dates written on the task (YYYY-MM-DD), null when absent */
+  dueDate: string | null;
+  scheduledDate: string | null;
+  startDate: string | null;
+  doneDate: string | null;
+  /**
+   * Date the task is filed under: its due, scheduled, start or done date,
+   * else another date in its text, else the date of the daily note it is in
+   */
+  date: string | null;
+  tags: string[];
+}
+
+const TASK_PATTERN = /^[ \t]*(?:[-*+]|\d+[.)])[ \t]+\[(.)\][ \t]+(.*?)[ \t]*$/u;
+const FENCE_PATTERN = /^(`{3,}|~{3,})/;
+// Tasks plugin emoji dates and Dataview inline fields
+const EMOJI_DATE_PATTERN = /(📅|⏳|🛫|✅)\uFE0F?[ \t]*(\d{4}-\d{2}-\d{2})/gu;
+const FIELD_DATE_PATTERN = /\b(due|scheduled|start|completion)::[ \t]*(\d{4}-\d{2}-\d{2})/giu;
+const DATE_PATTERN = /(?<![\d-])(\d{4}-\d{2}-\d{2})(?![\d-])/;
+
+type DateField = 'dueDate' | 'scheduledDate' | 'startDate' | 'doneDate';
+
+const DATE_MARKERS: Record<string, DateField> = {
+  '📅': 'dueDate',
+  '⏳': 'scheduledDate',
+  '🛫': 'startDate',
+  '✅': 'doneDate',
+  due: 'dueDate',
+  scheduled: 'scheduledDate',
+  start: 'startDate',
+  completion: 'doneDate',
+};
+
+export function taskState(status: string): TaskState {
+  switch (status) {
+    case ' ': return 'open';
+    case '/': return 'in-progress';
+    case 'x':
+    case 'X': return 'done';
+    case '-': return 'cancelled';
+    default: return 'other';
+  }
+}
+
+/**
+ * Date of a daily note from its file name, e.g. "2026-10-19" or
+ * "2026-10-19 Monday"; null for other notes
+ */
+export function noteDateFromName(basename: string): string | null {
+  return basename.match(DATE_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Extract the tasks of a note, skipping frontmatter and code blocks
+ *
+ * @param sections - The note's sections (see splitSections), to find each task's heading
+ * @param noteDate - Date tasks without one of their own are filed under (see noteDateFromName)
+ */
+export function extractTasks(
+  content: string,
+  sections: DocumentSection[],
+  noteDate: string | null = null
+): DocumentTask[] {
+  const lines = content.split('\n');
+  const bodyStart = lines.length - splitFrontmatter(content).body.split('\n').length;
+  const tasks: DocumentTask[] = [];
+  let fence: string | null = null;
+  let sectionIndex = 0;
+
+  for (let line = bodyStart; line < lines.length; line++) {
+    const lineText = lines[line].replace(/\r$/, '');
+    const trimmed = lineText.trim();
+    const fenceMatch = trimmed.match(FENCE_PATTERN);
+
+    if (fence) {
+      if (fenceMatch && trimmed.startsWith(fence)) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const taskMatch = lineText.match(TASK_PATTERN);
+    if (!taskMatch) continue;
+
+    // Sections are in line order, so the current one only moves forward
+    while (sectionIndex + 1 < sections.length && sections[sectionIndex + 1].startLine <= line) {
+      sectionIndex++;
+    }
+    const section = sections[sectionIndex] && sections[sectionIndex].startLine <= line
+      ? sections[sectionIndex]
+      : undefined;
+
+    const [, status, text] = taskMatch;
+    const { mentioned, ...dates } = extractTaskDates(text);
+    tasks.push({
+      line,
+      status,
+      state: taskState(status),
+      text,
+      heading: section?.heading ?? null,
+      headingPath: section?.headingPath ?? [],
+      anchor: section?.anchor ?? null,
+      ...dates,
+      date: dates.dueDate ?? dates.scheduledDate ?? dates.startDate ?? dates.doneDate ?? mentioned ?? noteDate,
+      tags: Array.from(new Set(extractInlineTags(text))),
+    });
+  }
+
+  return tasks;
+}
+
+/**
+ * Dates marked on a task, and the first other date in its text
+ */
+function extractTaskDates(text: string): Record<DateField | 'mentioned', string | null> {
+  const dates: Record<DateField | 'mentioned', string | null> = {
+    dueDate: null,
+    scheduledDate: null,
+    startDate: null,
+    doneDate: null,
+    mentioned: null,
+  };
+
+  let rest = text;
+  for (const pattern of [EMOJI_DATE_PATTERN, FIELD_DATE_PATTERN]) {
+    rest = rest.replace(pattern, (_, marker: string, date: string) => {
+      const field = DATE_MARKERS[marker.toLowerCase()];
+      dates[field] = dates[field] ?? date;
+      return ' ';
+    });
+  }
+  dates.mentioned = rest.match(DATE_PATTERN)?.[1] ?? null;
+  return dates;
+}
@@ -0,0 +1,177 @@
+/**
+ * Transclusions for QMD Search
+ * Expands ![[note]], ![[note#heading]] and ![[note#^block-id]] embeds into
+ * the text they show, so a note built from embeds can be found by the text
+ * of the notes it embeds.
+ */
+
+import { TFile, type Vault } from 'obsidian';
+import { splitFrontmatter, stripCode } from './metadata';
+import { splitSections } from './sections';
+import { findBlock } from './blocks';
+import type { LinkResolver } from './links';
+
+export interface TransclusionOptions {
+  /** Index embedded notes as part of the notes embedding them */
+  enabled: boolean;
+  /**
+   * Levels of embeds to follow: 1 expands a note's own embeds, 2 also the
+   * embeds inside the notes it embeds, and so on
+   */
+  maxDepth: number;
+}
+
+export const DEFAULT_TRANSCLUSION_OPTIONS: TransclusionOptions = {
+  enabled: false,
+  maxDepth: 2,
+};
+
+export const MAX_TRANSCLUSION_DEPTH = 5;
+
+/**
+ * The embeds of a note with the markdown each one shows
+ */
+export interface ExpandedEmbeds {
+  /** Expanded markdown by the embed as written, e.g. "![[Plan#^goals]]" */
+  embeds: Map<string, string>;
+  /** Paths of the notes read to expand them, embedded directly or through another note */
+  dependencies: string[];
+}
+
+// The embed syntax the normalizer strips when an embed is not expanded
+const EMBED_PATTERN = /!\[\[([^\]\n]*)\]\]|!\[[^\]\n]*\]\(([^)\n]*)\)/g;
+const URL_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+export class TransclusionExpander {
+  constructor(
+    private vault: Vault,
+    private resolveLink: LinkResolver
+  ) {}
+
+  /**
+   * Expand the embeds of a note, following embeds inside the embedded
+   * markdown up to maxDepth levels
+   *
+   * A note is never expanded inside itself, so cycles stop before they
+   * repeat a note. Embeds that are not expanded (images and other files,
+   * missing notes, headings or blocks, cycles, embeds past maxDepth) are
+   * left out of the map.
+   *
+   * @example
+   * ```typescript
+   * const { embeds } = await expander.expand('Hub.md', '![[Plan#^goals]]', 2);
+   * // Map { '![[Plan#^goals]]' => 'Ship the importer by November' }
+   * ```
+   */
+  async expand(path: string, content: string, maxDepth: number): Promise<ExpandedEmbeds> {
+    const dependencies = new Set<string>();
+    const embeds = await this.expandEmbeds(path, content, [path], maxDepth, dependencies);
+    return { embeds, dependencies: Array.from(dependencies) };
+  }
+
+  /**
+   * @param stack - Paths of the note and the notes it is embedded in
+   */
+  private async expandEmbeds(
+    sourcePath: string,
+    markdown: string,
+    stack: string[],
+    depth: number,
+    dependencies: Set<string>
+  ): Promise<Map<string, string>> {
+    const embeds = new Map<string, string>();
+    if (depth <= 0) return embeds;
+
+    for (const match of stripCode(markdown).matchAll(EMBED_PATTERN)) {
+      const embed = match[0];
+      if (embeds.has(embed)) continue;
+
+      const link = parseEmbed(match[1] ?? null, match[2] ?? null);
+      const targetPath = link ? this.resolveLink(link.target, sourcePath) : null;
+      if (!link || !targetPath || !/\.md$/i.test(targetPath) || stack.includes(targetPath)) continue;
+      // Recorded even if the heading or block is missing, so adding it updates this note
+      dependencies.add(targetPath);
+
+      const file = this.vault.getAbstractFileByPath(targetPath);
+      if (!(file instanceof TFile)) continue;
+
+      let part: string | null;
+      try {
+        part = embeddedPart(await this.vault.cachedRead(file), link.subpath);
+      } catch (error) {
+        console.warn(`[QMD] Could not read embedded note ${targetPath}:`, error);
+        continue;
+      }
+      if (part === null) continue;
+
+      const nested = await this.expandEmbeds(targetPath, part, [...stack, targetPath], depth - 1, dependencies);
+      embeds.set(embed, replaceEmbeds(part, nested));
+    }
+
+    return embeds;
+  }
+}
+
+/**
+ * Markdown with its embeds swapped for their expansion, on lines of its
+ * own like Obsidian shows them; embeds not in the map are kept as written
+ */
+export function replaceEmbeds(markdown: string, embeds: ReadonlyMap<string, string>): string {
+  if (embeds.size === 0) return markdown;
+  return markdown.replace(EMBED_PATTERN, embed => {
+    const expanded = embeds.get(embed);
+    return expanded === undefined ? embed : `\n\n${expanded}\n\n`;
+  });
+}
+
+/**
+ * Target and subpath of an embed, from the inside of ![[...]] or the
+ * destination of ![...](...); null for external URLs and same-note embeds
+ */
+function parseEmbed(wikilink: string | null, href: string | null): { target: string; subpath: string | null } | null {
+  let link = wikilink !== null
+    ? wikilink.split('|')[0]
+    : (href ?? '').trim().replace(/\s+"[^"]*"$/, '').replace(/^<|>$/g, '');
+  if (wikilink === null) {
+    if (URL_SCHEME_PATTERN.test(link)) return null;
+    try {
+      link = decodeURI(link);
+    } catch {
+      // Kept as written
+    }
+  }
+
+  const index = link.indexOf('#');
+  const target = (index < 0 ? link : link.slice(0, index)).trim();
+  const subpath = index < 0 ? null : link.slice(index + 1).trim() || null;
+  return target ? { target, subpath } : null;
+}
+
+/**
+ * The part of a note an embed shows: the body without frontmatter, a
+ * heading with everything under it, or a block; null if it is missing
+ */
+function embeddedPart(content: string, subpath: string | null): string | null {
+  if (!subpath) {
+    return splitFrontmatter(content).body.trim();
+  }
+  if (subpath.startsWith('^')) {
+    return findBlock(content, subpath)?.text.trim() ?? null;
+  }
+
+  // "Spec#API" embeds the API heading under Spec; a single heading matches at any level
+  const wanted = subpath.split('#').map(normalizeHeading).filter(Boolean);
+  const sections = splitSections(content);
+  const index = sections.findIndex(section =>
+    section.headingPath.length >= wanted.length &&
+    wanted.every((heading, i) => normalizeHeading(section.headingPath[section.headingPath.length - wanted.length + i]) === heading));
+  if (index < 0) return null;
+
+  const section = sections[index];
+  const next = sections.slice(index + 1).find(other => other.level > 0 && other.level <= section.level);
+  return content.slice(section.startOffset, next?.startOffset ?? content.length).trim();
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/\s+/g, ' ').trim().toLowerCase();
+}
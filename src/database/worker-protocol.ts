@@ -0,0 +1,108 @@
+/**
+ * Database Worker Protocol for QMD Search
+ * Messages exchanged between the plugin and the database worker, plus the
+ * errors that can cross the worker boundary.
+ */
+
+import type { RepositoryMethod } from './repository';
+
+/** Requests the plugin can send to the worker */
+export type WorkerMethod = 'open' | 'restore' | 'run' | 'exec' | 'export' | 'close' | 'repository';
+
+/** Callbacks the worker can invoke on the plugin while handling a request */
+export type WorkerCallbackName = 'beforeMigrate';
+
+/** Connection state reported with every response */
+export interface WorkerState {
+  /** Monotonic count of row changes since the database was opened */
+  changeCount: number;
+  /** True while an explicit BEGIN ... COMMIT/ROLLBACK block is open */
+  inTransaction: boolean;
+}
+
+export interface OpenOptions {
+  wasmBinary: ArrayBuffer;
+  enableVectorSearch?: boolean;
+  existingData?: Uint8Array;
+  /** Ask the plugin (beforeMigrate callback) before applying pending migrations */
+  notifyBeforeMigrate?: boolean;
+  /** Open existingData without migrating it */
+  skipMigrations?: boolean;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  snapshot?: Uint8Array;
+}
+
+export type RepositoryCall = [method: RepositoryMethod, args: unknown[]];
+
+export type PluginToWorkerMessage =
+  | { type: 'request'; id: number; method: WorkerMethod; args: unknown[] }
+  | { type: 'callback-result'; callbackId: number; error?: string };
+
+export type WorkerToPluginMessage =
+  | { type: 'response'; id: number; ok: true; result: unknown; state: WorkerState }
+  | { type: 'response'; id: number; ok: false; error: SerializedError; state: WorkerState }
+  | { type: 'callback'; callbackId: number; name: WorkerCallbackName; args: unknown[] };
+
+export class DatabaseInitError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'SQLJS_LOAD_FAILED'
+      | 'VEC_EXTENSION_MISSING'
+      | 'SCHEMA_CREATION_FAILED'
+      | 'MIGRATION_FAILED'
+      | 'WORKER_FAILED',
+    /** Pre-migration database contents, set when a migration step was rolled back */
+    public readonly snapshot?: Uint8Array
+  ) {
+    super(message);
+    this.name = 'DatabaseInitError';
+  }
+}
+
+export class DatabaseWorkerError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_OPEN' | 'BUSY' | 'CLOSED' | 'CRASHED' | 'QUERY_FAILED'
+  ) {
+    super(message);
+    this.name = 'DatabaseWorkerError';
+  }
+}
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof DatabaseInitError) {
+    return { name: error.name, message: error.message, code: error.code, snapshot: error.snapshot };
+  }
+  if (error instanceof DatabaseWorkerError) {
+    return { name: error.name, message: error.message, code: error.code };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * Rebuild an error received from the worker, keeping its class and code
+ */
+export function deserializeError(error: SerializedError): Error {
+  if (error.name === 'DatabaseInitError') {
+    return new DatabaseInitError(
+      error.message,
+      error.code as DatabaseInitError['code'],
+      error.snapshot
+    );
+  }
+  if (error.name === 'DatabaseWorkerError') {
+    return new DatabaseWorkerError(error.message, error.code as DatabaseWorkerError['code']);
+  }
+  const rebuilt = new Error(error.message);
+  rebuilt.name = error.name;
+  return rebuilt;
+}
@@ -3,7 +3,8 @@
  * Processes document chunks in batches with progress tracking
  */
 
-import type { Database, IndexedDocument } from '../database/indexer';
+import type { IndexedDocument } from '../database/indexer';
+import type { RemoteIndexRepository } from '../database/repository';
 import type { DocumentChunk, DocumentChunker } from './chunker';
 import type { OllamaEmbedder, EmbeddingResult } from './embedder';
 
@@ -37,7 +38,7 @@ const DEFAULT_MAX_RETRIES = 1;
 
 export class BatchEmbeddingProcessor {
   constructor(
-    private db: Database,
+    private repository: RemoteIndexRepository,
     private embedder: OllamaEmbedder,
     private chunker: DocumentChunker
   ) {}
@@ -51,7 +52,7 @@ export class BatchEmbeddingProcessor {
     const allChunks: DocumentChunk[] = [];
 
     for (const doc of documents) {
-      const chunks = this.chunker.chunkDocument(doc.hash, doc.content);
+      const chunks = this.chunker.chunkDocument(doc.hash, doc.searchText);
       allChunks.push(...chunks);
     }
 
@@ -106,11 +107,10 @@ export class BatchEmbeddingProcessor {
           maxRetries
         );
 
-        this.db.run('BEGIN TRANSACTION');
-        try {
+        await this.repository.transaction(async () => {
           for (const result of results) {
             if (result.success && result.embedding && result.chunk) {
-              this.insertEmbedding(result.embedding, result.chunk);
+              await this.insertEmbedding(result.embedding, result.chunk);
               completed++;
             } else {
               failed++;
@@ -119,11 +119,7 @@ export class BatchEmbeddingProcessor {
               }
             }
           }
-          this.db.run('COMMIT');
-        } catch (dbError) {
-          this.db.run('ROLLBACK');
-          throw dbError;
-        }
+        });
       } catch (error) {
         const errorMsg = `Batch ${batchIndex + 1} failed: ${error}`;
         errors.push(errorMsg);
@@ -186,30 +182,20 @@ export class BatchEmbeddingProcessor {
     return results;
   }
 
-  private insertEmbedding(result: EmbeddingResult, chunk: DocumentChunk): void {
+  private async insertEmbedding(result: EmbeddingResult, chunk: DocumentChunk): Promise<void> {
     const hashSeq = result.hashSeq;
     const [hash, seqStr] = hashSeq.split('_');
     const seq = parseInt(seqStr, 10);
     const now = Date.now();
 
     // Store chunk text in content_vectors table
-    this.db.run(
-      `INSERT INTO content_vectors (hash_seq, hash, seq, chunk_text, token_count, created_at)
-       VALUES (?, ?, ?, ?, ?, ?)
-       ON CONFLICT(hash_seq) DO UPDATE SET
-         chunk_text = excluded.chunk_text,
-         token_count = excluded.token_count`,
-      [hashSeq, hash, seq, chunk.text, chunk.tokenCount, now]
+    await this.repository.upsertChunk(
+      { hashSeq, hash, seq, chunkText: chunk.text, tokenCount: chunk.tokenCount, pos: chunk.pos },
+      now
     );
 
     // Store embedding vector in vectors_vec (vec0) table
-    const embeddingArray = Array.from(result.embedding);
-    this.db.run(
-      `INSERT INTO vectors_vec (hash_seq, embedding)
-       VALUES (?, ?)
-       ON CONFLICT(hash_seq) DO UPDATE SET embedding = excluded.embedding`,
-      [hashSeq, JSON.stringify(embeddingArray)]
-    );
+    await this.repository.upsertEmbedding(hashSeq, result.embedding);
   }
 
   private delay(ms: number): Promise<void> {
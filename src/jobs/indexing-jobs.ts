@@ -0,0 +1,242 @@
+/**
+ * Indexing Jobs for QMD Search
+ * Job handlers for single-file updates, full and per-collection reindexing,
+ * updating the notes that embed a changed note, embedding and purging
+ * deleted documents. Bulk jobs work in small batches and write a checkpoint
+ * after each one, so they can yield to interactive jobs and resume later.
+ */
+
+import { TFile, type Vault } from 'obsidian';
+import { IndexerError, type DocumentIndexer } from '../database/indexer';
+import type { RemoteIndexRepository } from '../database/repository';
+import type { DocumentContentLoader } from '../database/content-loader';
+import type { IndexGarbageCollector } from '../database/gc';
+import type { CollectionManager } from '../collections/manager';
+import { DocumentChunker, type DocumentChunk } from '../embeddings/chunker';
+import { BatchEmbeddingProcessor } from '../embeddings/batch-processor';
+import type { OllamaEmbedder } from '../embeddings/embedder';
+import type { JobContext, JobOutcome, JobQueue } from './job-queue';
+
+/** Files per transaction (and per checkpoint) in bulk indexing jobs */
+const INDEX_BATCH_SIZE = 20;
+/** Documents per checkpoint in embedding jobs */
+const EMBED_BATCH_SIZE = 5;
+
+export interface IndexingJobServices {
+  repository: RemoteIndexRepository;
+  vault: Vault;
+  indexer: DocumentIndexer;
+  collectionManager: CollectionManager;
+  embedder: OllamaEmbedder;
+  contentLoader: DocumentContentLoader;
+  garbageCollector: IndexGarbageCollector;
+}
+
+/**
+ * Register the handlers for every indexing job kind
+ */
+export function registerIndexingJobs(queue: JobQueue, services: IndexingJobServices): void {
+  queue.registerHandler('index-file', context =>
+    reindexDependentsAfter(queue, services, context.job.target, runIndexFile(context, services)));
+  queue.registerHandler('reindex-all', context => collectGarbageAfter(queue, runReindex(context, services)));
+  queue.registerHandler('reindex-collection', context => collectGarbageAfter(queue, runReindex(context, services)));
+  queue.registerHandler('reindex-dependents', context => runReindexDependents(context, services));
+  queue.registerHandler('embed-documents', context => runEmbedDocuments(context, services));
+  queue.registerHandler('collect-garbage', context => runCollectGarbage(context, services));
+}
+
+/**
+ * Queue a garbage collection once a reindex has completed, since it is
+ * what deactivates documents of deleted files
+ */
+async function collectGarbageAfter(queue: JobQueue, run: Promise<JobOutcome>): Promise<JobOutcome> {
+  const outcome = await run;
+  if (outcome === 'completed') {
+    await queue.enqueue('collect-garbage');
+  }
+  return outcome;
+}
+
+/**
+ * Queue an update of the notes embedding a file once it was indexed, when
+ * embeds are expanded and any note shows it
+ */
+async function reindexDependentsAfter(
+  queue: JobQueue,
+  { repository, indexer }: IndexingJobServices,
+  path: string | null,
+  run: Promise<JobOutcome>
+): Promise<JobOutcome> {
+  const outcome = await run;
+  if (outcome === 'completed' && path && indexer.getTransclusionOptions().enabled
+    && (await repository.listDependentPaths(path)).length > 0) {
+    await queue.enqueue('reindex-dependents', path);
+  }
+  return outcome;
+}
+
+/**
+ * Index one file (target: its path); a file that was deleted meanwhile is skipped
+ */
+async function runIndexFile(context: JobContext, { vault, indexer }: IndexingJobServices): Promise<JobOutcome> {
+  const path = context.job.target;
+  const file = path ? vault.getAbstractFileByPath(path) : null;
+  context.progress(0, 1, path ?? undefined);
+  if (file instanceof TFile) {
+    await indexer.updateDocument(file);
+  }
+  return 'completed';
+}
+
+/**
+ * Reindex every file of all collections, or of one (target: collection name)
+ *
+ * Files are indexed in path order and the checkpoint is the last path done.
+ * Documents are only deactivated once every file was indexed, so a cancelled
+ * job leaves the index searchable.
+ */
+async function runReindex(
+  context: JobContext,
+  { indexer, collectionManager }: IndexingJobServices
+): Promise<JobOutcome> {
+  const collectionName = context.job.kind === 'reindex-collection' ? context.job.target ?? '' : undefined;
+  let collectionId: number | undefined;
+  if (collectionName !== undefined) {
+    const collection = await collectionManager.getCollection(collectionName);
+    if (!collection) {
+      throw new IndexerError(`Collection "${collectionName}" not found.`, 'NOT_FOUND');
+    }
+    collectionId = collection.id;
+  }
+
+  // Pick up edits to .qmdignore files
+  await collectionManager.reloadExclusions();
+  const targets = await indexer.listIndexTargets(collectionName);
+  const cursor = context.job.checkpoint;
+  const remaining = cursor === null ? targets : targets.filter(target => target.file.path > cursor);
+  let completed = targets.length - remaining.length;
+
+  for (let i = 0; i < remaining.length; i += INDEX_BATCH_SIZE) {
+    if (context.stopRequested()) {
+      return 'stopped';
+    }
+
+    const batch = remaining.slice(i, i + INDEX_BATCH_SIZE);
+    const result = await indexer.indexBatch(batch, target => {
+      context.progress(completed++, targets.length, target.file.path);
+    });
+    if (result.errors.length > 0) {
+      console.warn(`[QMD] Job ${context.job.id}: ${result.errors.length} file(s) failed:`, result.errors);
+    }
+    await context.checkpoint(batch[batch.length - 1].file.path, completed, targets.length);
+  }
+
+  await indexer.deactivateUnlisted(new Set(targets.map(target => target.file.path)), collectionId);
+  return 'completed';
+}
+
+/**
+ * Reindex the notes whose expanded embeds show a note (target: its path)
+ *
+ * Dependencies are recorded through every level of embeds, so the notes
+ * updated here do not queue updates of their own. Notes are reindexed in
+ * path order and the checkpoint is the last path done.
+ */
+async function runReindexDependents(
+  context: JobContext,
+  { repository, vault, indexer }: IndexingJobServices
+): Promise<JobOutcome> {
+  const path = context.job.target;
+  const dependents = path ? await repository.listDependentPaths(path) : [];
+  const cursor = context.job.checkpoint;
+  const remaining = cursor === null ? dependents : dependents.filter(dependent => dependent > cursor);
+  let completed = dependents.length - remaining.length;
+
+  for (let i = 0; i < remaining.length; i += INDEX_BATCH_SIZE) {
+    if (context.stopRequested()) {
+      return 'stopped';
+    }
+
+    const batch = remaining.slice(i, i + INDEX_BATCH_SIZE);
+    await repository.transaction(async () => {
+      for (const dependent of batch) {
+        context.progress(completed++, dependents.length, dependent);
+        const file = vault.getAbstractFileByPath(dependent);
+        if (!(file instanceof TFile)) continue;
+        try {
+          await indexer.updateDocument(file);
+        } catch (error) {
+          console.warn(`[QMD] Job ${context.job.id}: failed to update ${dependent}:`, error);
+        }
+      }
+    });
+    await context.checkpoint(batch[batch.length - 1], completed, dependents.length);
+  }
+
+  return 'completed';
+}
+
+/**
+ * Embed active documents that have no stored chunks yet
+ * Documents are embedded in hash order and the checkpoint is the last hash done.
+ */
+async function runEmbedDocuments(
+  context: JobContext,
+  { repository, embedder, contentLoader }: IndexingJobServices
+): Promise<JobOutcome> {
+  const chunker = new DocumentChunker();
+  const processor = new BatchEmbeddingProcessor(repository, embedder, chunker);
+
+  const availability = await processor.checkOllamaAvailability();
+  if (!availability.available) {
+    throw new Error(availability.error ?? 'Ollama is not available');
+  }
+
+  const embedded = new Set(await repository.listEmbeddedHashes());
+  const hashes = Array.from(new Set(await repository.listActiveDocumentHashes()))
+    .filter(hash => !embedded.has(hash))
+    .sort();
+  const cursor = context.job.checkpoint;
+  const remaining = cursor === null ? hashes : hashes.filter(hash => hash > cursor);
+  // Progress counts documents still missing embeddings when the job (re)started
+  const total = remaining.length + context.job.completed;
+  let completed = context.job.completed;
+
+  for (let i = 0; i < remaining.length; i += EMBED_BATCH_SIZE) {
+    if (context.stopRequested()) {
+      return 'stopped';
+    }
+
+    const batch = remaining.slice(i, i + EMBED_BATCH_SIZE);
+    const chunks: DocumentChunk[] = [];
+    for (const hash of batch) {
+      const [doc] = await repository.listDocumentsByHash(hash);
+      if (!doc) continue;
+      context.progress(completed, total, doc.path);
+      const text = await contentLoader.loadSearchText(hash, doc.path);
+      chunks.push(...chunker.chunkDocument(hash, text));
+    }
+
+    const result = await processor.processChunks(chunks);
+    if (result.errors.length > 0) {
+      console.warn(`[QMD] Job ${context.job.id}: ${result.failedEmbeddings} chunk(s) failed:`, result.errors);
+    }
+    completed += batch.length;
+    await context.checkpoint(batch[batch.length - 1], completed, total);
+  }
+
+  return 'completed';
+}
+
+/**
+ * Purge documents inactive for longer than the retention period
+ * Runs as one step, so it has no checkpoint.
+ */
+async function runCollectGarbage(
+  context: JobContext,
+  { garbageCollector }: IndexingJobServices
+): Promise<JobOutcome> {
+  context.progress(0, 1);
+  await garbageCollector.collect();
+  return 'completed';
+}
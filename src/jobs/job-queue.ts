@@ -0,0 +1,364 @@
+/**
+ * Job Queue for QMD Search
+ * Runs indexing and embedding work one job at a time, in priority order.
+ * Jobs are stored in the index with a checkpoint, so they can be paused,
+ * cancelled, and resumed after a restart where they left off.
+ */
+
+import type {
+  Job,
+  JobKind,
+  JobStatus,
+  RemoteIndexRepository
+} from '../database/repository';
+
+export type { Job, JobKind, JobStatus } from '../database/repository';
+
+/**
+ * Job priorities; interactive work (a file that was just edited) runs
+ * before bulk work such as a full reindex
+ */
+export const JOB_PRIORITY = {
+  bulk: 0,
+  interactive: 10,
+} as const;
+
+/**
+ * How a handler returned: it finished the work, or it stopped early because
+ * stopRequested() turned true (after writing a checkpoint)
+ */
+export type JobOutcome = 'completed' | 'stopped';
+
+export interface JobContext {
+  /** The job as of when it started, including the checkpoint to resume from */
+  job: Job;
+  /**
+   * True once the job should stop at the next safe point: it was paused or
+   * cancelled, a higher priority job is waiting, or the queue is shutting down
+   */
+  stopRequested(): boolean;
+  /** Report progress to observers (not persisted) */
+  progress(completed: number, total: number, currentItem?: string): void;
+  /** Persist progress and the cursor to resume from */
+  checkpoint(cursor: string, completed: number, total: number): Promise<void>;
+}
+
+export type JobHandler = (context: JobContext) => Promise<JobOutcome>;
+
+export interface JobEvent {
+  job: Job;
+  /** Item being processed by a running job (e.g. a file path) */
+  currentItem: string | null;
+}
+
+export type JobListener = (event: JobEvent) => void;
+
+export class JobQueueError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NO_HANDLER' | 'INVALID_STATE'
+  ) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+type StopReason = 'pause' | 'cancel' | 'preempt' | 'shutdown';
+
+interface RunningJob {
+  job: Job;
+  stop: StopReason | null;
+  done: Promise<void>;
+}
+
+/** Finished jobs are kept this long for the status view */
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Priority queue of persistent jobs
+ *
+ * @example
+ * ```typescript
+ * const queue = new JobQueue(repository);
+ * queue.registerHandler('reindex-all', context => runReindex(context));
+ * await queue.start();
+ * const job = await queue.enqueue('reindex-all');
+ * const finished = await queue.whenFinished(job.id);
+ * ```
+ */
+export class JobQueue {
+  private handlers = new Map<JobKind, JobHandler>();
+  private listeners = new Set<JobListener>();
+  private waiters = new Map<number, Array<(job: Job) => void>>();
+  private running: RunningJob | null = null;
+  private pumping = false;
+  private pumpRequested = false;
+  private started = false;
+  private onCheckpointed: (() => void) | null = null;
+
+  constructor(private repository: RemoteIndexRepository) {}
+
+  registerHandler(kind: JobKind, handler: JobHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  /**
+   * Register a callback fired after a job writes a checkpoint or changes
+   * status (used to trigger background saves)
+   */
+  onCheckpoint(callback: () => void): void {
+    this.onCheckpointed = callback;
+  }
+
+  /**
+   * Observe job status and progress changes
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Resume jobs interrupted by the last shutdown and start running queued jobs
+   */
+  async start(): Promise<void> {
+    const now = Date.now();
+    const interrupted = await this.repository.requeueInterruptedJobs(now);
+    if (interrupted > 0) {
+      console.log(`[QMD] Resuming ${interrupted} interrupted job(s)`);
+    }
+    await this.repository.deleteFinishedJobs(now - FINISHED_JOB_RETENTION_MS);
+
+    this.started = true;
+    void this.pump();
+  }
+
+  /**
+   * Stop taking jobs and wait for the running one to reach a checkpoint
+   * It stays queued and resumes on the next start().
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.running) {
+      this.running.stop = 'shutdown';
+      await this.running.done;
+    }
+  }
+
+  /**
+   * Whether the queue is running jobs, i.e. start() was called without a later stop()
+   */
+  isStarted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Queue a job, or return the queued job with the same kind and target
+   */
+  async enqueue(kind: JobKind, target: string | null = null, priority: number = JOB_PRIORITY.bulk): Promise<Job> {
+    if (!this.handlers.has(kind)) {
+      throw new JobQueueError(`No handler registered for "${kind}" jobs`, 'NO_HANDLER');
+    }
+
+    const queued = await this.repository.listJobs(['queued']);
+    const existing = queued.find(job => job.kind === kind && job.target === target);
+    if (existing) {
+      return existing;
+    }
+
+    const id = await this.repository.insertJob(kind, target, priority, Date.now());
+    const job = await this.getJob(id);
+    this.emit(job);
+
+    // Let a running lower priority job yield at its next checkpoint
+    if (this.running && this.running.job.priority < priority && !this.running.stop) {
+      this.running.stop = 'preempt';
+    }
+    void this.pump();
+    return job;
+  }
+
+  /**
+   * Cancel a queued, paused or running job; a running job stops at its next checkpoint
+   */
+  async cancel(id: number): Promise<void> {
+    if (this.running?.job.id === id) {
+      this.running.stop = 'cancel';
+      return;
+    }
+    const job = await this.getJob(id);
+    if (job.status === 'queued' || job.status === 'paused') {
+      await this.finish(job, { status: 'cancelled' });
+    }
+  }
+
+  /**
+   * Pause a queued or running job until resume() is called
+   */
+  async pause(id: number): Promise<void> {
+    if (this.running?.job.id === id) {
+      this.running.stop = 'pause';
+      return;
+    }
+    const job = await this.getJob(id);
+    if (job.status !== 'queued') {
+      throw new JobQueueError(`Job ${id} is ${job.status} and cannot be paused`, 'INVALID_STATE');
+    }
+    await this.update(job, { status: 'paused' });
+  }
+
+  async resume(id: number): Promise<void> {
+    const job = await this.getJob(id);
+    if (job.status !== 'paused') {
+      throw new JobQueueError(`Job ${id} is ${job.status} and cannot be resumed`, 'INVALID_STATE');
+    }
+    await this.update(job, { status: 'queued' });
+    void this.pump();
+  }
+
+  /**
+   * Queued, running and paused jobs, in run order
+   */
+  async listActiveJobs(): Promise<Job[]> {
+    const jobs = await this.repository.listJobs(['running', 'queued', 'paused']);
+    // The row of the running job lags behind its reported progress
+    return jobs.map(job => job.id === this.running?.job.id ? this.running.job : job);
+  }
+
+  /**
+   * Resolves with the job once it completed, failed or was cancelled
+   */
+  async whenFinished(id: number): Promise<Job> {
+    // Wait before reading the job, so a job finishing meanwhile is not missed
+    let waiter: (job: Job) => void = () => {};
+    const finished = new Promise<Job>(resolve => { waiter = resolve; });
+    this.waiters.set(id, [...(this.waiters.get(id) ?? []), waiter]);
+
+    const job = await this.getJob(id);
+    if (isFinished(job.status)) {
+      this.waiters.set(id, (this.waiters.get(id) ?? []).filter(resolve => resolve !== waiter));
+      return job;
+    }
+    return finished;
+  }
+
+  private async pump(): Promise<void> {
+    if (!this.started) return;
+    if (this.pumping) {
+      // Look again before the running pump goes idle
+      this.pumpRequested = true;
+      return;
+    }
+    this.pumping = true;
+    try {
+      while (this.started) {
+        this.pumpRequested = false;
+        const [next] = await this.repository.listJobs(['queued']);
+        if (next) {
+          await this.run(next);
+        } else if (!this.pumpRequested) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('[QMD] Job queue stopped:', error);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.kind);
+    if (!handler) {
+      await this.finish(job, { status: 'failed', error: `No handler registered for "${job.kind}" jobs` });
+      return;
+    }
+
+    let markDone = () => {};
+    const running: RunningJob = {
+      job: { ...job, status: 'running' },
+      stop: null,
+      done: new Promise(resolve => { markDone = resolve; }),
+    };
+    this.running = running;
+
+    try {
+      await this.update(job, { status: 'running', error: null });
+
+      const context: JobContext = {
+        job: running.job,
+        stopRequested: () => running.stop !== null,
+        progress: (completed, total, currentItem) => {
+          running.job = { ...running.job, completed, total };
+          this.emit(running.job, currentItem ?? null);
+        },
+        checkpoint: async (cursor, completed, total) => {
+          running.job = { ...running.job, completed, total, checkpoint: cursor };
+          await this.repository.updateJob(job.id, { completed, total, checkpoint: cursor }, Date.now());
+          this.onCheckpointed?.();
+        },
+      };
+
+      let outcome: JobOutcome;
+      try {
+        outcome = await handler(context);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[QMD] Job ${job.id} (${job.kind}) failed:`, error);
+        await this.finish(running.job, { status: 'failed', error: message });
+        return;
+      }
+
+      if (outcome === 'completed') {
+        await this.finish(running.job, { status: 'completed', completed: running.job.total });
+      } else if (running.stop === 'cancel') {
+        await this.finish(running.job, { status: 'cancelled' });
+      } else {
+        await this.update(running.job, { status: running.stop === 'pause' ? 'paused' : 'queued' });
+      }
+    } finally {
+      this.running = null;
+      markDone();
+    }
+  }
+
+  private async update(job: Job, update: Partial<Job> & { status: JobStatus }): Promise<Job> {
+    const { status, total, completed, checkpoint, error } = { ...job, ...update };
+    await this.repository.updateJob(job.id, { status, total, completed, checkpoint, error }, Date.now());
+    const updated = { ...job, ...update, updatedAt: Date.now() };
+    this.emit(updated);
+    this.onCheckpointed?.();
+    return updated;
+  }
+
+  private async finish(job: Job, update: Partial<Job> & { status: JobStatus }): Promise<void> {
+    const finished = await this.update(job, update);
+    for (const resolve of this.waiters.get(job.id) ?? []) {
+      resolve(finished);
+    }
+    this.waiters.delete(job.id);
+  }
+
+  private async getJob(id: number): Promise<Job> {
+    const job = await this.repository.getJob(id);
+    if (!job) {
+      throw new JobQueueError(`Job ${id} not found`, 'NOT_FOUND');
+    }
+    return job;
+  }
+
+  private emit(job: Job, currentItem: string | null = null): void {
+    for (const listener of this.listeners) {
+      try {
+        listener({ job, currentItem });
+      } catch (error) {
+        console.error('[QMD] Job listener failed:', error);
+      }
+    }
+  }
+}
+
+export function isFinished(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
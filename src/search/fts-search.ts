@@ -7,42 +7,38 @@
  * @module search/fts-search
  */
 
-type SqlValue = number | string | Uint8Array | null;
+import type { BlockMatch, FtsMatch, RemoteIndexRepository, RevisionMatch, SectionMatch, TaskMatch } from '../database/repository';
+import type { MetadataFilter } from '../database/metadata';
+import type { DocumentTask, TaskState } from '../database/tasks';
+import { DocumentContentLoader } from '../database/content-loader';
+import { DEFAULT_FTS_TOKENIZER, type FtsTokenizer } from '../database/schema';
 
-interface QueryExecResult {
-  columns: string[];
-  values: SqlValue[][];
-}
-
-interface Statement {
-  bind(params?: SqlValue[] | Record<string, SqlValue> | null): boolean;
-  step(): boolean;
-  get(): SqlValue[];
-  free(): boolean;
-}
-
-export interface Database {
-  run(sql: string, params?: unknown[]): void;
-  exec(sql: string): QueryExecResult[];
-  prepare(sql: string): Statement;
-}
+const FTS5_EXPLICIT_SYNTAX = /["*?]|(?:^|\s)(AND|OR|NOT)(?:\s|$)|(?:title|content):/i;
+/** Characters in a trigram; shorter terms cannot match a trigram index */
+const TRIGRAM_LENGTH = 3;
 
 /**
  * Result from a full-text search query
  */
 export interface SearchResult {
-  /** Document hash (unique identifier) */
+  /** Document id (unique identifier) */
+  id: number;
+  /** Content hash (shared by documents with identical content) */
   hash: string;
   /** Document title */
   title: string;
-  /** Full document content */
-  content: string;
+  /** Load the full document content (not fetched with the hit) */
+  loadContent(): Promise<string>;
   /** File path relative to vault */
   path: string;
   /** Normalized relevance score (0-100, higher = better) */
   score: number;
-  /** Context snippet with highlighted matches */
+  /** Context snippet with highlighted matches (empty if not extracted, see resolveSnippet) */
   snippet: string;
+  /** Best matching heading section, if any section matches on its own */
+  section?: SectionMatch;
+  /** Best matching ^block-id block, if any block matches on its own */
+  block?: BlockMatch;
   /** Result position (1 = best match) */
   rank: number;
 }
@@ -53,12 +49,77 @@ export interface SearchResult {
 export interface SearchOptions {
   /** Filter results to a specific collection by name */
   collectionFilter?: string;
+  /** Property and tag conditions (e.g. tag = project, status != done) */
+  filters?: MetadataFilter[];
   /** Minimum score threshold (0-100) */
   minScore?: number;
   /** Maximum number of results to return (default: 20) */
   limit?: number;
 }
 
+/**
+ * Result from a search of document revisions
+ */
+export interface RevisionSearchResult extends SearchResult {
+  /** The version of the document that matched */
+  revision: {
+    id: number;
+    /** When this version became current */
+    validFrom: number;
+    /** When it was replaced or the note was removed, null if still current */
+    validTo: number | null;
+  };
+  /** False if the note was removed from the index since */
+  active: boolean;
+}
+
+/**
+ * Options for revision search
+ */
+export interface RevisionSearchOptions {
+  /** Search the versions current at this time (ms); omit to search all versions */
+  asOf?: number;
+  collectionFilter?: string;
+  /** Property and tag conditions, checked against the current note */
+  filters?: MetadataFilter[];
+  /** Maximum number of documents to return (default: 20) */
+  limit?: number;
+}
+
+/**
+ * A task list item found by a task search
+ */
+export interface TaskSearchResult {
+  taskId: number;
+  /** Document id of the note the task is in */
+  id: number;
+  hash: string;
+  /** Title of the note */
+  title: string;
+  path: string;
+  task: DocumentTask;
+  /** Normalized relevance score (0-100, higher = better); absent for tasks listed without a query */
+  score?: number;
+  /** Result position (1 = first) */
+  rank: number;
+}
+
+/**
+ * Options for task search
+ */
+export interface TaskSearchOptions {
+  /** Only tasks in these states (default: all) */
+  states?: TaskState[];
+  /** Inclusive date range (YYYY-MM-DD) the task's date must fall in */
+  dateFrom?: string;
+  dateTo?: string;
+  collectionFilter?: string;
+  /** Only tasks of these notes (document ids) */
+  documentIds?: number[];
+  /** Maximum number of tasks to return (default: 20) */
+  limit?: number;
+}
+
 /**
  * Error thrown when search operations fail
  */
@@ -80,7 +141,7 @@ export class SearchError extends Error {
  * 
  * @example
  * ```typescript
- * const searcher = new FTSSearcher(db);
+ * const searcher = new FTSSearcher(repository);
  * 
  * // Basic search
  * const results = await searcher.search('machine learning');
@@ -99,9 +160,18 @@ export class SearchError extends Error {
 export class FTSSearcher {
   private readonly DEFAULT_LIMIT = 20;
   private readonly MAX_SNIPPET_TOKENS = 32;
+  /** Revisions fetched per result, since several versions of a note can match */
+  private readonly REVISION_OVERFETCH = 4;
   private initialized = false;
 
-  constructor(private db: Database) {
+  /**
+   * @param repository - Shared index repository
+   * @param contentLoader - Loads result content on demand (default: index only)
+   */
+  constructor(
+    private repository: RemoteIndexRepository,
+    private contentLoader: DocumentContentLoader = new DocumentContentLoader(repository)
+  ) {
     this.validateDatabase();
   }
 
@@ -109,7 +179,7 @@ export class FTSSearcher {
    * Validate database is initialized
    */
   private validateDatabase(): void {
-    if (!this.db) {
+    if (!this.repository) {
       throw new SearchError(
         'Database not initialized',
         'DB_NOT_INITIALIZED'
@@ -147,6 +217,58 @@ export class FTSSearcher {
     return (100 / normalizedScore) - 1;
   }
 
+  private toSearchResult(match: FtsMatch, rank: number): SearchResult {
+    return {
+      id: match.id,
+      hash: match.hash,
+      title: match.title,
+      loadContent: () => this.contentLoader.loadContent(match.hash, match.path),
+      path: match.path,
+      score: this.normalizeBM25Score(match.bm25Score),
+      snippet: match.snippet,
+      rank,
+    };
+  }
+
+  /**
+   * Set each result's best matching section and block
+   * They only refine where a note opens, so failures leave results as they are.
+   */
+  private async attachSections(match: string, results: SearchResult[]): Promise<SearchResult[]> {
+    const ids = results.map(r => r.id);
+    try {
+      const sections = await this.repository.findBestSections(match, ids);
+      const byDocument = new Map(sections.map(entry => [entry.documentId, entry.section]));
+      for (const result of results) {
+        result.section = byDocument.get(result.id);
+      }
+    } catch (error) {
+      console.warn('[QMD] Section lookup failed:', error);
+    }
+    try {
+      const blocks = await this.repository.findBestBlocks(match, ids);
+      const byDocument = new Map(blocks.map(entry => [entry.documentId, entry.block]));
+      for (const result of results) {
+        result.block = byDocument.get(result.id);
+      }
+    } catch (error) {
+      console.warn('[QMD] Block lookup failed:', error);
+    }
+    return results;
+  }
+
+  /**
+   * Tokenizer the index was built with; queries are written for it
+   */
+  private async activeTokenizer(): Promise<FtsTokenizer> {
+    try {
+      return await this.repository.getFtsTokenizer();
+    } catch (error) {
+      console.warn('[QMD] Could not read the FTS tokenizer:', error);
+      return DEFAULT_FTS_TOKENIZER;
+    }
+  }
+
   /**
    * Sanitize and prepare FTS5 query
    * 
@@ -157,12 +279,17 @@ export class FTSSearcher {
    * - AND, OR, NOT - boolean operators
    * - title:query, content:query - column filters
    * 
-   * Escapes special characters that would cause parse errors.
+   * Escapes special characters that would cause parse errors. With the
+   * trigram tokenizer each term is quoted instead, so it matches as a
+   * substring punctuation included (e.g. "AB-1234"). Terms shorter than
+   * three characters cannot match a trigram index; they are left out here
+   * and matched as substrings instead (see shortTerms).
    * 
    * @param query - Raw search query from user
+   * @param tokenizer - Tokenizer of the FTS5 tables
    * @returns Sanitized FTS5 query string
    */
-  private sanitizeFTS5Query(query: string): string {
+  private sanitizeFTS5Query(query: string, tokenizer: FtsTokenizer = DEFAULT_FTS_TOKENIZER): string {
     if (!query || typeof query !== 'string') {
       return '';
     }
@@ -172,11 +299,18 @@ export class FTSSearcher {
       return '';
     }
 
-    const FTS5_EXPLICIT_SYNTAX = /["*?]|(?:^|\s)(AND|OR|NOT)(?:\s|$)|(?:title|content):/i;
     if (FTS5_EXPLICIT_SYNTAX.test(sanitized)) {
       return sanitized;
     }
 
+    if (tokenizer === 'trigram') {
+      return sanitized
+        .split(/\s+/)
+        .filter(term => Array.from(term).length >= TRIGRAM_LENGTH)
+        .map(term => `"${term}"`)
+        .join(' ');
+    }
+
     const FTS5_SPECIAL_CHARS = /[(){}^:\-]/g;
     sanitized = sanitized
       .replace(/"/g, '""')
@@ -187,6 +321,22 @@ export class FTSSearcher {
     return sanitized;
   }
 
+  /**
+   * Terms of a query too short for the trigram tokenizer, such as
+   * two-character Korean, Japanese or Chinese words; they are matched as
+   * substrings of the stored text. Empty for other tokenizers and for
+   * queries written in FTS5 syntax.
+   */
+  private shortTerms(query: string, tokenizer: FtsTokenizer): string[] {
+    const trimmed = query.trim();
+    if (tokenizer !== 'trigram' || FTS5_EXPLICIT_SYNTAX.test(trimmed)) {
+      return [];
+    }
+    return trimmed
+      .split(/\s+/)
+      .filter(term => term && Array.from(term).length < TRIGRAM_LENGTH);
+  }
+
   /**
    * Perform full-text search with BM25 ranking
    * 
@@ -202,8 +352,10 @@ export class FTSSearcher {
       throw new SearchError('Database not initialized', 'DB_NOT_INITIALIZED');
     }
 
-    const sanitizedQuery = this.sanitizeFTS5Query(query);
-    if (!sanitizedQuery) {
+    const tokenizer = await this.activeTokenizer();
+    const sanitizedQuery = this.sanitizeFTS5Query(query, tokenizer);
+    const contains = this.shortTerms(query, tokenizer);
+    if (!sanitizedQuery && contains.length === 0) {
       return [];
     }
 
@@ -216,81 +368,17 @@ export class FTSSearcher {
       : undefined;
 
     try {
-      let sql: string;
-      const params: (string | number)[] = [];
-
-      if (collectionFilter) {
-        sql = `
-          SELECT 
-            d.hash,
-            d.title,
-            d.content,
-            d.path,
-            bm25(documents_fts) AS bm25_score
-          FROM documents_fts
-          JOIN documents d ON documents_fts.hash = d.hash
-          JOIN collections c ON d.collection_id = c.id
-          WHERE documents_fts MATCH ?
-            AND d.active = 1
-            AND c.name = ?
-            ${bm25Threshold !== undefined ? 'AND abs(bm25(documents_fts)) <= ?' : ''}
-          ORDER BY bm25_score ASC
-          LIMIT ?
-        `;
-        params.push(sanitizedQuery, collectionFilter);
-        if (bm25Threshold !== undefined) {
-          params.push(bm25Threshold);
-        }
-        params.push(limit);
-      } else {
-        sql = `
-          SELECT 
-            d.hash,
-            d.title,
-            d.content,
-            d.path,
-            bm25(documents_fts) AS bm25_score
-          FROM documents_fts
-          JOIN documents d ON documents_fts.hash = d.hash
-          WHERE documents_fts MATCH ?
-            AND d.active = 1
-            ${bm25Threshold !== undefined ? 'AND abs(bm25(documents_fts)) <= ?' : ''}
-          ORDER BY bm25_score ASC
-          LIMIT ?
-        `;
-        params.push(sanitizedQuery);
-        if (bm25Threshold !== undefined) {
-          params.push(bm25Threshold);
-        }
-        params.push(limit);
-      }
-
-      const stmt = this.db.prepare(sql);
-      const results: SearchResult[] = [];
-
-      try {
-        stmt.bind(params as SqlValue[]);
-
-        let rank = 1;
-        while (stmt.step()) {
-          const row = stmt.get();
-          const bm25Score = row[4] as number;
-
-          results.push({
-            hash: row[0] as string,
-            title: row[1] as string,
-            content: row[2] as string,
-            path: row[3] as string,
-            score: this.normalizeBM25Score(bm25Score),
-            snippet: '',
-            rank: rank++,
-          });
-        }
-      } finally {
-        stmt.free();
-      }
-
-      return results;
+      const matches = await this.repository.searchFts({
+        match: sanitizedQuery || undefined,
+        contains,
+        collectionFilter,
+        filters: options?.filters,
+        maxBm25: bm25Threshold,
+        limit,
+      });
+
+      const results = matches.map((match, index) => this.toSearchResult(match, index + 1));
+      return sanitizedQuery ? this.attachSections(sanitizedQuery, results) : results;
     } catch (error) {
       if (error instanceof Error && error.message.includes('fts5')) {
         return [];
@@ -317,8 +405,10 @@ export class FTSSearcher {
       throw new SearchError('Database not initialized', 'DB_NOT_INITIALIZED');
     }
 
-    const sanitizedQuery = this.sanitizeFTS5Query(query);
-    if (!sanitizedQuery) {
+    const tokenizer = await this.activeTokenizer();
+    const sanitizedQuery = this.sanitizeFTS5Query(query, tokenizer);
+    const contains = this.shortTerms(query, tokenizer);
+    if (!sanitizedQuery && contains.length === 0) {
       return [];
     }
 
@@ -331,94 +421,165 @@ export class FTSSearcher {
       : undefined;
 
     try {
-      let sql: string;
-      const params: (string | number)[] = [];
-
-      if (collectionFilter) {
-        sql = `
-          SELECT 
-            d.hash,
-            d.title,
-            d.content,
-            d.path,
-            bm25(documents_fts) AS bm25_score,
-            snippet(documents_fts, 2, '<mark>', '</mark>', '...', ${this.MAX_SNIPPET_TOKENS}) AS snippet
-          FROM documents_fts
-          JOIN documents d ON documents_fts.hash = d.hash
-          JOIN collections c ON d.collection_id = c.id
-          WHERE documents_fts MATCH ?
-            AND d.active = 1
-            AND c.name = ?
-            ${bm25Threshold !== undefined ? 'AND abs(bm25(documents_fts)) <= ?' : ''}
-          ORDER BY bm25_score ASC
-          LIMIT ?
-        `;
-        params.push(sanitizedQuery, collectionFilter);
-        if (bm25Threshold !== undefined) {
-          params.push(bm25Threshold);
-        }
-        params.push(limit);
-      } else {
-        sql = `
-          SELECT 
-            d.hash,
-            d.title,
-            d.content,
-            d.path,
-            bm25(documents_fts) AS bm25_score,
-            snippet(documents_fts, 2, '<mark>', '</mark>', '...', ${this.MAX_SNIPPET_TOKENS}) AS snippet
-          FROM documents_fts
-          JOIN documents d ON documents_fts.hash = d.hash
-          WHERE documents_fts MATCH ?
-            AND d.active = 1
-            ${bm25Threshold !== undefined ? 'AND abs(bm25(documents_fts)) <= ?' : ''}
-          ORDER BY bm25_score ASC
-          LIMIT ?
-        `;
-        params.push(sanitizedQuery);
-        if (bm25Threshold !== undefined) {
-          params.push(bm25Threshold);
-        }
-        params.push(limit);
+      const matches = await this.repository.searchFts({
+        match: sanitizedQuery || undefined,
+        contains,
+        collectionFilter,
+        filters: options?.filters,
+        maxBm25: bm25Threshold,
+        limit,
+        snippetTokens: this.MAX_SNIPPET_TOKENS,
+      });
+
+      const results = matches.map((match, index) => this.toSearchResult(match, index + 1));
+      return sanitizedQuery ? this.attachSections(sanitizedQuery, results) : results;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fts5')) {
+        return [];
       }
+      throw new SearchError(
+        `Search query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'QUERY_ERROR'
+      );
+    }
+  }
 
-      const stmt = this.db.prepare(sql);
-      const results: SearchResult[] = [];
-
-      try {
-        stmt.bind(params as SqlValue[]);
-
-        let rank = 1;
-        while (stmt.step()) {
-          const row = stmt.get();
-          const bm25Score = row[4] as number;
-
-          results.push({
-            hash: row[0] as string,
-            title: row[1] as string,
-            content: row[2] as string,
-            path: row[3] as string,
-            score: this.normalizeBM25Score(bm25Score),
-            snippet: (row[5] as string) || '',
-            rank: rank++,
-          });
+  /**
+   * Search the revision history of documents with BM25 ranking
+   *
+   * Each document appears once, with its best matching revision (the most
+   * recent one when several match equally well). With asOf, only the
+   * versions current at that time are searched. Revisions are recorded only
+   * while revision history is enabled.
+   *
+   * @param query - Search query (supports FTS5 syntax)
+   * @param options - Point in time, collection filter, limit
+   * @returns Array of revision results ordered by relevance
+   */
+  async searchRevisions(query: string, options?: RevisionSearchOptions): Promise<RevisionSearchResult[]> {
+    if (!this.initialized) {
+      throw new SearchError('Database not initialized', 'DB_NOT_INITIALIZED');
+    }
+
+    const tokenizer = await this.activeTokenizer();
+    const sanitizedQuery = this.sanitizeFTS5Query(query, tokenizer);
+    const contains = this.shortTerms(query, tokenizer);
+    if (!sanitizedQuery && contains.length === 0) {
+      return [];
+    }
+
+    const limit = options?.limit ?? this.DEFAULT_LIMIT;
+
+    try {
+      const matches = await this.repository.searchRevisions({
+        match: sanitizedQuery || undefined,
+        contains,
+        asOf: options?.asOf,
+        collectionFilter: options?.collectionFilter,
+        filters: options?.filters,
+        limit: limit * this.REVISION_OVERFETCH,
+      });
+
+      // Matches are ordered by score, so the first per document is its best
+      const best = new Map<number, RevisionMatch>();
+      for (const match of matches) {
+        const current = best.get(match.id);
+        if (!current || (match.bm25Score === current.bm25Score && match.validFrom > current.validFrom)) {
+          best.set(match.id, match);
         }
-      } finally {
-        stmt.free();
       }
 
-      return results;
+      return Array.from(best.values())
+        .slice(0, limit)
+        .map((match, index) => this.toRevisionResult(match, index + 1));
     } catch (error) {
       if (error instanceof Error && error.message.includes('fts5')) {
         return [];
       }
       throw new SearchError(
-        `Search query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Revision search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'QUERY_ERROR'
       );
     }
   }
 
+  private toRevisionResult(match: RevisionMatch, rank: number): RevisionSearchResult {
+    return {
+      id: match.id,
+      hash: match.hash,
+      title: match.title,
+      loadContent: async () => (await this.repository.getRevisionText(match.revisionId)) ?? '',
+      path: match.path,
+      score: this.normalizeBM25Score(match.bm25Score),
+      snippet: '',
+      rank,
+      revision: { id: match.revisionId, validFrom: match.validFrom, validTo: match.validTo },
+      active: match.active,
+    };
+  }
+
+  /**
+   * Search task list items with BM25 ranking
+   *
+   * With an empty query, tasks meeting the conditions are listed by date
+   * (undated ones last), then by note and line.
+   *
+   * @param query - What the tasks are about (supports FTS5 syntax)
+   * @param options - States, date range, collection filter, limit
+   * @returns Array of task results, best match first
+   */
+  async searchTasks(query: string, options?: TaskSearchOptions): Promise<TaskSearchResult[]> {
+    if (!this.initialized) {
+      throw new SearchError('Database not initialized', 'DB_NOT_INITIALIZED');
+    }
+
+    let match: string | undefined;
+    let contains: string[] = [];
+    if (query.trim()) {
+      const tokenizer = await this.activeTokenizer();
+      match = this.sanitizeFTS5Query(query, tokenizer) || undefined;
+      contains = this.shortTerms(query, tokenizer);
+      if (!match && contains.length === 0) {
+        return [];
+      }
+    }
+
+    try {
+      const matches = await this.repository.searchTasks({
+        match,
+        contains,
+        states: options?.states,
+        dateFrom: options?.dateFrom,
+        dateTo: options?.dateTo,
+        collectionFilter: options?.collectionFilter,
+        documentIds: options?.documentIds,
+        limit: options?.limit ?? this.DEFAULT_LIMIT,
+      });
+      return matches.map((taskMatch, index) => this.toTaskResult(taskMatch, index + 1));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fts5')) {
+        return [];
+      }
+      throw new SearchError(
+        `Task search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'QUERY_ERROR'
+      );
+    }
+  }
+
+  private toTaskResult(match: TaskMatch, rank: number): TaskSearchResult {
+    return {
+      taskId: match.taskId,
+      id: match.id,
+      hash: match.hash,
+      title: match.title,
+      path: match.path,
+      task: match.task,
+      score: match.bm25Score !== null ? this.normalizeBM25Score(match.bm25Score) : undefined,
+      rank,
+    };
+  }
+
   /**
    * Search only in document titles
    * 
@@ -430,7 +591,7 @@ export class FTSSearcher {
    * @returns Array of search results
    */
   async searchTitles(query: string, options?: SearchOptions): Promise<SearchResult[]> {
-    const titleQuery = `title:${this.sanitizeFTS5Query(query)}`;
+    const titleQuery = `title:${this.sanitizeFTS5Query(query, await this.activeTokenizer())}`;
     return this.searchWithSnippets(titleQuery, options);
   }
 
@@ -445,7 +606,7 @@ export class FTSSearcher {
    * @returns Array of search results
    */
   async searchContent(query: string, options?: SearchOptions): Promise<SearchResult[]> {
-    const contentQuery = `content:${this.sanitizeFTS5Query(query)}`;
+    const contentQuery = `content:${this.sanitizeFTS5Query(query, await this.activeTokenizer())}`;
     return this.searchWithSnippets(contentQuery, options);
   }
 
@@ -456,11 +617,7 @@ export class FTSSearcher {
    */
   async getIndexedDocumentCount(): Promise<number> {
     try {
-      const result = this.db.exec('SELECT COUNT(*) FROM documents_fts');
-      if (result[0]?.values[0]?.[0] !== undefined) {
-        return result[0].values[0][0] as number;
-      }
-      return 0;
+      return await this.repository.countFtsRows();
     } catch {
       return 0;
     }
@@ -472,11 +629,6 @@ export class FTSSearcher {
    * @returns True if index is ready for queries
    */
   async isIndexReady(): Promise<boolean> {
-    try {
-      this.db.exec("SELECT 1 FROM documents_fts LIMIT 1");
-      return true;
-    } catch {
-      return false;
-    }
+    return this.repository.isFtsReady();
   }
 }
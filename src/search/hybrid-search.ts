@@ -10,21 +10,34 @@
  * @module search/hybrid-search
  */
 
-import { FTSSearcher, type SearchResult, type SearchOptions } from './fts-search';
+import {
+  FTSSearcher,
+  type SearchResult,
+  type SearchOptions,
+  type TaskSearchOptions,
+  type TaskSearchResult
+} from './fts-search';
 import { VectorSearcher, type VectorSearchResult, type VectorSearchOptions } from './vector-search';
-import type { Database } from './fts-search';
+import { LinkGraph } from './link-graph';
+import type { BlockMatch, RemoteIndexRepository, SectionMatch } from '../database/repository';
+import type { MetadataFilter } from '../database/metadata';
+import { DocumentContentLoader } from '../database/content-loader';
 import type { OllamaEmbedder } from '../embeddings/embedder';
 
 /**
  * Unified result from hybrid search combining BM25 and vector search
  */
 export interface HybridSearchResult {
-  /** Document hash (unique identifier) */
+  /** Document id (unique identifier) */
+  id: number;
+  /** Content hash (shared by documents with identical content) */
   hash: string;
   /** Document title */
   title: string;
-  /** Full document content */
-  content: string;
+  /** Load the full document content (not fetched with the hit) */
+  loadContent(): Promise<string>;
+  /** Load the text of the best matching chunk (set if document appeared in vector results) */
+  loadChunkText?(): Promise<string>;
   /** File path relative to vault */
   path: string;
   /** Combined RRF score (higher = better) */
@@ -39,10 +52,16 @@ export interface HybridSearchResult {
   bm25Rank?: number;
   /** Rank in vector results (1-based, undefined if not in vector results) */
   vectorRank?: number;
+  /** Number of notes linking to this one (set when linkBoost is enabled) */
+  backlinks?: number;
   /** Final rank after fusion (1 = best match) */
   rank: number;
-  /** Context snippet with highlighted matches (from FTS if available) */
+  /** Context snippet with highlighted matches (from FTS if available, see resolveSnippet) */
   snippet: string;
+  /** Best matching heading section (from FTS if available, else from the vector chunk) */
+  section?: SectionMatch;
+  /** Best matching ^block-id block (from FTS) */
+  block?: BlockMatch;
 }
 
 /**
@@ -51,6 +70,8 @@ export interface HybridSearchResult {
 export interface HybridSearchOptions {
   /** Filter results to a specific collection by name */
   collectionFilter?: string;
+  /** Property and tag conditions (e.g. tag = project, due < 2026-11-01) */
+  filters?: MetadataFilter[];
   /** Maximum number of results to return (default: 10) */
   limit?: number;
   /** Minimum RRF score threshold (default: no threshold) */
@@ -63,6 +84,24 @@ export interface HybridSearchOptions {
   enableBM25?: boolean;
   /** Enable vector search (default: true) */
   enableVector?: boolean;
+  /**
+   * Weight of the backlink boost (default: 0 = disabled). At 1, the most
+   * linked candidate gains as much as a rank-1 hit in one searcher; others
+   * gain proportionally to log(1 + backlinks).
+   */
+  linkBoost?: number;
+}
+
+/**
+ * Options for hybrid task search
+ */
+export interface HybridTaskSearchOptions extends Omit<TaskSearchOptions, 'documentIds'> {
+  /** RRF constant k (default: 60) */
+  rrfK?: number;
+  /** Number of candidates to fetch from each searcher before fusion (default: 20) */
+  candidateLimit?: number;
+  /** Rank the tasks of semantically matching notes too (default: true) */
+  enableVector?: boolean;
 }
 
 /**
@@ -107,7 +146,7 @@ export class HybridSearchError extends Error {
  * @example
  * ```typescript
  * const embedder = new OllamaEmbedder();
- * const hybridSearcher = new HybridSearcher(db, embedder);
+ * const hybridSearcher = new HybridSearcher(repository, embedder);
  * 
  * // Basic hybrid search
  * const results = await hybridSearcher.search('machine learning');
@@ -129,24 +168,30 @@ export class HybridSearchError extends Error {
 export class HybridSearcher {
   private ftsSearcher: FTSSearcher;
   private vectorSearcher: VectorSearcher;
+  private linkGraph: LinkGraph;
   private readonly DEFAULT_LIMIT = 10;
   private readonly DEFAULT_CANDIDATE_LIMIT = 20;
   private readonly DEFAULT_RRF_K = 60;
+  /** Tasks fetched per matching note when ranking the tasks of vector results */
+  private readonly TASKS_PER_NOTE = 10;
 
   /**
    * Create a new hybrid searcher
    * 
-   * @param db - SQLite database instance
+   * @param repository - Shared index repository
    * @param embedder - Ollama embedder for vector search
+   * @param contentLoader - Loads result content on demand (default: index only)
    * @param fallbackStrategy - How to handle unavailable search methods (default: 'graceful')
    */
   constructor(
-    db: Database,
+    repository: RemoteIndexRepository,
     embedder: OllamaEmbedder,
+    contentLoader: DocumentContentLoader = new DocumentContentLoader(repository),
     private readonly fallbackStrategy: FallbackStrategy = 'graceful'
   ) {
-    this.ftsSearcher = new FTSSearcher(db);
-    this.vectorSearcher = new VectorSearcher(db, embedder);
+    this.ftsSearcher = new FTSSearcher(repository, contentLoader);
+    this.vectorSearcher = new VectorSearcher(repository, embedder, contentLoader);
+    this.linkGraph = new LinkGraph(repository);
   }
 
   /**
@@ -167,12 +212,14 @@ export class HybridSearcher {
     // Validate and normalize options
     const {
       collectionFilter,
+      filters,
       limit = this.DEFAULT_LIMIT,
       minScore,
       rrfK = this.DEFAULT_RRF_K,
       candidateLimit = this.DEFAULT_CANDIDATE_LIMIT,
       enableBM25 = true,
-      enableVector = true
+      enableVector = true,
+      linkBoost = 0
     } = options;
 
     if (!enableBM25 && !enableVector) {
@@ -189,6 +236,13 @@ export class HybridSearcher {
       );
     }
 
+    if (linkBoost < 0) {
+      throw new HybridSearchError(
+        'Link boost must not be negative',
+        'INVALID_OPTIONS'
+      );
+    }
+
     // Run searches in parallel
     const searchPromises: Promise<SearchResult[] | VectorSearchResult[] | null>[] = [];
     
@@ -196,6 +250,7 @@ export class HybridSearcher {
       searchPromises.push(
         this.executeBM25Search(query, {
           collectionFilter,
+          filters,
           limit: candidateLimit
         })
       );
@@ -207,6 +262,7 @@ export class HybridSearcher {
       searchPromises.push(
         this.executeVectorSearch(query, {
           collectionFilter,
+          filters,
           limit: candidateLimit
         })
       );
@@ -230,11 +286,18 @@ export class HybridSearcher {
       return [];
     }
 
+    const bm25Candidates = (bm25Results as SearchResult[] | null) || [];
+    const vectorCandidates = (vectorResults as VectorSearchResult[] | null) || [];
+    const backlinks = linkBoost > 0
+      ? await this.countBacklinks([...bm25Candidates, ...vectorCandidates].map(r => r.id))
+      : null;
+
     // Apply RRF fusion
     const hybridResults = this.rrfFusion(
-      (bm25Results as SearchResult[] | null) || [],
-      (vectorResults as VectorSearchResult[] | null) || [],
-      rrfK
+      bm25Candidates,
+      vectorCandidates,
+      rrfK,
+      backlinks ? { counts: backlinks, weight: linkBoost } : undefined
     );
 
     // Apply score threshold if specified
@@ -247,6 +310,118 @@ export class HybridSearcher {
     return filteredResults.slice(0, limit);
   }
 
+  /**
+   * Search tasks, fusing with RRF the BM25 matches of the task text and the
+   * tasks of semantically matching notes
+   *
+   * Vector search ranks note chunks, not single tasks, so the tasks of each
+   * matching note take the note's place, those in its best matching section
+   * first. This is what finds "open tasks about the migration" when the
+   * tasks themselves only say "move the users table". An empty query lists
+   * tasks by date.
+   *
+   * @param query - What the tasks are about (see parseTaskQuery for plain-word queries)
+   * @param options - States, date range, collection filter and fusion options
+   * @returns Task results, best match first
+   * @throws {HybridSearchError} If options are invalid
+   */
+  async searchTasks(query: string, options: HybridTaskSearchOptions = {}): Promise<TaskSearchResult[]> {
+    const {
+      rrfK = this.DEFAULT_RRF_K,
+      candidateLimit = this.DEFAULT_CANDIDATE_LIMIT,
+      enableVector = true,
+      limit = this.DEFAULT_LIMIT,
+      ...conditions
+    } = options;
+
+    if (rrfK <= 0) {
+      throw new HybridSearchError(
+        'RRF constant k must be positive',
+        'INVALID_OPTIONS'
+      );
+    }
+
+    if (!query.trim()) {
+      return this.ftsSearcher.searchTasks('', { ...conditions, limit });
+    }
+
+    const [bm25Tasks, notes] = await Promise.all([
+      this.executeTaskSearch(query, { ...conditions, limit: candidateLimit }),
+      enableVector
+        ? this.executeVectorSearch(query, { collectionFilter: conditions.collectionFilter, limit: candidateLimit })
+        : Promise.resolve(null),
+    ]);
+
+    let noteTasks: TaskSearchResult[] = [];
+    if (notes && notes.length > 0) {
+      const tasks = await this.executeTaskSearch('', {
+        ...conditions,
+        documentIds: notes.map(note => note.id),
+        limit: candidateLimit * this.TASKS_PER_NOTE,
+      });
+      noteTasks = this.rankNoteTasks(notes, tasks ?? []).slice(0, candidateLimit);
+    }
+
+    const scores = new Map<number, { result: TaskSearchResult; rrfScore: number }>();
+    for (const ranked of [bm25Tasks ?? [], noteTasks]) {
+      ranked.forEach((result, index) => {
+        const rrfContribution = 1 / (rrfK + index + 1);
+        const existing = scores.get(result.taskId);
+        if (existing) {
+          existing.rrfScore += rrfContribution;
+        } else {
+          scores.set(result.taskId, { result, rrfScore: rrfContribution });
+        }
+      });
+    }
+
+    const fused = Array.from(scores.values()).sort((a, b) => b.rrfScore - a.rrfScore);
+    const maxScore = fused[0]?.rrfScore || 1;
+    const minScore = fused[fused.length - 1]?.rrfScore || 0;
+    const scoreRange = maxScore - minScore || 1;
+
+    return fused.slice(0, limit).map((entry, index) => ({
+      ...entry.result,
+      score: ((entry.rrfScore - minScore) / scoreRange) * 100,
+      rank: index + 1
+    }));
+  }
+
+  /**
+   * Order the tasks of vector-matched notes by their note's rank, tasks in
+   * the section the note matched on first, then by line
+   */
+  private rankNoteTasks(notes: VectorSearchResult[], tasks: TaskSearchResult[]): TaskSearchResult[] {
+    const noteIndex = new Map(notes.map((note, index) => [note.id, index]));
+    const inMatchedSection = (result: TaskSearchResult): number => {
+      const section = notes[noteIndex.get(result.id) ?? -1]?.section;
+      return section && result.task.line >= section.startLine && result.task.line <= section.endLine ? 0 : 1;
+    };
+
+    return [...tasks].sort((a, b) =>
+      (noteIndex.get(a.id) ?? 0) - (noteIndex.get(b.id) ?? 0) ||
+      inMatchedSection(a) - inMatchedSection(b) ||
+      a.task.line - b.task.line);
+  }
+
+  /**
+   * Execute task search with graceful error handling
+   */
+  private async executeTaskSearch(
+    query: string,
+    options: TaskSearchOptions
+  ): Promise<TaskSearchResult[] | null> {
+    try {
+      return await this.ftsSearcher.searchTasks(query, options);
+    } catch (error) {
+      if (this.fallbackStrategy === 'fail') {
+        throw error;
+      }
+      console.warn('Task search failed:', error);
+      return null;
+    }
+  }
+
   /**
    * Execute BM25 search with graceful error handling
    */
@@ -283,6 +458,21 @@ export class HybridSearcher {
     }
   }
 
+  /**
+   * Count backlinks of the candidates with graceful error handling
+   */
+  private async countBacklinks(ids: number[]): Promise<Map<number, number> | null> {
+    try {
+      return await this.linkGraph.countBacklinks(Array.from(new Set(ids)));
+    } catch (error) {
+      if (this.fallbackStrategy === 'fail') {
+        throw error;
+      }
+      console.warn('Backlink count failed, ranking without link boost:', error);
+      return null;
+    }
+  }
+
   /**
    * Apply Reciprocal Rank Fusion (RRF) to combine result sets
    * 
@@ -293,30 +483,40 @@ export class HybridSearcher {
    * - If it appears in vector results at rank r2: add 1/(k+r2)
    * - Documents in both sets get contributions from both
    * 
+   * With a link boost, each document also gets
+   * weight * log(1 + backlinks) / log(1 + maxBacklinks) / (k + 1).
+   * 
    * Scores are then normalized to 0-100 scale for display.
    * 
    * @param bm25Results - Results from BM25 search
    * @param vectorResults - Results from vector search
    * @param k - RRF constant (default: 60)
+   * @param linkBoost - Backlink counts by document id and boost weight (optional)
    * @returns Fused and ranked results
    */
   private rrfFusion(
     bm25Results: SearchResult[],
     vectorResults: VectorSearchResult[],
-    k: number
+    k: number,
+    linkBoost?: { counts: Map<number, number>; weight: number }
   ): HybridSearchResult[] {
     // Map to accumulate scores and metadata
-    const scoreMap = new Map<string, {
+    const scoreMap = new Map<number, {
+      id: number;
       hash: string;
       title: string;
-      content: string;
+      loadContent: () => Promise<string>;
+      loadChunkText?: () => Promise<string>;
       path: string;
       rrfScore: number;
       bm25Score?: number;
       similarity?: number;
       bm25Rank?: number;
       vectorRank?: number;
+      backlinks?: number;
       snippet: string;
+      section?: SectionMatch;
+      block?: BlockMatch;
     }>();
 
     // Process BM25 results
@@ -324,15 +524,18 @@ export class HybridSearcher {
       const rank = index + 1; // 1-based rank
       const rrfContribution = 1 / (k + rank);
 
-      scoreMap.set(result.hash, {
+      scoreMap.set(result.id, {
+        id: result.id,
         hash: result.hash,
         title: result.title,
-        content: result.content,
+        loadContent: result.loadContent,
         path: result.path,
         rrfScore: rrfContribution,
         bm25Score: result.score,
         bm25Rank: rank,
-        snippet: result.snippet || this.createSnippet(result.content)
+        snippet: result.snippet,
+        section: result.section,
+        block: result.block
       });
     });
 
@@ -341,27 +544,43 @@ export class HybridSearcher {
       const rank = index + 1; // 1-based rank
       const rrfContribution = 1 / (k + rank);
 
-      const existing = scoreMap.get(result.hash);
+      const existing = scoreMap.get(result.id);
       if (existing) {
         // Document in both result sets - accumulate scores
         existing.rrfScore += rrfContribution;
         existing.similarity = result.similarity;
         existing.vectorRank = rank;
+        existing.loadChunkText = existing.loadChunkText ?? result.loadChunkText;
+        existing.section = existing.section ?? result.section;
       } else {
         // Document only in vector results
-        scoreMap.set(result.hash, {
+        scoreMap.set(result.id, {
+          id: result.id,
           hash: result.hash,
           title: result.title,
-          content: result.content,
+          loadContent: result.loadContent,
+          loadChunkText: result.loadChunkText,
           path: result.path,
           rrfScore: rrfContribution,
           similarity: result.similarity,
           vectorRank: rank,
-          snippet: this.createSnippet(result.content)
+          snippet: '',
+          section: result.section
         });
       }
     });
 
+    // Favor well-linked notes
+    if (linkBoost) {
+      const maxBacklinks = Math.max(0, ...linkBoost.counts.values());
+      for (const entry of scoreMap.values()) {
+        entry.backlinks = linkBoost.counts.get(entry.id) ?? 0;
+        if (maxBacklinks > 0) {
+          entry.rrfScore += linkBoost.weight * (Math.log1p(entry.backlinks) / Math.log1p(maxBacklinks)) / (k + 1);
+        }
+      }
+    }
+
     // Convert to array and sort by RRF score
     const fusedResults = Array.from(scoreMap.values())
       .sort((a, b) => b.rrfScore - a.rrfScore);
@@ -379,16 +598,6 @@ export class HybridSearcher {
     }));
   }
 
-  /**
-   * Create a simple snippet from content when no FTS snippet available
-   */
-  private createSnippet(content: string, maxLength: number = 200): string {
-    if (content.length <= maxLength) {
-      return content;
-    }
-    return content.slice(0, maxLength) + '...';
-  }
-
   /**
    * Get statistics about last search results (for debugging/monitoring)
    */
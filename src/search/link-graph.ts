@@ -0,0 +1,90 @@
+/**
+ * Link Graph Queries
+ *
+ * Backlinks, outlinks and n-hop neighborhoods over the wikilinks and
+ * markdown links stored by the indexer.
+ *
+ * @module search/link-graph
+ */
+
+import type {
+  Backlink,
+  LinkNeighbor,
+  OutgoingLink,
+  RemoteIndexRepository
+} from '../database/repository';
+
+/**
+ * Error thrown when graph queries are invalid
+ */
+export class LinkGraphError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_DEPTH'
+  ) {
+    super(message);
+    this.name = 'LinkGraphError';
+  }
+}
+
+/**
+ * Link graph over indexed documents
+ *
+ * Only active documents take part: links from removed notes are ignored and
+ * links to them count as unresolved.
+ *
+ * @example
+ * ```typescript
+ * const graph = new LinkGraph(repository);
+ * const backlinks = await graph.getBacklinks('Projects/Alpha.md');
+ * const nearby = await graph.getNeighborhood('Projects/Alpha.md', 2);
+ * ```
+ */
+export class LinkGraph {
+  private readonly MAX_DEPTH = 5;
+
+  constructor(private repository: RemoteIndexRepository) {}
+
+  /**
+   * Documents linking to a note (one entry per link)
+   */
+  async getBacklinks(path: string): Promise<Backlink[]> {
+    return this.repository.listBacklinks(path);
+  }
+
+  /**
+   * Links written in a note, resolved where possible
+   */
+  async getOutlinks(path: string): Promise<OutgoingLink[]> {
+    return this.repository.listOutlinks(path);
+  }
+
+  /**
+   * Notes reachable within `depth` links in either direction, nearest first
+   * The note itself is included at depth 0.
+   *
+   * @param path - Note to start from
+   * @param depth - Maximum number of links to follow (1-5, default: 1)
+   * @throws {LinkGraphError} If depth is out of range
+   */
+  async getNeighborhood(path: string, depth = 1): Promise<LinkNeighbor[]> {
+    if (!Number.isInteger(depth) || depth < 1 || depth > this.MAX_DEPTH) {
+      throw new LinkGraphError(
+        `Neighborhood depth must be between 1 and ${this.MAX_DEPTH}`,
+        'INVALID_DEPTH'
+      );
+    }
+    return this.repository.listLinkNeighborhood(path, depth);
+  }
+
+  /**
+   * Number of distinct notes linking to each document id
+   */
+  async countBacklinks(ids: number[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    for (const row of await this.repository.countBacklinks(ids)) {
+      counts.set(row.id, row.backlinks);
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Near-Duplicate Detection
+ *
+ * Groups notes whose content is identical or overlaps heavily, using the
+ * MinHash signatures the indexer stores for each content hash. Candidate
+ * pairs come from locality-sensitive hashing over bands of the signatures
+ * and are kept when their estimated Jaccard similarity reaches the threshold.
+ *
+ * @module search/near-duplicates
+ */
+
+import type { ContentSignature, RemoteIndexRepository } from '../database/repository';
+import type { DocumentContentLoader } from '../database/content-loader';
+import {
+  MINHASH_PERMUTATIONS,
+  computeMinHash,
+  decodeSignature,
+  encodeSignature,
+  estimateJaccard
+} from '../database/minhash';
+
+/**
+ * Error thrown when duplicate detection options are invalid
+ */
+export class NearDuplicateError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_THRESHOLD'
+  ) {
+    super(message);
+    this.name = 'NearDuplicateError';
+  }
+}
+
+export interface DuplicateNote {
+  id: number;
+  path: string;
+  title: string;
+  collectionName: string;
+  /** Content hash; notes of a group with the same hash are identical */
+  hash: string;
+}
+
+export interface DuplicateGroup {
+  /** identical: every note has the same content; similar: the contents overlap */
+  kind: 'identical' | 'similar';
+  /**
+   * Lowest estimated Jaccard similarity among the pairs that joined the
+   * group (1 for identical notes)
+   */
+  similarity: number;
+  /** Notes in path order */
+  notes: DuplicateNote[];
+}
+
+export interface NearDuplicateOptions {
+  /** Minimum Jaccard similarity of two notes' word shingles, between 0 and 1 */
+  threshold: number;
+  /** Notes with fewer shingles are only grouped when identical (default: 10) */
+  minShingles?: number;
+}
+
+const DEFAULT_MIN_SHINGLES = 10;
+/** Documents signed per transaction when signing older documents */
+const SIGN_BATCH_SIZE = 50;
+
+/**
+ * Finds groups of duplicate notes
+ *
+ * @example
+ * ```typescript
+ * const finder = new NearDuplicateFinder(repository, contentLoader);
+ * const groups = await finder.findGroups({ threshold: 0.8 });
+ * // [{ kind: 'similar', similarity: 0.86, notes: [{ path: 'Clips/Article.md', ... }, ...] }]
+ * ```
+ */
+export class NearDuplicateFinder {
+  constructor(
+    private repository: RemoteIndexRepository,
+    private contentLoader: DocumentContentLoader
+  ) {}
+
+  /**
+   * Sign the content of documents indexed before signatures were recorded
+   * @returns Number of content hashes signed
+   */
+  async signMissing(onProgress?: (completed: number, total: number) => void): Promise<number> {
+    const repository = this.repository;
+    const unsigned = await repository.listUnsignedDocuments();
+
+    for (let i = 0; i < unsigned.length; i += SIGN_BATCH_SIZE) {
+      const batch = unsigned.slice(i, i + SIGN_BATCH_SIZE);
+      const signatures: ContentSignature[] = [];
+      for (const { hash, path } of batch) {
+        // In contentless mode this reads the vault file, which matches the
+        // hash unless the file changed since it was indexed
+        const minHash = computeMinHash(await this.contentLoader.loadContent(hash, path));
+        signatures.push({ hash, signature: encodeSignature(minHash.values), shingleCount: minHash.shingleCount });
+      }
+      await repository.transaction(async () => {
+        for (const signature of signatures) {
+          await repository.insertSignature(signature);
+        }
+      });
+      onProgress?.(i + batch.length, unsigned.length);
+    }
+
+    return unsigned.length;
+  }
+
+  /**
+   * Group active notes with identical or similar content, most similar first
+   */
+  async findGroups(options: NearDuplicateOptions): Promise<DuplicateGroup[]> {
+    const { threshold, minShingles = DEFAULT_MIN_SHINGLES } = options;
+    if (!(threshold > 0 && threshold <= 1)) {
+      throw new NearDuplicateError(`Similarity threshold must be between 0 and 1, got ${threshold}`, 'INVALID_THRESHOLD');
+    }
+
+    await this.signMissing();
+    const [signatures, documents] = await Promise.all([
+      this.repository.listActiveSignatures(),
+      this.repository.listDocumentMetadata(),
+    ]);
+
+    const notesByHash = new Map<string, DuplicateNote[]>();
+    for (const doc of documents) {
+      const note: DuplicateNote = {
+        id: doc.id,
+        path: doc.path,
+        title: doc.title,
+        collectionName: doc.collectionName,
+        hash: doc.hash,
+      };
+      notesByHash.set(doc.hash, [...(notesByHash.get(doc.hash) ?? []), note]);
+    }
+
+    // Empty notes are identical to each other but not duplicates
+    const entries = signatures
+      .filter(entry => entry.shingleCount > 0)
+      .map(entry => ({ hash: entry.hash, shingleCount: entry.shingleCount, values: decodeSignature(entry.signature) }));
+    const clusters = new SimilarityClusters(entries.length);
+
+    const rows = rowsPerBand(threshold);
+    for (let start = 0; start + rows <= MINHASH_PERMUTATIONS; start += rows) {
+      const buckets = new Map<string, number[]>();
+      entries.forEach((entry, index) => {
+        if (entry.shingleCount < minShingles) return;
+        const key = Array.from(entry.values.subarray(start, start + rows)).join(',');
+        buckets.set(key, [...(buckets.get(key) ?? []), index]);
+      });
+
+      for (const bucket of buckets.values()) {
+        for (let i = 0; i < bucket.length; i++) {
+          for (let j = i + 1; j < bucket.length; j++) {
+            const a = bucket[i];
+            const b = bucket[j];
+            if (clusters.find(a) === clusters.find(b)) continue;
+            const similarity = estimateJaccard(entries[a].values, entries[b].values);
+            if (similarity >= threshold) {
+              clusters.union(a, b, similarity);
+            }
+          }
+        }
+      }
+    }
+
+    const members = new Map<number, number[]>();
+    entries.forEach((_, index) => {
+      const root = clusters.find(index);
+      members.set(root, [...(members.get(root) ?? []), index]);
+    });
+
+    const groups: DuplicateGroup[] = [];
+    for (const [root, indexes] of members) {
+      const notes = indexes
+        .flatMap(index => notesByHash.get(entries[index].hash) ?? [])
+        .sort((a, b) => a.path.localeCompare(b.path));
+      if (notes.length < 2) continue;
+
+      groups.push(indexes.length === 1
+        ? { kind: 'identical', similarity: 1, notes }
+        : { kind: 'similar', similarity: clusters.similarity(root), notes });
+    }
+
+    return groups.sort((a, b) =>
+      b.similarity - a.similarity || b.notes.length - a.notes.length || a.notes[0].path.localeCompare(b.notes[0].path));
+  }
+}
+
+/**
+ * Signature values per LSH band: the most that still makes pairs somewhat
+ * below the threshold likely to share a band, so few similar pairs are missed
+ * while dissimilar ones are rarely compared
+ */
+function rowsPerBand(threshold: number): number {
+  let rows = 1;
+  for (let candidate = 2; candidate <= MINHASH_PERMUTATIONS / 4; candidate *= 2) {
+    const bands = MINHASH_PERMUTATIONS / candidate;
+    // Similarity at which a pair shares at least one band with probability ~1/2
+    const midpoint = Math.pow(1 / bands, 1 / candidate);
+    if (midpoint > threshold - 0.1) break;
+    rows = candidate;
+  }
+  return rows;
+}
+
+/**
+ * Union-find over signature indexes, tracking the lowest similarity of the
+ * pairs joined into each cluster
+ */
+class SimilarityClusters {
+  private parent: number[];
+  private minSimilarity: number[];
+
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, index) => index);
+    this.minSimilarity = new Array(size).fill(1);
+  }
+
+  find(index: number): number {
+    while (this.parent[index] !== index) {
+      this.parent[index] = this.parent[this.parent[index]];
+      index = this.parent[index];
+    }
+    return index;
+  }
+
+  union(a: number, b: number, similarity: number): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) return;
+    this.parent[rootB] = rootA;
+    this.minSimilarity[rootA] = Math.min(this.minSimilarity[rootA], this.minSimilarity[rootB], similarity);
+  }
+
+  similarity(root: number): number {
+    return this.minSimilarity[root];
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Result Snippets for QMD Search
+ *
+ * Search results do not carry document bodies. When the index has no FTS
+ * snippet for a result (vector hits, contentless mode), one is built here
+ * from the lazily loaded chunk or document text.
+ *
+ * @module search/snippets
+ */
+
+const DEFAULT_SNIPPET_LENGTH = 200;
+
+/**
+ * Any search result that can load its text on demand
+ */
+export interface LazyContentResult {
+  /** Highlighted snippet from FTS5, empty if none was extracted */
+  snippet?: string;
+  /** Load the full document body */
+  loadContent(): Promise<string>;
+  /** Load the text of the matched chunk (vector results) */
+  loadChunkText?(): Promise<string>;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Extract query terms worth highlighting, ignoring FTS5 operators and filters
+ */
+function queryTerms(query: string): string[] {
+  return query
+    .replace(/\b(?:title|content):/gi, ' ')
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(term => term.length > 1 && !/^(AND|OR|NOT)$/.test(term));
+}
+
+/**
+ * Build a snippet around the first query term found in the text,
+ * with matches wrapped in <mark> like FTS5 snippets
+ *
+ * @param text - Document or chunk text
+ * @param query - Search query used for highlighting (optional)
+ * @param maxLength - Maximum snippet length in characters (default: 200)
+ * @returns HTML-safe snippet
+ */
+export function createSnippet(text: string, query = '', maxLength = DEFAULT_SNIPPET_LENGTH): string {
+  const terms = queryTerms(query);
+  const pattern = terms.length > 0
+    ? new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'giu')
+    : null;
+
+  let start = 0;
+  const firstMatch = pattern ? text.search(pattern) : -1;
+  if (firstMatch > maxLength / 2) {
+    start = firstMatch - Math.floor(maxLength / 4);
+  }
+
+  const excerpt = text.slice(start, start + maxLength);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = start + maxLength < text.length ? '...' : '';
+
+  // split() with a capturing group puts the matches at odd indexes
+  const html = pattern
+    ? excerpt.split(pattern)
+      .map((part, index) => index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))
+      .join('')
+    : escapeHtml(excerpt);
+  return prefix + html + suffix;
+}
+
+/**
+ * Character ranges of query terms within text[start, end), for highlighting
+ * a match in the editor
+ *
+ * @param text - Full document text
+ * @param query - Search query
+ * @param start - Start of the range to search (default: 0)
+ * @param end - End of the range to search (default: text length)
+ * @returns [from, to] offsets into text, in order
+ */
+export function findMatchRanges(
+  text: string,
+  query: string,
+  start = 0,
+  end = text.length
+): Array<[number, number]> {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'giu');
+  const ranges: Array<[number, number]> = [];
+  for (const match of text.slice(start, end).matchAll(pattern)) {
+    const from = start + (match.index ?? 0);
+    ranges.push([from, from + match[0].length]);
+  }
+  return ranges;
+}
+
+/**
+ * Get a result's snippet, loading its text only if no FTS snippet exists
+ *
+ * @param result - Search result to describe
+ * @param query - Search query used for highlighting (optional)
+ * @returns HTML snippet
+ */
+export async function resolveSnippet(result: LazyContentResult, query = ''): Promise<string> {
+  if (result.snippet) {
+    return result.snippet;
+  }
+
+  const text = result.loadChunkText
+    ? await result.loadChunkText()
+    : await result.loadContent();
+  return createSnippet(text, query);
+}
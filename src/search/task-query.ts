@@ -0,0 +1,160 @@
+/**
+ * Task Queries
+ *
+ * Recognizes searches for tasks written in plain words, such as
+ * "open tasks about the migration" or "tasks due this week", and splits
+ * them into the topic to search for and the status and date conditions.
+ *
+ * @module search/task-query
+ */
+
+import type { TaskState } from '../database/tasks';
+
+export interface ParsedTaskQuery {
+  /** What the tasks are about; empty to list tasks by the conditions alone */
+  text: string;
+  /** Task states asked for, undefined for any state */
+  states?: TaskState[];
+  /** Inclusive date range (YYYY-MM-DD) */
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+const TASK_QUERY_PATTERN =
+  /^\s*(?:(overdue|open|pending|unfinished|incomplete|outstanding|remaining|done|completed|finished|closed|cancell?ed|in[- ]progress|started|all)\s+)?(?:tasks?|todos?|to-dos?)\b(.*)$/is;
+const ISO_DATE = '(\\d{4}-\\d{2}-\\d{2})';
+const DUE_PREFIX = '(?:(?:due|scheduled|planned|for)\\s+)?';
+const TOPIC_CONNECTOR_PATTERN = /^(?:about|on|for|regarding|re:?|concerning|mentioning|related to|that mention|with|in)\s+/i;
+const ARTICLE_PATTERN = /^(?:the|a|an|my|our)\s+/i;
+
+const STATE_WORDS: Record<string, TaskState[] | undefined> = {
+  overdue: ['open', 'in-progress'],
+  open: ['open', 'in-progress'],
+  pending: ['open', 'in-progress'],
+  unfinished: ['open', 'in-progress'],
+  incomplete: ['open', 'in-progress'],
+  outstanding: ['open', 'in-progress'],
+  remaining: ['open', 'in-progress'],
+  done: ['done'],
+  completed: ['done'],
+  finished: ['done'],
+  closed: ['done', 'cancelled'],
+  cancelled: ['cancelled'],
+  canceled: ['cancelled'],
+  'in progress': ['in-progress'],
+  'in-progress': ['in-progress'],
+  started: ['in-progress'],
+  all: undefined,
+};
+
+/**
+ * Parse a search for tasks; null when the query is not one
+ *
+ * A query starting with "tasks" only counts as a task search when it also
+ * names a status, a date, or introduces its topic ("tasks about ..."), so
+ * "task management" stays an ordinary search.
+ *
+ * @param today - Reference day for relative dates such as "this week"
+ *
+ * @example
+ * ```typescript
+ * parseTaskQuery('open tasks about the migration');
+ * // { text: 'migration', states: ['open', 'in-progress'] }
+ * parseTaskQuery('tasks due before 2026-11-01');
+ * // { text: '', dateTo: '2026-10-31' }
+ * ```
+ */
+export function parseTaskQuery(query: string, today: Date = new Date()): ParsedTaskQuery | null {
+  const match = query.match(TASK_QUERY_PATTERN);
+  if (!match) return null;
+
+  const parsed: ParsedTaskQuery = { text: '' };
+  const stateWord = match[1]?.toLowerCase();
+  if (stateWord) {
+    parsed.states = STATE_WORDS[stateWord];
+  }
+
+  let rest = match[2];
+  let dated = false;
+  const take = (pattern: RegExp, apply: (...groups: string[]) => void) => {
+    rest = rest.replace(pattern, (_, ...groups: string[]) => {
+      apply(...groups);
+      dated = true;
+      return ' ';
+    });
+  };
+
+  const overdue = () => {
+    parsed.dateTo = formatDay(addDays(today, -1));
+    parsed.states = parsed.states ?? ['open', 'in-progress'];
+  };
+  if (stateWord === 'overdue') {
+    overdue();
+  }
+  take(/\boverdue\b/i, overdue);
+  take(new RegExp(`\\b${DUE_PREFIX}(today|tomorrow|yesterday|this week|next week|last week|this month)\\b`, 'i'), period => {
+    const range = periodRange(period.toLowerCase(), today);
+    parsed.dateFrom = range.from;
+    parsed.dateTo = range.to;
+  });
+  take(new RegExp(`\\b${DUE_PREFIX}(before|until|by)\\s+${ISO_DATE}\\b`, 'i'), (word, date) => {
+    parsed.dateTo = word.toLowerCase() === 'before' ? formatDay(addDays(parseDay(date), -1)) : date;
+  });
+  take(new RegExp(`\\b${DUE_PREFIX}(after|since|from)\\s+${ISO_DATE}\\b`, 'i'), (word, date) => {
+    parsed.dateFrom = word.toLowerCase() === 'after' ? formatDay(addDays(parseDay(date), 1)) : date;
+  });
+  take(new RegExp(`\\b${DUE_PREFIX}on\\s+${ISO_DATE}\\b`, 'i'), date => {
+    parsed.dateFrom = date;
+    parsed.dateTo = date;
+  });
+
+  const topic = rest.replace(/\s+/g, ' ').replace(/^[\s:,-]+|[\s?.!,]+$/g, '');
+  const connector = topic.match(TOPIC_CONNECTOR_PATTERN);
+  if (topic && !stateWord && !dated && !connector) {
+    return null;
+  }
+
+  parsed.text = topic.slice(connector?.[0].length ?? 0).replace(ARTICLE_PATTERN, '');
+  return parsed;
+}
+
+function periodRange(period: string, today: Date): { from: string; to: string } {
+  // Weeks start on Monday
+  const monday = addDays(today, -((today.getDay() + 6) % 7));
+  switch (period) {
+    case 'today':
+      return { from: formatDay(today), to: formatDay(today) };
+    case 'tomorrow':
+      return { from: formatDay(addDays(today, 1)), to: formatDay(addDays(today, 1)) };
+    case 'yesterday':
+      return { from: formatDay(addDays(today, -1)), to: formatDay(addDays(today, -1)) };
+    case 'next week':
+      return { from: formatDay(addDays(monday, 7)), to: formatDay(addDays(monday, 13)) };
+    case 'last week':
+      return { from: formatDay(addDays(monday, -7)), to: formatDay(addDays(monday, -1)) };
+    case 'this month':
+      return {
+        from: formatDay(new Date(today.getFullYear(), today.getMonth(), 1)),
+        to: formatDay(new Date(today.getFullYear(), today.getMonth() + 1, 0)),
+      };
+    default:
+      return { from: formatDay(monday), to: formatDay(addDays(monday, 6)) };
+  }
+}
+
+function parseDay(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD, the format task dates are stored in
+ */
+export function formatDay(day: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+}
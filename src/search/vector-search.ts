@@ -8,43 +8,34 @@
  */
 
 import { OllamaEmbedder, EmbeddingError, type OllamaConfig } from '../embeddings/embedder';
-
-type SqlValue = number | string | Uint8Array | null;
-
-interface QueryExecResult {
-  columns: string[];
-  values: SqlValue[][];
-}
-
-interface Statement {
-  bind(params?: SqlValue[] | Record<string, SqlValue> | null): boolean;
-  step(): boolean;
-  get(): SqlValue[];
-  free(): boolean;
-}
-
-export interface Database {
-  run(sql: string, params?: unknown[]): void;
-  exec(sql: string): QueryExecResult[];
-  prepare(sql: string): Statement;
-}
+import type { RemoteIndexRepository, SectionMatch } from '../database/repository';
+import type { MetadataFilter } from '../database/metadata';
+import { DocumentContentLoader } from '../database/content-loader';
 
 /**
  * Result from a vector similarity search query
  */
 export interface VectorSearchResult {
-  /** Document hash (unique identifier) */
+  /** Document id (unique identifier) */
+  id: number;
+  /** Content hash (shared by documents with identical content) */
   hash: string;
   /** Document title */
   title: string;
-  /** Full document content */
-  content: string;
+  /** Load the full document content (not fetched with the hit) */
+  loadContent(): Promise<string>;
+  /** Sequence number of the matched chunk */
+  seq: number;
+  /** Load the text of the matched chunk */
+  loadChunkText(): Promise<string>;
   /** File path relative to vault */
   path: string;
   /** Cosine similarity score (0-100, higher = more similar) */
   similarity: number;
   /** Raw cosine distance from sqlite-vec (0 = identical, 2 = opposite) */
   distance: number;
+  /** Heading section where the matched chunk starts, if known */
+  section?: SectionMatch;
   /** Result position (1 = best match) */
   rank: number;
 }
@@ -55,6 +46,8 @@ export interface VectorSearchResult {
 export interface VectorSearchOptions {
   /** Filter results to a specific collection by name */
   collectionFilter?: string;
+  /** Property and tag conditions (e.g. tag = project, status != done) */
+  filters?: MetadataFilter[];
   /** Maximum number of results to return (default: 20) */
   limit?: number;
   /** Minimum similarity threshold (0-100, default: no threshold) */
@@ -95,7 +88,7 @@ export class VectorSearchError extends Error {
  * @example
  * ```typescript
  * const embedder = new OllamaEmbedder();
- * const searcher = new VectorSearcher(db, embedder);
+ * const searcher = new VectorSearcher(repository, embedder);
  * 
  * // Basic semantic search
  * const results = await searcher.search('machine learning concepts');
@@ -117,9 +110,15 @@ export class VectorSearcher {
   private readonly EXPECTED_DIMENSIONS = 768;
   private initialized = false;
 
+  /**
+   * @param repository - Shared index repository
+   * @param embedder - Ollama embedder for query embeddings
+   * @param contentLoader - Loads result content on demand (default: index only)
+   */
   constructor(
-    private db: Database,
-    private embedder: OllamaEmbedder
+    private repository: RemoteIndexRepository,
+    private embedder: OllamaEmbedder,
+    private contentLoader: DocumentContentLoader = new DocumentContentLoader(repository)
   ) {
     this.validateDatabase();
   }
@@ -128,7 +127,7 @@ export class VectorSearcher {
    * Validate database is initialized
    */
   private validateDatabase(): void {
-    if (!this.db) {
+    if (!this.repository) {
       throw new VectorSearchError(
         'Database not initialized',
         'DB_NOT_INITIALIZED'
@@ -270,89 +269,33 @@ export class VectorSearcher {
       : undefined;
 
     try {
-      let sql: string;
-      const queryLimit = limit;
-
-      if (collectionFilter) {
-        sql = `
-          SELECT 
-            v.hash_seq,
-            v.distance,
-            cv.hash,
-            cv.seq,
-            d.title,
-            d.content,
-            d.path
-          FROM vectors_vec v
-          JOIN content_vectors cv ON v.hash_seq = (cv.hash || '_' || cv.seq)
-          JOIN documents d ON cv.hash = d.hash
-          JOIN collections c ON d.collection_id = c.id
-          WHERE v.embedding MATCH ?
-            AND k = ?
-            AND d.active = 1
-            AND c.name = ?
-          ORDER BY v.distance ASC
-        `;
-      } else {
-        sql = `
-          SELECT 
-            v.hash_seq,
-            v.distance,
-            cv.hash,
-            cv.seq,
-            d.title,
-            d.content,
-            d.path
-          FROM vectors_vec v
-          JOIN content_vectors cv ON v.hash_seq = (cv.hash || '_' || cv.seq)
-          JOIN documents d ON cv.hash = d.hash
-          WHERE v.embedding MATCH ?
-            AND k = ?
-            AND d.active = 1
-          ORDER BY v.distance ASC
-        `;
-      }
-
-      const stmt = this.db.prepare(sql);
+      const matches = await this.repository.searchVectors({
+        embedding,
+        collectionFilter,
+        filters: options?.filters,
+        limit,
+      });
       const results: VectorSearchResult[] = [];
 
-      try {
-        const embeddingBuffer = new Uint8Array(embedding.buffer);
-        
-        if (collectionFilter) {
-          stmt.bind([embeddingBuffer, queryLimit, collectionFilter] as SqlValue[]);
-        } else {
-          stmt.bind([embeddingBuffer, queryLimit] as SqlValue[]);
+      let rank = 1;
+      for (const match of matches) {
+        if (maxDistance !== undefined && match.distance > maxDistance) {
+          continue;
         }
 
-        let rank = 1;
-        while (stmt.step()) {
-          const row = stmt.get();
-          const hashSeq = row[0] as string;
-          const distance = row[1] as number;
-          const hash = row[2] as string;
-          const title = row[4] as string;
-          const content = row[5] as string;
-          const path = row[6] as string;
-
-          const similarity = this.distanceToSimilarity(distance);
-
-          if (maxDistance !== undefined && distance > maxDistance) {
-            continue;
-          }
-
-          results.push({
-            hash,
-            title,
-            content,
-            path,
-            similarity,
-            distance,
-            rank: rank++,
-          });
-        }
-      } finally {
-        stmt.free();
+        results.push({
+          id: match.id,
+          hash: match.hash,
+          title: match.title,
+          loadContent: () => this.contentLoader.loadContent(match.hash, match.path),
+          seq: match.seq,
+          loadChunkText: () => this.contentLoader.loadChunkText(match.hash, match.path, match.seq),
+          path: match.path,
+          similarity: this.distanceToSimilarity(match.distance),
+          distance: match.distance,
+          section: match.section ?? undefined,
+          rank: rank++,
+        });
       }
 
       return results;
@@ -395,7 +338,7 @@ export class VectorSearcher {
     }
 
     try {
-      this.db.exec('SELECT 1 FROM vectors_vec LIMIT 1');
+      await this.repository.assertVectorTable();
     } catch {
       return false;
     }
@@ -414,11 +357,7 @@ export class VectorSearcher {
    */
   async getVectorCount(): Promise<number> {
     try {
-      const result = this.db.exec('SELECT COUNT(*) FROM vectors_vec');
-      if (result[0]?.values[0]?.[0] !== undefined) {
-        return result[0].values[0][0] as number;
-      }
-      return 0;
+      return await this.repository.countVectors();
     } catch {
       return 0;
     }
@@ -441,7 +380,7 @@ export class VectorSearcher {
     let vectorCount = 0;
 
     try {
-      this.db.exec('SELECT 1 FROM vectors_vec LIMIT 1');
+      await this.repository.assertVectorTable();
       vectorTableExists = true;
       vectorCount = await this.getVectorCount();
     } catch {
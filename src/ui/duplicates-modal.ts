@@ -0,0 +1,104 @@
+import { App, Modal, Notice, TFile } from 'obsidian';
+import type { DuplicateGroup, DuplicateNote } from '../search/near-duplicates';
+
+/**
+ * Lists groups of duplicate notes; each note can be opened, or compared
+ * side by side with the first note of its group to merge them by hand
+ */
+export class DuplicateGroupsModal extends Modal {
+  constructor(
+    app: App,
+    private groups: DuplicateGroup[],
+    private threshold: number
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('qmd-duplicates-modal');
+
+    contentEl.createEl('h2', { text: 'Near-Duplicate Notes' });
+
+    const identical = this.groups.filter(group => group.kind === 'identical').length;
+    contentEl.createDiv({
+      cls: 'qmd-duplicates-summary',
+      text: `${this.groups.length} group${this.groups.length === 1 ? '' : 's'} ` +
+        `(${identical} identical, ${this.groups.length - identical} at least ${Math.round(this.threshold * 100)}% similar)`
+    });
+
+    if (this.groups.length === 0) {
+      contentEl.createDiv({ cls: 'qmd-duplicates-empty', text: 'No duplicate notes found.' });
+    }
+
+    for (const group of this.groups) {
+      this.renderGroup(contentEl, group);
+    }
+
+    const actionsEl = contentEl.createDiv({ cls: 'qmd-duplicates-actions' });
+    const closeButton = actionsEl.createEl('button', { text: 'Close' });
+    closeButton.addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private renderGroup(container: HTMLElement, group: DuplicateGroup): void {
+    const groupEl = container.createDiv({ cls: 'qmd-duplicates-group' });
+    const label = group.kind === 'identical'
+      ? 'Identical content'
+      : `~${Math.round(group.similarity * 100)}% similar`;
+    groupEl.createDiv({ cls: 'qmd-duplicates-group-header', text: `${label} · ${group.notes.length} notes` });
+
+    const [first] = group.notes;
+    const copies = new Map<string, number>();
+    for (const note of group.notes) {
+      copies.set(note.hash, (copies.get(note.hash) ?? 0) + 1);
+    }
+
+    for (const note of group.notes) {
+      const noteEl = groupEl.createDiv({ cls: 'qmd-duplicates-note' });
+      const infoEl = noteEl.createDiv({ cls: 'qmd-duplicates-note-info' });
+      infoEl.createDiv({ cls: 'qmd-duplicates-note-title', text: note.title });
+      const identicalCopy = group.kind === 'similar' && (copies.get(note.hash) ?? 0) > 1;
+      infoEl.createDiv({
+        cls: 'qmd-duplicates-note-path',
+        text: identicalCopy ? `${note.path} · identical copy in this group` : note.path
+      });
+
+      const buttonsEl = noteEl.createDiv({ cls: 'qmd-duplicates-note-actions' });
+      const openButton = buttonsEl.createEl('button', { text: 'Open' });
+      openButton.addEventListener('click', () => this.openNotes([note]));
+      if (note !== first) {
+        const compareButton = buttonsEl.createEl('button', { text: 'Compare' });
+        compareButton.addEventListener('click', () => this.openNotes([first, note]));
+      }
+    }
+  }
+
+  /**
+   * Open one note in a new tab, or two side by side
+   */
+  private async openNotes(notes: DuplicateNote[]): Promise<void> {
+    const files = notes.map(note => this.app.vault.getAbstractFileByPath(note.path));
+    if (!files.every((file): file is TFile => file instanceof TFile)) {
+      new Notice('Note no longer exists; reindex to update the results');
+      return;
+    }
+
+    try {
+      const leaf = this.app.workspace.getLeaf('tab');
+      await leaf.openFile(files[0]);
+      if (files[1]) {
+        await this.app.workspace.createLeafBySplit(leaf, 'vertical').openFile(files[1]);
+      }
+      this.close();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`Failed to open note: ${message}`);
+      console.error('Open duplicate note failed:', error);
+    }
+  }
+}
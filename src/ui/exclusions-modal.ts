@@ -0,0 +1,76 @@
+import { App, Modal } from 'obsidian';
+import type { ExcludedFile } from '../collections/manager';
+import { formatExclusionReason } from '../collections/ignore';
+
+const MAX_PATHS_PER_RULE = 10;
+
+/**
+ * Lists the files exclusion rules leave out, grouped by the rule responsible
+ */
+export class ExclusionPreviewModal extends Modal {
+  constructor(
+    app: App,
+    private excluded: ExcludedFile[],
+    private ignoreFiles: string[]
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('qmd-exclusions-modal');
+
+    contentEl.createEl('h2', { text: 'Excluded Files' });
+
+    contentEl.createDiv({
+      cls: 'qmd-exclusions-summary',
+      text: this.ignoreFiles.length > 0
+        ? `Ignore files: ${this.ignoreFiles.join(', ')}`
+        : 'No .qmdignore files found; only Obsidian\'s excluded files apply.'
+    });
+
+    if (this.excluded.length === 0) {
+      contentEl.createDiv({ cls: 'qmd-exclusions-empty', text: 'No files are excluded.' });
+    } else {
+      contentEl.createDiv({
+        cls: 'qmd-exclusions-summary',
+        text: `${this.excluded.length} file${this.excluded.length === 1 ? '' : 's'} excluded from every collection`
+      });
+    }
+
+    const byRule = new Map<string, ExcludedFile[]>();
+    for (const file of this.excluded) {
+      const rule = formatExclusionReason({ ...file.reason, folder: null });
+      byRule.set(rule, [...(byRule.get(rule) ?? []), file]);
+    }
+
+    for (const [rule, files] of byRule) {
+      const ruleEl = contentEl.createDiv({ cls: 'qmd-exclusions-rule' });
+      ruleEl.createDiv({ cls: 'qmd-exclusions-rule-header', text: `${rule} · ${files.length}` });
+
+      const listEl = ruleEl.createEl('ul', { cls: 'qmd-exclusions-paths' });
+      for (const file of files.slice(0, MAX_PATHS_PER_RULE)) {
+        listEl.createEl('li', {
+          text: file.reason.folder ? `${file.path} (in excluded folder ${file.reason.folder})` : file.path
+        });
+      }
+      if (files.length > MAX_PATHS_PER_RULE) {
+        listEl.createEl('li', { text: `...and ${files.length - MAX_PATHS_PER_RULE} more` });
+      }
+    }
+
+    contentEl.createDiv({
+      cls: 'qmd-exclusions-hint',
+      text: 'Run "Sync index with vault changes" to apply changed rules to the index.'
+    });
+
+    const actionsEl = contentEl.createDiv({ cls: 'qmd-exclusions-actions' });
+    const closeButton = actionsEl.createEl('button', { text: 'Close' });
+    closeButton.addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
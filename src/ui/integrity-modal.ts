@@ -0,0 +1,103 @@
+import { App, Modal, Notice, TFile } from 'obsidian';
+import { formatIntegrityReport, type IntegrityFinding, type IntegrityReport } from '../database/integrity';
+
+export const INTEGRITY_REPORT_NOTE_PATH = 'QMD Integrity Report.md';
+
+const MAX_DETAILS_IN_MODAL = 10;
+
+export class IntegrityReportModal extends Modal {
+  constructor(app: App, private report: IntegrityReport) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('qmd-integrity-modal');
+
+    contentEl.createEl('h2', { text: 'Index Health Check' });
+
+    const summaryEl = contentEl.createDiv({ cls: 'qmd-integrity-summary' });
+    summaryEl.textContent =
+      `${this.report.totalDocuments} documents (${this.report.activeDocuments} active), ` +
+      `${this.report.totalVectors} vector chunks · checked in ${Math.round(this.report.durationMs)} ms`;
+
+    if (this.report.findings.length === 0) {
+      contentEl.createDiv({
+        cls: 'qmd-integrity-ok',
+        text: 'No issues found.'
+      });
+    }
+
+    for (const finding of this.report.findings) {
+      this.renderFinding(contentEl, finding);
+    }
+
+    const actionsEl = contentEl.createDiv({ cls: 'qmd-integrity-actions' });
+    const noteButton = actionsEl.createEl('button', { text: 'Open report as note' });
+    noteButton.addEventListener('click', () => this.openAsNote());
+
+    const closeButton = actionsEl.createEl('button', { text: 'Close' });
+    closeButton.addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private renderFinding(container: HTMLElement, finding: IntegrityFinding): void {
+    const findingEl = container.createDiv({ cls: 'qmd-integrity-finding' });
+
+    const headerEl = findingEl.createDiv({ cls: 'qmd-integrity-finding-header' });
+    headerEl.createSpan({ cls: 'qmd-integrity-finding-title', text: finding.title });
+
+    const repairButton = headerEl.createEl('button', { text: finding.repairLabel, cls: 'mod-cta' });
+    repairButton.addEventListener('click', async () => {
+      repairButton.disabled = true;
+      repairButton.textContent = 'Repairing...';
+      try {
+        await finding.repair();
+        repairButton.textContent = 'Repaired ✓';
+        findingEl.addClass('qmd-integrity-finding-repaired');
+      } catch (error) {
+        repairButton.disabled = false;
+        repairButton.textContent = finding.repairLabel;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Repair failed: ${message}`);
+        console.error('Integrity repair failed:', error);
+      }
+    });
+
+    findingEl.createDiv({ cls: 'qmd-integrity-finding-description', text: finding.description });
+
+    const detailsEl = findingEl.createEl('ul', { cls: 'qmd-integrity-finding-details' });
+    for (const detail of finding.details.slice(0, MAX_DETAILS_IN_MODAL)) {
+      detailsEl.createEl('li', { text: detail });
+    }
+    if (finding.details.length > MAX_DETAILS_IN_MODAL) {
+      detailsEl.createEl('li', { text: `...and ${finding.details.length - MAX_DETAILS_IN_MODAL} more` });
+    }
+  }
+
+  private async openAsNote(): Promise<void> {
+    try {
+      const content = formatIntegrityReport(this.report);
+      const existing = this.app.vault.getAbstractFileByPath(INTEGRITY_REPORT_NOTE_PATH);
+
+      let file: TFile;
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, content);
+        file = existing;
+      } else {
+        file = await this.app.vault.create(INTEGRITY_REPORT_NOTE_PATH, content);
+      }
+
+      await this.app.workspace.getLeaf(false).openFile(file);
+      this.close();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`Failed to write report: ${message}`);
+      console.error('Write integrity report failed:', error);
+    }
+  }
+}
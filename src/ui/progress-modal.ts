@@ -1,4 +1,5 @@
 import { Modal, App } from 'obsidian';
+import { isFinished, type Job, type JobQueue } from '../jobs/job-queue';
 
 export interface ProgressState {
   current: number;
@@ -13,7 +14,10 @@ export class ProgressModal extends Modal {
   private progressTextEl: HTMLElement | null = null;
   private messageEl: HTMLElement | null = null;
   private cancelButton: HTMLButtonElement | null = null;
+  private pauseButton: HTMLButtonElement | null = null;
   private onCancel: (() => void) | null = null;
+  private onPause: (() => void) | null = null;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(app: App, initialMessage: string = 'Processing...', canCancel: boolean = true) {
     super(app);
@@ -40,13 +44,22 @@ export class ProgressModal extends Modal {
     this.progressTextEl = progressContainer.createDiv({ cls: 'qmd-progress-text' });
     this.updateProgressText();
 
-    if (this.state.canCancel) {
+    if (this.state.canCancel || this.onPause) {
       const buttonContainer = contentEl.createDiv({ cls: 'qmd-progress-actions' });
-      this.cancelButton = buttonContainer.createEl('button', {
-        text: 'Cancel',
-        cls: 'qmd-progress-cancel'
-      });
-      this.cancelButton.addEventListener('click', () => this.handleCancel());
+      if (this.onPause) {
+        this.pauseButton = buttonContainer.createEl('button', {
+          text: 'Pause',
+          cls: 'qmd-progress-cancel'
+        });
+        this.pauseButton.addEventListener('click', () => this.onPause?.());
+      }
+      if (this.state.canCancel) {
+        this.cancelButton = buttonContainer.createEl('button', {
+          text: 'Cancel',
+          cls: 'qmd-progress-cancel'
+        });
+        this.cancelButton.addEventListener('click', () => this.handleCancel());
+      }
     }
 
     this.updateProgress();
@@ -55,6 +68,55 @@ export class ProgressModal extends Modal {
   onClose(): void {
     const { contentEl } = this;
     contentEl.empty();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Follow a queued job; call before open()
+   * Cancel cancels the job and Pause pauses or resumes it. The modal closes
+   * when the job finishes; closing it earlier leaves the job running in the
+   * background (see the status view).
+   *
+   * @param describe - Progress message for the running job
+   */
+  observeJob(queue: JobQueue, job: Job, describe: (job: Job, currentItem: string | null) => string): void {
+    let paused = job.status === 'paused';
+    this.onCancelCallback(() => {
+      queue.cancel(job.id).catch(error => console.error('[QMD] Cancel job failed:', error));
+    });
+    this.onPause = () => {
+      const action = paused ? queue.resume(job.id) : queue.pause(job.id);
+      action.catch(error => console.error('[QMD] Pause job failed:', error));
+    };
+
+    this.unsubscribe = queue.subscribe(({ job: current, currentItem }) => {
+      if (current.id !== job.id) return;
+
+      paused = current.status === 'paused';
+      if (this.pauseButton) {
+        this.pauseButton.textContent = paused ? 'Resume' : 'Pause';
+      }
+
+      if (current.status === 'completed') {
+        this.complete();
+      } else if (current.status === 'cancelled') {
+        this.close();
+      } else if (current.status === 'failed') {
+        this.setMessage(`Failed: ${current.error ?? 'Unknown error'}`);
+        this.setCancelable(false);
+      } else if (paused) {
+        this.setMessage('Paused');
+      } else if (current.status === 'queued') {
+        this.setMessage(current.checkpoint ? 'Waiting for other indexing work...' : 'Queued...');
+      } else {
+        this.setProgress(current.completed, current.total, describe(current, currentItem));
+      }
+
+      if (isFinished(current.status)) {
+        this.pauseButton?.remove();
+      }
+    });
   }
 
   setProgress(current: number, total: number, message?: string): void {
@@ -1,11 +1,34 @@
-import { App, Modal } from 'obsidian';
+import { App, Modal, Notice, TFile } from 'obsidian';
 import { HybridSearcher, type HybridSearchResult } from '../search/hybrid-search';
-import { FTSSearcher, type SearchResult } from '../search/fts-search';
+import {
+  FTSSearcher,
+  type RevisionSearchResult,
+  type SearchResult,
+  type TaskSearchResult
+} from '../search/fts-search';
 import { VectorSearcher, type VectorSearchResult } from '../search/vector-search';
-import type { Database } from '../search/fts-search';
+import type { RemoteIndexRepository } from '../database/repository';
+import type { DocumentContentLoader } from '../database/content-loader';
+import { parseMetadataFilters } from '../database/metadata';
+import type { TaskState } from '../database/tasks';
+import { findMatchRanges, resolveSnippet } from '../search/snippets';
+import { parseTaskQuery } from '../search/task-query';
 import type { OllamaEmbedder } from '../embeddings/embedder';
 
-type SearchMode = 'hybrid' | 'bm25' | 'vector';
+export type SearchMode = 'hybrid' | 'bm25' | 'vector' | 'tasks';
+
+const SEARCH_MODES: SearchMode[] = ['hybrid', 'bm25', 'vector', 'tasks'];
+
+type NoteResult = HybridSearchResult | SearchResult | VectorSearchResult | RevisionSearchResult;
+type ResultItem = NoteResult | TaskSearchResult;
+
+const TASK_ICONS: Record<TaskState, string> = {
+  open: '☐',
+  'in-progress': '◐',
+  done: '☑',
+  cancelled: '☒',
+  other: '◇',
+};
 
 export class QMDSearchModal extends Modal {
   private hybridSearcher: HybridSearcher;
@@ -13,18 +36,40 @@ export class QMDSearchModal extends Modal {
   private vectorSearcher: VectorSearcher;
 
   private searchInputEl: HTMLInputElement | null = null;
+  private filterInputEl: HTMLInputElement | null = null;
+  private historyToggleEl: HTMLInputElement | null = null;
+  private asOfInputEl: HTMLInputElement | null = null;
+  private taskFiltersEl: HTMLElement | null = null;
+  private taskStateEl: HTMLSelectElement | null = null;
+  private taskFromEl: HTMLInputElement | null = null;
+  private taskToEl: HTMLInputElement | null = null;
+  private taskCollectionEl: HTMLSelectElement | null = null;
   private resultsContainerEl: HTMLElement | null = null;
-  private activeTab: SearchMode = 'hybrid';
-  private currentResults: (HybridSearchResult | SearchResult | VectorSearchResult)[] = [];
+  private activeTab: SearchMode;
+  private currentResults: ResultItem[] = [];
+  private currentQuery = '';
+  private snippets: WeakMap<object, string> = new WeakMap();
   private selectedIndex = 0;
   private searchTimeout: NodeJS.Timeout | null = null;
   private isSearching = false;
 
-  constructor(app: App, db: Database, embedder: OllamaEmbedder) {
+  /**
+   * @param contentLoader - The plugin's loader, so snippets and chunks are read
+   *   back from notes expanded the way they were indexed
+   * @param initialMode - Tab to open on (default: hybrid)
+   */
+  constructor(
+    app: App,
+    private repository: RemoteIndexRepository,
+    embedder: OllamaEmbedder,
+    contentLoader: DocumentContentLoader,
+    initialMode: SearchMode = 'hybrid'
+  ) {
     super(app);
-    this.hybridSearcher = new HybridSearcher(db, embedder);
-    this.ftsSearcher = new FTSSearcher(db);
-    this.vectorSearcher = new VectorSearcher(db, embedder);
+    this.activeTab = initialMode;
+    this.hybridSearcher = new HybridSearcher(repository, embedder, contentLoader);
+    this.ftsSearcher = new FTSSearcher(repository, contentLoader);
+    this.vectorSearcher = new VectorSearcher(repository, embedder, contentLoader);
   }
 
   onOpen(): void {
@@ -40,15 +85,49 @@ export class QMDSearchModal extends Modal {
     });
     this.searchInputEl.focus();
 
+    this.filterInputEl = contentEl.createEl('input', {
+      type: 'text',
+      placeholder: 'Filter: tag = project, status != done, due < 2026-11-01',
+      cls: 'qmd-search-input qmd-search-filter-input'
+    });
+
+    // History search is BM25 over stored revisions, whatever the active tab
+    const historyEl = contentEl.createDiv('qmd-search-history');
+    const historyLabel = historyEl.createEl('label', { cls: 'qmd-search-history-toggle' });
+    this.historyToggleEl = historyLabel.createEl('input', { type: 'checkbox' });
+    historyLabel.appendText(' Search history');
+    this.asOfInputEl = historyEl.createEl('input', {
+      type: 'date',
+      cls: 'qmd-search-as-of',
+      attr: { title: 'Search notes as they were on this day (leave empty to search every version)' }
+    });
+    this.asOfInputEl.disabled = true;
+
+    this.createTaskFilters(contentEl);
+
     const tabsContainer = contentEl.createDiv('qmd-search-tabs');
-    this.createTab(tabsContainer, 'hybrid', 'Hybrid', true);
-    this.createTab(tabsContainer, 'bm25', 'BM25', false);
-    this.createTab(tabsContainer, 'vector', 'Vector', false);
+    this.createTab(tabsContainer, 'hybrid', 'Hybrid', this.activeTab === 'hybrid');
+    this.createTab(tabsContainer, 'bm25', 'BM25', this.activeTab === 'bm25');
+    this.createTab(tabsContainer, 'vector', 'Vector', this.activeTab === 'vector');
+    this.createTab(tabsContainer, 'tasks', 'Tasks', this.activeTab === 'tasks');
 
     this.resultsContainerEl = contentEl.createDiv('qmd-search-results');
 
     this.searchInputEl.addEventListener('input', () => this.handleInput());
     this.searchInputEl.addEventListener('keydown', (e) => this.handleKeydown(e));
+    this.filterInputEl.addEventListener('input', () => this.handleInput());
+    this.filterInputEl.addEventListener('keydown', (e) => this.handleKeydown(e));
+    this.historyToggleEl.addEventListener('change', () => {
+      if (this.asOfInputEl && this.historyToggleEl) {
+        this.asOfInputEl.disabled = !this.historyToggleEl.checked;
+      }
+      this.handleInput();
+    });
+    this.asOfInputEl.addEventListener('change', () => this.handleInput());
+
+    if (this.activeTab === 'tasks') {
+      this.executeSearch('');
+    }
   }
 
   onClose(): void {
@@ -59,6 +138,47 @@ export class QMDSearchModal extends Modal {
     }
   }
 
+  /**
+   * Status, date range and collection filters, shown on the tasks tab
+   */
+  private createTaskFilters(container: HTMLElement): void {
+    this.taskFiltersEl = container.createDiv('qmd-search-task-filters');
+    this.taskFiltersEl.toggle(this.activeTab === 'tasks');
+
+    this.taskStateEl = this.taskFiltersEl.createEl('select', { cls: 'dropdown' });
+    this.taskStateEl.createEl('option', { value: '', text: 'Any status' });
+    this.taskStateEl.createEl('option', { value: 'open', text: 'Open' });
+    this.taskStateEl.createEl('option', { value: 'in-progress', text: 'In progress' });
+    this.taskStateEl.createEl('option', { value: 'done', text: 'Done' });
+    this.taskStateEl.createEl('option', { value: 'cancelled', text: 'Cancelled' });
+
+    this.taskFromEl = this.taskFiltersEl.createEl('input', {
+      type: 'date',
+      cls: 'qmd-search-task-date',
+      attr: { title: 'Tasks dated on or after this day' }
+    });
+    this.taskFiltersEl.createSpan({ cls: 'qmd-search-task-range', text: '–' });
+    this.taskToEl = this.taskFiltersEl.createEl('input', {
+      type: 'date',
+      cls: 'qmd-search-task-date',
+      attr: { title: 'Tasks dated on or before this day' }
+    });
+
+    this.taskCollectionEl = this.taskFiltersEl.createEl('select', { cls: 'dropdown' });
+    this.taskCollectionEl.createEl('option', { value: '', text: 'All collections' });
+    this.repository.listCollections()
+      .then(collections => {
+        for (const collection of collections) {
+          this.taskCollectionEl?.createEl('option', { value: collection.name, text: collection.name });
+        }
+      })
+      .catch(error => console.error('[QMD] Failed to list collections:', error));
+
+    for (const el of [this.taskStateEl, this.taskFromEl, this.taskToEl, this.taskCollectionEl]) {
+      el.addEventListener('change', () => this.handleInput());
+    }
+  }
+
   private createTab(container: HTMLElement, mode: SearchMode, label: string, active: boolean): void {
     const tab = container.createDiv({
       cls: `qmd-search-tab${active ? ' qmd-search-tab-active' : ''}`
@@ -72,17 +192,19 @@ export class QMDSearchModal extends Modal {
     
     const tabs = this.contentEl.querySelectorAll('.qmd-search-tab');
     tabs.forEach((tab, index) => {
-      const modes: SearchMode[] = ['hybrid', 'bm25', 'vector'];
-      if (modes[index] === mode) {
+      if (SEARCH_MODES[index] === mode) {
         tab.addClass('qmd-search-tab-active');
       } else {
         tab.removeClass('qmd-search-tab-active');
       }
     });
+    this.taskFiltersEl?.toggle(mode === 'tasks');
 
     const query = this.searchInputEl?.value.trim() || '';
-    if (query) {
+    if (query || mode === 'tasks') {
       this.executeSearch(query);
+    } else {
+      this.clearResults();
     }
   }
 
@@ -91,8 +213,9 @@ export class QMDSearchModal extends Modal {
       clearTimeout(this.searchTimeout);
     }
 
+    // The tasks tab lists tasks by its filters alone
     const query = this.searchInputEl?.value.trim() || '';
-    if (!query) {
+    if (!query && this.activeTab !== 'tasks') {
       this.clearResults();
       return;
     }
@@ -109,21 +232,46 @@ export class QMDSearchModal extends Modal {
     this.showLoading();
 
     try {
-      let results: (HybridSearchResult | SearchResult | VectorSearchResult)[];
-
-      switch (this.activeTab) {
+      let results: ResultItem[];
+      const filters = parseMetadataFilters(this.filterInputEl?.value ?? '');
+      // "open tasks about the migration" searches tasks from the hybrid tab too
+      const taskQuery = parseTaskQuery(query);
+
+      if (this.historyToggleEl?.checked) {
+        results = await this.ftsSearcher.searchRevisions(query, { limit: 20, filters, asOf: this.asOfTimestamp() });
+      } else switch (this.activeTab) {
         case 'hybrid':
-          results = await this.hybridSearcher.search(query, { limit: 20 });
+          if (taskQuery) {
+            const { text, ...conditions } = taskQuery;
+            results = await this.hybridSearcher.searchTasks(text, { ...conditions, limit: 20 });
+          } else {
+            results = await this.hybridSearcher.search(query, { limit: 20, filters });
+          }
           break;
         case 'bm25':
-          results = await this.ftsSearcher.search(query, { limit: 20 });
+          results = await this.ftsSearcher.search(query, { limit: 20, filters });
           break;
         case 'vector':
-          results = await this.vectorSearcher.search(query, { limit: 20 });
+          results = await this.vectorSearcher.search(query, { limit: 20, filters });
           break;
+        case 'tasks': {
+          // The filters above the tabs take precedence over words in the query
+          const { text, ...conditions } = taskQuery ?? { text: query };
+          const state = this.taskStateEl?.value as TaskState | '' | undefined;
+          results = await this.hybridSearcher.searchTasks(text, {
+            ...conditions,
+            states: state ? [state] : conditions.states,
+            dateFrom: this.taskFromEl?.value || conditions.dateFrom,
+            dateTo: this.taskToEl?.value || conditions.dateTo,
+            collectionFilter: this.taskCollectionEl?.value || undefined,
+            limit: 50,
+          });
+          break;
+        }
       }
 
       this.currentResults = results;
+      this.currentQuery = query;
       this.selectedIndex = 0;
       this.renderResults();
     } catch (error) {
@@ -134,6 +282,16 @@ export class QMDSearchModal extends Modal {
     }
   }
 
+  /**
+   * End of the day picked in the "as of" field, undefined if none is set
+   */
+  private asOfTimestamp(): number | undefined {
+    const value = this.asOfInputEl?.value;
+    if (!value) return undefined;
+    const date = new Date(`${value}T23:59:59.999`);
+    return isNaN(date.getTime()) ? undefined : date.getTime();
+  }
+
   private showLoading(): void {
     if (!this.resultsContainerEl) return;
     this.resultsContainerEl.empty();
@@ -176,18 +334,11 @@ export class QMDSearchModal extends Modal {
         cls: `qmd-search-result-item${index === this.selectedIndex ? ' qmd-search-result-selected' : ''}`
       });
 
-      const titleEl = resultEl.createDiv({ cls: 'qmd-search-result-title' });
-      titleEl.createSpan({ cls: 'qmd-search-result-icon', text: '📄' });
-      titleEl.createSpan({ text: result.title });
-
-      const snippetEl = resultEl.createDiv({ cls: 'qmd-search-result-snippet' });
-      snippetEl.innerHTML = this.getSnippet(result);
-
-      const scoresEl = resultEl.createDiv({ cls: 'qmd-search-result-scores' });
-      scoresEl.textContent = this.formatScores(result);
-
-      const pathEl = resultEl.createDiv({ cls: 'qmd-search-result-path' });
-      pathEl.textContent = result.path;
+      if ('task' in result) {
+        this.renderTask(resultEl, result);
+      } else {
+        this.renderNote(resultEl, result);
+      }
 
       resultEl.addEventListener('click', () => this.openResult(result));
       resultEl.addEventListener('mouseenter', () => {
@@ -197,14 +348,115 @@ export class QMDSearchModal extends Modal {
     });
   }
 
-  private getSnippet(result: HybridSearchResult | SearchResult | VectorSearchResult): string {
-    if ('snippet' in result && result.snippet) {
-      return result.snippet;
+  private renderNote(resultEl: HTMLElement, result: NoteResult): void {
+    const titleEl = resultEl.createDiv({ cls: 'qmd-search-result-title' });
+    titleEl.createSpan({ cls: 'qmd-search-result-icon', text: '📄' });
+    titleEl.createSpan({ text: result.title });
+
+    if (result.section?.heading) {
+      resultEl.createDiv({
+        cls: 'qmd-search-result-section',
+        text: `§ ${result.section.headingPath}`
+      });
     }
-    return result.content.slice(0, 200) + '...';
+
+    const block = 'block' in result ? result.block : undefined;
+    if (block) {
+      resultEl.createDiv({
+        cls: 'qmd-search-result-block',
+        text: `^${block.blockId}`
+      });
+    }
+
+    if ('revision' in result) {
+      resultEl.createDiv({
+        cls: 'qmd-search-result-revision',
+        text: this.formatRevision(result)
+      });
+    }
+
+    const snippetEl = resultEl.createDiv({ cls: 'qmd-search-result-snippet' });
+    this.renderSnippet(snippetEl, result);
+
+    const scoresEl = resultEl.createDiv({ cls: 'qmd-search-result-scores' });
+    scoresEl.textContent = this.formatScores(result);
+
+    const pathEl = resultEl.createDiv({ cls: 'qmd-search-result-path' });
+    pathEl.textContent = result.path;
+  }
+
+  /**
+   * A task with its status, dates and heading; the path points at its line
+   */
+  private renderTask(resultEl: HTMLElement, result: TaskSearchResult): void {
+    const { task } = result;
+    const titleEl = resultEl.createDiv({ cls: 'qmd-search-result-title' });
+    titleEl.createSpan({ cls: 'qmd-search-result-icon', text: TASK_ICONS[task.state] });
+    titleEl.createSpan({ cls: `qmd-search-task-text qmd-search-task-${task.state}`, text: task.text });
+
+    const details = [
+      task.dueDate && `Due ${task.dueDate}`,
+      task.scheduledDate && `Scheduled ${task.scheduledDate}`,
+      task.startDate && `Starts ${task.startDate}`,
+      task.doneDate && `Done ${task.doneDate}`,
+      !task.dueDate && !task.scheduledDate && !task.startDate && task.date,
+      task.headingPath.length > 0 && `§ ${task.headingPath.join(' > ')}`,
+    ].filter(Boolean);
+    if (details.length > 0) {
+      resultEl.createDiv({ cls: 'qmd-search-task-details', text: details.join(' · ') });
+    }
+
+    const scoresEl = resultEl.createDiv({ cls: 'qmd-search-result-scores' });
+    scoresEl.textContent = this.formatScores(result);
+
+    const pathEl = resultEl.createDiv({ cls: 'qmd-search-result-path' });
+    pathEl.textContent = `${result.title} · ${result.path}:${task.line + 1}`;
+  }
+
+  /**
+   * Show a result's snippet, loading its text from the vault the first
+   * time the result is displayed
+   */
+  private renderSnippet(snippetEl: HTMLElement, result: NoteResult): void {
+    const cached = this.snippets.get(result);
+    if (cached !== undefined) {
+      snippetEl.innerHTML = cached;
+      return;
+    }
+
+    snippetEl.textContent = '...';
+    resolveSnippet(result, this.currentQuery)
+      .then(snippet => {
+        this.snippets.set(result, snippet);
+        snippetEl.innerHTML = snippet;
+      })
+      .catch(error => {
+        snippetEl.textContent = '';
+        console.error('[QMD] Failed to load snippet:', error);
+      });
+  }
+
+  /**
+   * Which version of the note matched, e.g. "Version of 2026-09-12, replaced 2026-10-02"
+   */
+  private formatRevision(result: RevisionSearchResult): string {
+    const day = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+    const from = `Version of ${day(result.revision.validFrom)}`;
+    if (result.revision.validTo === null) {
+      return `${from} (current)`;
+    }
+    return `${from}, ${result.active ? 'replaced' : 'removed'} ${day(result.revision.validTo)}`;
   }
 
-  private formatScores(result: HybridSearchResult | SearchResult | VectorSearchResult): string {
+  private formatScores(result: ResultItem): string {
+    if ('task' in result) {
+      return result.score !== undefined
+        ? `Score: ${result.score.toFixed(1)} | Rank: #${result.rank}`
+        : `#${result.rank}`;
+    }
+    if ('revision' in result) {
+      return `Score: ${result.score.toFixed(1)} | Rank: #${result.rank}`;
+    }
     if (this.activeTab === 'hybrid' && 'normalizedScore' in result) {
       const parts = [`RRF: ${result.normalizedScore.toFixed(1)}`];
       if (result.bm25Rank && result.bm25Score !== undefined) {
@@ -251,10 +503,9 @@ export class QMDSearchModal extends Modal {
       }
     } else if (e.key === 'Tab') {
       e.preventDefault();
-      const modes: SearchMode[] = ['hybrid', 'bm25', 'vector'];
-      const currentIndex = modes.indexOf(this.activeTab);
-      const nextIndex = (currentIndex + 1) % modes.length;
-      this.switchTab(modes[nextIndex]);
+      const currentIndex = SEARCH_MODES.indexOf(this.activeTab);
+      const nextIndex = (currentIndex + 1) % SEARCH_MODES.length;
+      this.switchTab(SEARCH_MODES[nextIndex]);
     }
   }
 
@@ -266,15 +517,40 @@ export class QMDSearchModal extends Modal {
     }
   }
 
-  private async openResult(result: HybridSearchResult | SearchResult | VectorSearchResult): Promise<void> {
+  private async openResult(result: ResultItem): Promise<void> {
     const file = this.app.vault.getAbstractFileByPath(result.path);
-    if (!file) {
+    if (!(file instanceof TFile)) {
+      if ('revision' in result && !result.active) {
+        new Notice(`${result.path} no longer exists`);
+      }
       console.error('File not found:', result.path);
       return;
     }
 
     const leaf = this.app.workspace.getLeaf(false);
-    await leaf.openFile(file as any);
+    const eState = 'task' in result ? { line: result.task.line } : await this.sectionState(file, result);
+    await leaf.openFile(file, { eState });
     this.close();
   }
+
+  /**
+   * Editor state that scrolls to the result's block or section and
+   * highlights the query terms inside it (falls back to its first line
+   * without matches)
+   */
+  private async sectionState(file: TFile, result: NoteResult): Promise<Record<string, unknown> | undefined> {
+    const section = ('block' in result ? result.block : undefined) ?? result.section;
+    if (!section) return undefined;
+
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      const matches = findMatchRanges(content, this.currentQuery, section.startOffset, section.endOffset);
+      if (matches.length > 0) {
+        return { match: { content, matches } };
+      }
+    } catch (error) {
+      console.error('[QMD] Failed to read note for highlighting:', error);
+    }
+    return { line: section.startLine };
+  }
 }
@@ -1,5 +1,8 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type QMDPlugin from '../../main';
+import type { ContentStorageMode, FtsTokenizer } from '../database/schema';
+import { DEFAULT_NORMALIZER_RULES, type NormalizerRule, type NormalizerRules } from '../database/normalizer';
+import { DEFAULT_TRANSCLUSION_OPTIONS, MAX_TRANSCLUSION_DEPTH } from '../database/transclusions';
 
 export interface QMDSettings {
   ollamaBaseUrl: string;
@@ -9,10 +12,22 @@ export interface QMDSettings {
   autoIndex: boolean;
   indexOnStartup: boolean;
   indexDebounceMs: number;
+  autosaveIntervalSeconds: number;
+  maxAutoSnapshots: number;
+  purgeRetentionDays: number;
+  contentStorage: ContentStorageMode;
+  ftsTokenizer: FtsTokenizer;
+  normalizerRules: NormalizerRules;
+  expandEmbeds: boolean;
+  embedDepth: number;
+  revisionHistory: boolean;
+  maxRevisionsPerNote: number;
+  revisionRetentionDays: number;
   searchLimit: number;
   rrfK: number;
   minBM25Score: number;
   minVectorSimilarity: number;
+  duplicateThreshold: number;
 }
 
 export const DEFAULT_SETTINGS: QMDSettings = {
@@ -23,10 +38,22 @@ export const DEFAULT_SETTINGS: QMDSettings = {
   autoIndex: true,
   indexOnStartup: true,
   indexDebounceMs: 500,
+  autosaveIntervalSeconds: 30,
+  maxAutoSnapshots: 5,
+  purgeRetentionDays: 30,
+  contentStorage: 'full',
+  ftsTokenizer: 'porter',
+  normalizerRules: DEFAULT_NORMALIZER_RULES,
+  expandEmbeds: DEFAULT_TRANSCLUSION_OPTIONS.enabled,
+  embedDepth: DEFAULT_TRANSCLUSION_OPTIONS.maxDepth,
+  revisionHistory: false,
+  maxRevisionsPerNote: 20,
+  revisionRetentionDays: 180,
   searchLimit: 20,
   rrfK: 60,
   minBM25Score: 0,
-  minVectorSimilarity: 0
+  minVectorSimilarity: 0,
+  duplicateThreshold: 80
 };
 
 export class QMDSettingsTab extends PluginSettingTab {
@@ -114,7 +141,7 @@ export class QMDSettingsTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Index on startup')
-      .setDesc('Rebuild index when Obsidian starts')
+      .setDesc('When Obsidian starts, index notes added or changed while it was closed and remove deleted ones')
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.indexOnStartup)
         .onChange(async (value) => {
@@ -135,6 +162,188 @@ export class QMDSettingsTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           }
         }));
+
+    new Setting(containerEl)
+      .setName('Autosave interval (seconds)')
+      .setDesc('How often unsaved index changes are written to disk (also saved after each indexing batch)')
+      .addText(text => text
+        .setPlaceholder('30')
+        .setValue(String(this.plugin.settings.autosaveIntervalSeconds))
+        .onChange(async (value) => {
+          const num = parseInt(value);
+          if (!isNaN(num) && num >= 5) {
+            this.plugin.settings.autosaveIntervalSeconds = num;
+            await this.plugin.saveSettings();
+            this.plugin.restartAutosave();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Automatic snapshots to keep')
+      .setDesc('Snapshots taken before reindexing, migrations and collection deletion (named snapshots are never rotated)')
+      .addText(text => text
+        .setPlaceholder('5')
+        .setValue(String(this.plugin.settings.maxAutoSnapshots))
+        .onChange(async (value) => {
+          const num = parseInt(value);
+          if (!isNaN(num) && num >= 0) {
+            this.plugin.settings.maxAutoSnapshots = num;
+            await this.plugin.saveSettings();
+            this.plugin.snapshotManager?.setMaxAutoSnapshots(num);
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Keep deleted notes for (days)')
+      .setDesc('Notes deleted or moved out of every collection stay in the index this long, so they come back without re-embedding. Older ones are purged with their vectors after each reindex (0 = purge right away).')
+      .addText(text => text
+        .setPlaceholder('30')
+        .setValue(String(this.plugin.settings.purgeRetentionDays))
+        .onChange(async (value) => {
+          const num = parseInt(value);
+          if (!isNaN(num) && num >= 0) {
+            this.plugin.settings.purgeRetentionDays = num;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Index storage')
+      .setDesc('Contentless keeps only the search index and reads note text from the vault when results are shown, so the index file does not hold a second copy of the vault. Switching back to full reindexes every note.')
+      .addDropdown(dropdown => dropdown
+        .addOption('full', 'Full (store note text)')
+        .addOption('contentless', 'Contentless (smaller index)')
+        .setValue(this.plugin.settings.contentStorage)
+        .onChange(async (value) => {
+          this.plugin.settings.contentStorage = value as ContentStorageMode;
+          await this.plugin.saveSettings();
+          await this.plugin.applyContentStorage();
+        }));
+
+    new Setting(containerEl)
+      .setName('Text matching')
+      .setDesc('How notes are split into searchable terms. Trigram matches any part of a word of three or more characters, for part numbers, code and Chinese, Japanese or Korean text, but makes the index larger. Changing this rebuilds the search index.')
+      .addDropdown(dropdown => dropdown
+        .addOption('porter', 'English word stems (running finds run)')
+        .addOption('unicode61', 'Whole words, accents ignored')
+        .addOption('trigram', 'Trigram (substrings, CJK)')
+        .setValue(this.plugin.settings.ftsTokenizer)
+        .onChange(async (value) => {
+          this.plugin.settings.ftsTokenizer = value as FtsTokenizer;
+          await this.plugin.saveSettings();
+          await this.plugin.applyFtsTokenizer();
+        }));
+
+    this.addNormalizerSettings(containerEl);
+    this.addTransclusionSettings(containerEl);
+    this.addRevisionSettings(containerEl);
+  }
+
+  private addNormalizerSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: 'Indexed text' });
+
+    const elements: Array<{ key: keyof NormalizerRules; name: string; desc: string }> = [
+      { key: 'frontmatter', name: 'Frontmatter', desc: 'YAML properties block (tags, aliases and properties are indexed for filters either way)' },
+      { key: 'codeBlocks', name: 'Code blocks', desc: 'Fenced ``` and ~~~ blocks' },
+      { key: 'callouts', name: 'Callouts', desc: '> [!note] blocks, indexed without the callout marker' },
+      { key: 'comments', name: 'Comments', desc: '%%Obsidian comments%% (HTML comments are always stripped)' },
+      { key: 'footnotes', name: 'Footnotes', desc: 'Footnote definitions and ^[inline footnotes]' },
+    ];
+
+    for (const element of elements) {
+      new Setting(containerEl)
+        .setName(element.name)
+        .setDesc(element.desc)
+        .addDropdown(dropdown => dropdown
+          .addOption('keep', 'Keep')
+          .addOption('strip', 'Strip')
+          .addOption('separate', 'Index separately')
+          .setValue(this.plugin.settings.normalizerRules[element.key])
+          .onChange(async (value) => {
+            this.plugin.settings.normalizerRules = {
+              ...this.plugin.settings.normalizerRules,
+              [element.key]: value as NormalizerRule,
+            };
+            await this.plugin.saveSettings();
+            await this.plugin.applyNormalizerRules();
+          }));
+    }
+  }
+
+  private addTransclusionSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: 'Embedded notes' });
+
+    new Setting(containerEl)
+      .setName('Index embedded notes')
+      .setDesc('Index the text of ![[embedded notes]], headings and ^blocks as part of the notes embedding them, so notes built from embeds are found by what they show. Editing an embedded note updates the notes embedding it.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.expandEmbeds)
+        .onChange(async (value) => {
+          this.plugin.settings.expandEmbeds = value;
+          await this.plugin.saveSettings();
+          await this.plugin.applyTransclusions();
+        }));
+
+    new Setting(containerEl)
+      .setName('Embed depth')
+      .setDesc('Levels of embeds to follow: 1 indexes the notes a note embeds, 2 also the notes those embed. A note is never expanded inside itself.')
+      .addDropdown(dropdown => {
+        for (let depth = 1; depth <= MAX_TRANSCLUSION_DEPTH; depth++) {
+          dropdown.addOption(String(depth), String(depth));
+        }
+        dropdown
+          .setValue(String(this.plugin.settings.embedDepth))
+          .onChange(async (value) => {
+            this.plugin.settings.embedDepth = parseInt(value);
+            await this.plugin.saveSettings();
+            await this.plugin.applyTransclusions();
+          });
+      });
+  }
+
+  private addRevisionSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: 'Revision history' });
+
+    new Setting(containerEl)
+      .setName('Keep previous versions')
+      .setDesc('Store the text of each version of a note so search can find text that was since removed, or search the vault as of a date. Versions are stored in the index even in contentless mode.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.revisionHistory)
+        .onChange(async (value) => {
+          this.plugin.settings.revisionHistory = value;
+          await this.plugin.saveSettings();
+          await this.plugin.applyRevisionHistory();
+        }));
+
+    new Setting(containerEl)
+      .setName('Versions to keep per note')
+      .setDesc('Previous versions kept for each note (0 = no limit)')
+      .addText(text => text
+        .setPlaceholder('20')
+        .setValue(String(this.plugin.settings.maxRevisionsPerNote))
+        .onChange(async (value) => {
+          const num = parseInt(value);
+          if (!isNaN(num) && num >= 0) {
+            this.plugin.settings.maxRevisionsPerNote = num;
+            await this.plugin.saveSettings();
+            await this.plugin.applyRevisionHistory();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Keep versions for (days)')
+      .setDesc('Previous versions older than this are deleted (0 = keep forever)')
+      .addText(text => text
+        .setPlaceholder('180')
+        .setValue(String(this.plugin.settings.revisionRetentionDays))
+        .onChange(async (value) => {
+          const num = parseInt(value);
+          if (!isNaN(num) && num >= 0) {
+            this.plugin.settings.revisionRetentionDays = num;
+            await this.plugin.saveSettings();
+            await this.plugin.applyRevisionHistory();
+          }
+        }));
   }
 
   private addSearchSettings(containerEl: HTMLElement): void {
@@ -195,5 +404,19 @@ export class QMDSettingsTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           }
         }));
+
+    new Setting(containerEl)
+      .setName('Near-duplicate similarity (%)')
+      .setDesc('How much of two notes\' wording must overlap for "Find near-duplicate notes" to group them (50-100)')
+      .addText(text => text
+        .setPlaceholder('80')
+        .setValue(String(this.plugin.settings.duplicateThreshold))
+        .onChange(async (value) => {
+          const num = parseFloat(value);
+          if (!isNaN(num) && num >= 50 && num <= 100) {
+            this.plugin.settings.duplicateThreshold = num;
+            await this.plugin.saveSettings();
+          }
+        }));
   }
 }
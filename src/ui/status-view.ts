@@ -1,5 +1,8 @@
 import { ItemView, WorkspaceLeaf } from 'obsidian';
-import type { Database } from '../search/fts-search';
+import type { GarbageCollectionReport, RemoteIndexRepository } from '../database/repository';
+import { formatGarbageCollection } from '../database/gc';
+import type { IndexAutosaver } from '../database/autosave';
+import type { Job, JobEvent, JobQueue } from '../jobs/job-queue';
 
 export const STATUS_VIEW_TYPE = 'qmd-status-view';
 
@@ -10,19 +13,27 @@ export interface IndexStats {
   ollamaConnected: boolean;
   ollamaError: string | null;
   databaseSize: number;
+  lastGarbageCollection: GarbageCollectionReport | null;
 }
 
 export class QMDStatusView extends ItemView {
-  private db: Database | null = null;
+  private repository: RemoteIndexRepository | null = null;
+  private autosaver: IndexAutosaver | null = null;
   private stats: IndexStats = {
     totalDocuments: 0,
     totalVectors: 0,
     lastIndexed: null,
     ollamaConnected: false,
     ollamaError: null,
-    databaseSize: 0
+    databaseSize: 0,
+    lastGarbageCollection: null
   };
   private refreshInterval: NodeJS.Timeout | null = null;
+  private jobQueue: JobQueue | null = null;
+  private jobs: Job[] = [];
+  private currentItems = new Map<number, string>();
+  private unsubscribeJobs: (() => void) | null = null;
+  private jobRenderTimeout: NodeJS.Timeout | null = null;
 
   constructor(leaf: WorkspaceLeaf) {
     super(leaf);
@@ -40,17 +51,65 @@ export class QMDStatusView extends ItemView {
     return 'info';
   }
 
-  setDatabase(db: Database): void {
-    this.db = db;
+  setRepository(repository: RemoteIndexRepository): void {
+    this.repository = repository;
     this.refresh();
   }
 
+  setAutosaver(autosaver: IndexAutosaver): void {
+    this.autosaver = autosaver;
+    this.refresh();
+  }
+
+  setJobQueue(jobQueue: JobQueue): void {
+    this.jobQueue = jobQueue;
+    this.subscribeToJobs();
+    this.refresh();
+  }
+
+  private subscribeToJobs(): void {
+    this.unsubscribeJobs?.();
+    this.unsubscribeJobs = this.jobQueue?.subscribe(event => this.onJobEvent(event)) ?? null;
+  }
+
+  /**
+   * Jobs report progress per file, so the list is re-read at most twice a second
+   */
+  private onJobEvent({ job, currentItem }: JobEvent): void {
+    if (currentItem) {
+      this.currentItems.set(job.id, currentItem);
+    }
+    if (this.jobRenderTimeout) return;
+
+    this.jobRenderTimeout = setTimeout(async () => {
+      this.jobRenderTimeout = null;
+      await this.updateJobs();
+      const container = this.containerEl.children[1];
+      container.empty();
+      this.renderStatus(container);
+    }, 500);
+  }
+
+  private async updateJobs(): Promise<void> {
+    if (!this.jobQueue) return;
+    try {
+      this.jobs = await this.jobQueue.listActiveJobs();
+      const active = new Set(this.jobs.map(job => job.id));
+      for (const id of this.currentItems.keys()) {
+        if (!active.has(id)) this.currentItems.delete(id);
+      }
+    } catch (error) {
+      console.error('Failed to list jobs:', error);
+    }
+  }
+
   async onOpen(): Promise<void> {
     const container = this.containerEl.children[1];
     container.empty();
     container.addClass('qmd-status-view');
 
     this.renderStatus(container);
+    this.subscribeToJobs();
 
     this.refreshInterval = setInterval(() => {
       this.refresh();
@@ -61,32 +120,36 @@ export class QMDStatusView extends ItemView {
     if (this.refreshInterval) {
       clearInterval(this.refreshInterval);
     }
+    if (this.jobRenderTimeout) {
+      clearTimeout(this.jobRenderTimeout);
+      this.jobRenderTimeout = null;
+    }
+    this.unsubscribeJobs?.();
+    this.unsubscribeJobs = null;
   }
 
   async refresh(): Promise<void> {
-    if (this.db) {
+    if (this.repository) {
       await this.updateStats();
     }
+    await this.updateJobs();
     const container = this.containerEl.children[1];
     container.empty();
     this.renderStatus(container);
   }
 
   private async updateStats(): Promise<void> {
-    if (!this.db) return;
+    if (!this.repository) return;
 
     try {
-      const docCountResult = this.db.exec('SELECT COUNT(*) as count FROM documents');
-      const vectorCountResult = this.db.exec('SELECT COUNT(*) as count FROM content_vectors');
-      
-      this.stats.totalDocuments = docCountResult[0]?.values[0]?.[0] as number || 0;
-      this.stats.totalVectors = vectorCountResult[0]?.values[0]?.[0] as number || 0;
-
-      const lastIndexResult = this.db.exec('SELECT MAX(indexed_at) as last FROM documents');
-      const lastIndexTimestamp = lastIndexResult[0]?.values[0]?.[0];
+      this.stats.totalDocuments = (await this.repository.getDocumentCounts()).total;
+      this.stats.totalVectors = await this.repository.countChunks();
+
+      const lastIndexTimestamp = await this.repository.getLastIndexedAt();
       if (lastIndexTimestamp) {
-        this.stats.lastIndexed = new Date(lastIndexTimestamp as string);
+        this.stats.lastIndexed = new Date(lastIndexTimestamp);
       }
+      this.stats.lastGarbageCollection = await this.repository.getLastGarbageCollection();
     } catch (error) {
       console.error('Failed to update stats:', error);
     }
@@ -119,6 +182,85 @@ export class QMDStatusView extends ItemView {
       ? ((this.stats.totalVectors / this.stats.totalDocuments) * 100).toFixed(1)
       : '0.0';
     this.createStatRow(statsContainer, '📊 Vector Coverage', `${coveragePercent}%`);
+
+    const gc = this.stats.lastGarbageCollection;
+    const gcText = gc
+      ? `${formatGarbageCollection(gc)} (${this.formatRelativeTime(new Date(gc.finishedAt))})`
+      : 'Never';
+    this.createStatRow(statsContainer, '🧹 Last Purge', gcText);
+
+    if (this.autosaver) {
+      this.renderSaveStatus(statsContainer, container);
+    }
+
+    if (this.jobQueue) {
+      this.renderJobs(container);
+    }
+  }
+
+  private renderJobs(container: Element): void {
+    container.createEl('h4', { text: 'Jobs', cls: 'qmd-status-header qmd-status-jobs-header' });
+
+    if (this.jobs.length === 0) {
+      container.createDiv({ text: 'No indexing work queued', cls: 'qmd-status-jobs-empty' });
+      return;
+    }
+
+    const list = container.createDiv('qmd-status-stats');
+    for (const job of this.jobs) {
+      const jobEl = list.createDiv('qmd-status-row qmd-status-job');
+      const info = jobEl.createDiv('qmd-status-job-info');
+      info.createDiv({ text: formatJobName(job), cls: 'qmd-status-label' });
+
+      const progress = job.total > 0 ? ` ${job.completed}/${job.total}` : '';
+      info.createDiv({ text: `${job.status}${progress}`, cls: 'qmd-status-value' });
+      const currentItem = this.currentItems.get(job.id);
+      if (job.status === 'running' && currentItem) {
+        info.createDiv({ text: currentItem, cls: 'qmd-status-job-item' });
+      }
+
+      const actions = jobEl.createDiv('qmd-status-job-actions');
+      if (job.status === 'paused') {
+        this.createJobButton(actions, 'Resume', () => this.jobQueue?.resume(job.id));
+      } else {
+        this.createJobButton(actions, 'Pause', () => this.jobQueue?.pause(job.id));
+      }
+      this.createJobButton(actions, 'Cancel', () => this.jobQueue?.cancel(job.id));
+    }
+  }
+
+  private createJobButton(container: HTMLElement, text: string, action: () => Promise<void> | undefined): void {
+    const button = container.createEl('button', { text });
+    button.addEventListener('click', async () => {
+      try {
+        await action();
+      } catch (error) {
+        console.error(`Job ${text.toLowerCase()} failed:`, error);
+      }
+      await this.updateJobs();
+      this.refresh();
+    });
+  }
+
+  private renderSaveStatus(statsContainer: HTMLElement, container: Element): void {
+    if (!this.autosaver) return;
+
+    const status = this.autosaver.getStatus();
+    const lastSavedText = status.saving
+      ? 'Saving...'
+      : status.lastSavedAt
+        ? this.formatRelativeTime(new Date(status.lastSavedAt))
+        : 'Not this session';
+    this.createStatRow(statsContainer, '💾 Last Saved', lastSavedText);
+
+    const pendingClass = status.pendingChanges > 0 ? undefined : 'qmd-status-success';
+    this.createStatRow(statsContainer, '✏️ Pending Changes', String(status.pendingChanges), pendingClass);
+
+    if (status.lastError) {
+      const errorContainer = container.createDiv('qmd-status-error-details');
+      errorContainer.createEl('strong', { text: 'Save error: ' });
+      errorContainer.createSpan({ text: status.lastError });
+    }
   }
 
   private createStatRow(container: HTMLElement, label: string, value: string, valueClass?: string): void {
@@ -153,3 +295,20 @@ export class QMDStatusView extends ItemView {
     this.refresh();
   }
 }
+
+function formatJobName(job: Job): string {
+  switch (job.kind) {
+    case 'index-file':
+      return `Index ${job.target ?? 'file'}`;
+    case 'reindex-all':
+      return 'Reindex all documents';
+    case 'reindex-collection':
+      return `Reindex collection "${job.target}"`;
+    case 'reindex-dependents':
+      return `Update notes embedding ${job.target ?? 'a note'}`;
+    case 'embed-documents':
+      return 'Embed documents';
+    case 'collect-garbage':
+      return 'Purge deleted documents';
+  }
+}